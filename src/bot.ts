@@ -13,7 +13,9 @@ import {
 import { MainDialog } from './dialogs/mainDialog.js';
 import {
   type SudokuConversationData,
+  type SudokuUserData,
   createEmptyConversationData,
+  createEmptyUserData,
 } from './state/conversationState.js';
 import { createWelcomeCard } from './cards/welcomeCard.js';
 
@@ -27,6 +29,7 @@ export class SudokuHintBot extends ActivityHandler {
   private userState: UserState;
   private mainDialog: MainDialog;
   private conversationDataAccessor: StatePropertyAccessor<SudokuConversationData>;
+  private userDataAccessor: StatePropertyAccessor<SudokuUserData>;
 
   constructor(conversationState: ConversationState, userState: UserState, mainDialog: MainDialog) {
     super();
@@ -38,6 +41,7 @@ export class SudokuHintBot extends ActivityHandler {
     // Create state property accessors
     this.conversationDataAccessor =
       this.conversationState.createProperty<SudokuConversationData>('SudokuConversationData');
+    this.userDataAccessor = this.userState.createProperty<SudokuUserData>('SudokuUserData');
 
     // Handle incoming messages
     this.onMessage(async (context, next) => {
@@ -67,11 +71,15 @@ export class SudokuHintBot extends ActivityHandler {
       conversationData = createEmptyConversationData();
     }
 
+    // Get user data (settings commands update it in place)
+    const userData = (await this.userDataAccessor.get(context)) ?? createEmptyUserData();
+
     // Process message through main dialog
-    conversationData = await this.mainDialog.onMessageActivity(context, conversationData);
+    conversationData = await this.mainDialog.onMessageActivity(context, conversationData, userData);
 
-    // Save updated conversation data
+    // Save updated conversation and user data
     await this.conversationDataAccessor.set(context, conversationData);
+    await this.userDataAccessor.set(context, userData);
   }
 
   /**
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'bun:test';
+import { createCheckCard } from './checkCard.js';
+
+describe('createCheckCard', () => {
+  const titles = (card: ReturnType<typeof createCheckCard>) =>
+    card.content.actions.map((a: { title: string }) => a.title);
+
+  it('offers to show and clear mistakes without revealing them', () => {
+    const card = createCheckCard({ entries: 14, mistakes: [3, 5] });
+
+    expect(card.content.body.some((b: { type: string }) => b.type === 'Image')).toBe(false);
+    expect(titles(card)).toEqual(['Show Mistakes', 'Clear Mistakes', 'Get Hint']);
+  });
+
+  it('shows the highlighted board once revealed', () => {
+    const card = createCheckCard({ entries: 14, mistakes: [3, 5] }, 'data:image/png;base64,AAAA');
+    const image = card.content.body.find((b: { type: string }) => b.type === 'Image');
+
+    expect(image.url).toBe('data:image/png;base64,AAAA');
+    expect(titles(card)).toEqual(['Clear Mistakes', 'Get Hint']);
+  });
+
+  it('only offers a hint when there are no mistakes', () => {
+    const card = createCheckCard({ entries: 3, mistakes: [] });
+
+    expect(titles(card)).toEqual(['Get Hint']);
+  });
+});
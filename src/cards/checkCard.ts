@@ -0,0 +1,85 @@
+/**
+ * Check Card - Result of checking the user's entries against the solution
+ */
+
+import { CardFactory, type Attachment } from 'botbuilder';
+import { describeBoardCheck, type BoardCheck } from '../services/boardCheck.js';
+
+/**
+ * Create an Adaptive Card reporting how many entries are wrong. The mistakes are only
+ * shown when a board image is passed; otherwise the card offers to show them.
+ * @param check - The check to report
+ * @param boardImageUrl - Optional rendered board with the mistakes highlighted (data URL)
+ * @returns Bot Framework Attachment containing the check Adaptive Card
+ */
+export function createCheckCard(check: BoardCheck, boardImageUrl?: string): Attachment {
+  const hasMistakes = check.mistakes.length > 0;
+
+  const body: unknown[] = [
+    {
+      type: 'TextBlock',
+      text: hasMistakes ? '**Board Check**' : '✅ **Board Check**',
+      weight: 'Bolder',
+      size: 'Medium',
+      color: hasMistakes ? 'Warning' : 'Good',
+      wrap: true,
+    },
+    {
+      type: 'TextBlock',
+      text: describeBoardCheck(check),
+      wrap: true,
+    },
+  ];
+
+  if (boardImageUrl) {
+    body.push(
+      {
+        type: 'Image',
+        url: boardImageUrl,
+        size: 'Large',
+        horizontalAlignment: 'Center',
+      },
+      {
+        type: 'TextBlock',
+        text: 'Wrong entries are highlighted in red.',
+        wrap: true,
+        size: 'Small',
+        isSubtle: true,
+      }
+    );
+  }
+
+  const card = {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.5',
+    body,
+    actions: [
+      ...(hasMistakes && !boardImageUrl
+        ? [
+            {
+              type: 'Action.Submit',
+              title: 'Show Mistakes',
+              data: { action: 'show_mistakes' },
+            },
+          ]
+        : []),
+      ...(hasMistakes
+        ? [
+            {
+              type: 'Action.Submit',
+              title: 'Clear Mistakes',
+              data: { action: 'clear_mistakes' },
+            },
+          ]
+        : []),
+      {
+        type: 'Action.Submit',
+        title: 'Get Hint',
+        data: { action: 'get_hint' },
+      },
+    ],
+  };
+
+  return CardFactory.adaptiveCard(card);
+}
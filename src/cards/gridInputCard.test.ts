@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'bun:test';
+import { createGridInputCard, readGridInput } from './gridInputCard.js';
+
+describe('gridInputCard', () => {
+  const puzzle =
+    '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+
+  /** Build submitted card values from a puzzle string */
+  const toValues = (value: string): Record<string, unknown> => {
+    const values: Record<string, unknown> = { action: 'submit_grid' };
+    for (let row = 1; row <= 9; row++) {
+      values[`row${row}`] = value.slice((row - 1) * 9, row * 9);
+    }
+    return values;
+  };
+
+  describe('createGridInputCard', () => {
+    it('has nine row inputs', () => {
+      const card = createGridInputCard();
+      const inputs = card.content.body.filter((b: { type: string }) => b.type === 'Input.Text');
+
+      expect(inputs).toHaveLength(9);
+      expect(inputs[0].id).toBe('row1');
+      expect(inputs[8].id).toBe('row9');
+      expect(inputs[0].value).toBe('');
+    });
+
+    it('pre-fills rows with dots for empty cells', () => {
+      const card = createGridInputCard(puzzle);
+      const inputs = card.content.body.filter((b: { type: string }) => b.type === 'Input.Text');
+
+      expect(inputs[0].value).toBe('53..7....');
+      expect(card.content.body[0].text).toBe('Edit Puzzle');
+    });
+
+    it('submits with the submit_grid action', () => {
+      const card = createGridInputCard();
+      expect(card.content.actions[0].data.action).toBe('submit_grid');
+    });
+  });
+
+  describe('readGridInput', () => {
+    it('reads a complete grid', () => {
+      expect(readGridInput(toValues(puzzle))).toEqual({ puzzle });
+    });
+
+    it('accepts dots, spaces and pipes', () => {
+      const values = toValues(puzzle);
+      values['row1'] = '5 3 . | . 7 . | . . .';
+      expect(readGridInput(values)).toEqual({ puzzle });
+    });
+
+    it('treats empty rows as empty cells', () => {
+      const values = toValues(puzzle);
+      values['row9'] = '';
+      const result = readGridInput(values);
+
+      expect(result).toEqual({ puzzle: `${puzzle.slice(0, 72)}000000000` });
+    });
+
+    it('reports malformed rows', () => {
+      const values = toValues(puzzle);
+      values['row2'] = '123';
+      values['row5'] = 'abcdefghi';
+
+      expect(readGridInput(values)).toEqual({ invalidRows: [2, 5] });
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Grid Input Card - Type or correct a puzzle as nine editable rows
+ */
+
+import { CardFactory, type Attachment } from 'botbuilder';
+
+/**
+ * Result of reading a submitted grid
+ */
+export type GridInputResult = { puzzle: string } | { invalidRows: number[] };
+
+/**
+ * Input id for a row (1-based)
+ */
+function rowInputId(row: number): string {
+  return `row${row}`;
+}
+
+/**
+ * Create an Adaptive Card with one text input per row, pre-filled with a puzzle.
+ * Empty cells are shown as '.', and the grid is posted back with the `submit_grid` action.
+ * @param puzzle - Puzzle to pre-fill (81 chars, '0' = empty); omit for a blank grid
+ * @returns Bot Framework Attachment containing the grid input Adaptive Card
+ */
+export function createGridInputCard(puzzle?: string): Attachment {
+  const body: unknown[] = [
+    {
+      type: 'TextBlock',
+      text: puzzle ? 'Edit Puzzle' : 'Enter Puzzle',
+      weight: 'Bolder',
+      size: 'Large',
+      wrap: true,
+    },
+    {
+      type: 'TextBlock',
+      text: "Type each row as 9 digits, using '.' or 0 for empty cells.",
+      wrap: true,
+      spacing: 'Small',
+    },
+  ];
+
+  for (let row = 1; row <= 9; row++) {
+    const cells = puzzle ? puzzle.slice((row - 1) * 9, row * 9).replace(/0/g, '.') : '';
+    body.push({
+      type: 'Input.Text',
+      id: rowInputId(row),
+      label: `Row ${row}`,
+      value: cells,
+      placeholder: '.........',
+      maxLength: 17,
+      regex: '^\\s*([0-9.]\\s*){9}$|^\\s*$',
+      errorMessage: `Row ${row} needs 9 cells`,
+      spacing: row % 3 === 1 ? 'Medium' : 'Small',
+    });
+  }
+
+  const card = {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.5',
+    body,
+    actions: [
+      {
+        type: 'Action.Submit',
+        title: 'Submit Puzzle',
+        data: { action: 'submit_grid' },
+      },
+    ],
+  };
+
+  return CardFactory.adaptiveCard(card);
+}
+
+/**
+ * Read a grid submitted from the grid input card.
+ * Whitespace, pipes and commas are ignored; an empty row counts as nine empty cells.
+ * @param value - The submitted card values (`activity.value`)
+ * @returns The 81-char puzzle ('0' = empty), or the 1-based rows that are malformed
+ */
+export function readGridInput(value: Record<string, unknown>): GridInputResult {
+  let puzzle = '';
+  const invalidRows: number[] = [];
+
+  for (let row = 1; row <= 9; row++) {
+    const cells = String(value[rowInputId(row)] ?? '').replace(/[\s|,]/g, '');
+
+    if (cells === '') {
+      puzzle += '0'.repeat(9);
+    } else if (/^[0-9.]{9}$/.test(cells)) {
+      puzzle += cells.replace(/\./g, '0');
+    } else {
+      invalidRows.push(row);
+    }
+  }
+
+  return invalidRows.length > 0 ? { invalidRows } : { puzzle };
+}
@@ -0,0 +1,37 @@
+/**
+ * OCR Status Card - Show what the bot is doing while it reads a photo
+ */
+
+import { CardFactory, type Attachment } from 'botbuilder';
+
+/**
+ * Create an Adaptive Card describing the current OCR stage.
+ * Sent once and then updated in place on channels that support message updates.
+ * @param stage - What is happening now (e.g. "Recognizing digits 40/81")
+ * @param done - Whether reading has finished (shows the stage as the final outcome)
+ * @returns Bot Framework Attachment containing the status Adaptive Card
+ */
+export function createOcrStatusCard(stage: string, done: boolean = false): Attachment {
+  const card = {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.5',
+    body: [
+      {
+        type: 'TextBlock',
+        text: done ? 'Finished reading your puzzle' : 'Reading your puzzle...',
+        weight: 'Bolder',
+        wrap: true,
+      },
+      {
+        type: 'TextBlock',
+        text: stage,
+        isSubtle: true,
+        wrap: true,
+        spacing: 'Small',
+      },
+    ],
+  };
+
+  return CardFactory.adaptiveCard(card);
+}
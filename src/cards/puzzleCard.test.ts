@@ -24,11 +24,13 @@ describe('puzzleCard', () => {
       const card = createPuzzleCard(puzzle, true);
       const actions = card.content.actions;
 
-      expect(actions).toHaveLength(2);
+      expect(actions).toHaveLength(3);
       expect(actions[0].title).toBe('Yes, get hints');
       expect(actions[0].data.action).toBe('confirm_puzzle');
-      expect(actions[1].title).toBe('No, try again');
-      expect(actions[1].data.action).toBe('reject_puzzle');
+      expect(actions[1].title).toBe('Edit Grid');
+      expect(actions[1].data.action).toBe('edit_grid');
+      expect(actions[2].title).toBe('No, try again');
+      expect(actions[2].data.action).toBe('reject_puzzle');
     });
 
     it('shows hint/new buttons when showConfirmation=false', () => {
@@ -42,6 +44,27 @@ describe('puzzleCard', () => {
       expect(actions[1].data.action).toBe('new_puzzle');
     });
 
+    it('lists handwritten entries and offers to treat them as clues', () => {
+      const card = createPuzzleCard({ ...puzzle, user: `004${puzzle.user.slice(3)}` }, true);
+      const factSet = card.content.body.find((b: { type: string }) => b.type === 'FactSet');
+      const entriesFact = factSet.facts.find((f: { title: string }) => f.title === 'Your entries');
+      const actions = card.content.actions;
+
+      expect(entriesFact.value).toBe('1');
+      expect(actions).toHaveLength(4);
+      expect(actions[2].title).toBe('All Clues');
+      expect(actions[2].data.action).toBe('merge_entries');
+    });
+
+    it('counts cells with pencilmarks', () => {
+      const pencilmarks = ['', '', '12', '', '', '4', ...new Array(75).fill('')].join(',');
+      const card = createPuzzleCard({ ...puzzle, pencilmarks }, true);
+      const factSet = card.content.body.find((b: { type: string }) => b.type === 'FactSet');
+      const marksFact = factSet.facts.find((f: { title: string }) => f.title === 'Pencilmarks');
+
+      expect(marksFact.value).toBe('2 cells');
+    });
+
     it('displays correct clue count', () => {
       const card = createPuzzleCard(puzzle, true);
       const factSet = card.content.body.find((b: { type: string }) => b.type === 'FactSet');
@@ -59,6 +82,80 @@ describe('puzzleCard', () => {
       const confidenceFact = factSet.facts.find((f: { title: string }) => f.title === 'Confidence');
       expect(confidenceFact.value).toBe('95.5%');
     });
+
+    it('shows whether the puzzle has a unique solution', () => {
+      const uniqueCard = createPuzzleCard(puzzle, true);
+      const uniqueFacts = uniqueCard.content.body.find((b: { type: string }) => b.type === 'FactSet');
+      expect(uniqueFacts.facts.find((f: { title: string }) => f.title === 'Solution').value).toBe(
+        'Unique'
+      );
+
+      const ambiguousCard = createPuzzleCard({ ...puzzle, solution: undefined }, true);
+      const ambiguousFacts = ambiguousCard.content.body.find(
+        (b: { type: string }) => b.type === 'FactSet'
+      );
+      expect(
+        ambiguousFacts.facts.find((f: { title: string }) => f.title === 'Solution').value
+      ).toBe('Not unique');
+    });
+  });
+
+  describe('createPuzzleCard with OCR details', () => {
+    const original =
+      '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+    const cellConfidence = new Array(81).fill(99);
+    cellConfidence[0] = 40;
+    cellConfidence[1] = 55;
+
+    const puzzle: PuzzleState = {
+      original,
+      user: '0'.repeat(81),
+      confidence: 90,
+      cellConfidence,
+      alternatives: `6${'0'.repeat(80)}`,
+    };
+
+    it('lists low-confidence cells with runner-up digits', () => {
+      const card = createPuzzleCard(puzzle, true);
+      const factSet = card.content.body.find((b: { type: string }) => b.type === 'FactSet');
+      const checkFact = factSet.facts.find((f: { title: string }) => f.title === 'Check cells');
+
+      expect(checkFact.value).toBe('R1C1: 5 or 6?, R1C2: 3?');
+    });
+
+    it('shows the board image instead of the text grid when given', () => {
+      const card = createPuzzleCard(puzzle, true, 'data:image/png;base64,AAAA');
+      const image = card.content.body.find((b: { type: string }) => b.type === 'Image');
+
+      expect(image.url).toBe('data:image/png;base64,AAAA');
+    });
+
+    it('shows the photo OCR read beside the rendered board', () => {
+      const card = createPuzzleCard(
+        puzzle,
+        true,
+        'data:image/png;base64,AAAA',
+        'data:image/jpeg;base64,BBBB'
+      );
+      const columnSet = card.content.body.find((b: { type: string }) => b.type === 'ColumnSet');
+      const images = columnSet.columns.map(
+        (column: { items: { type: string; url?: string }[] }) =>
+          column.items.find(item => item.type === 'Image')?.url
+      );
+
+      expect(images).toEqual(['data:image/jpeg;base64,BBBB', 'data:image/png;base64,AAAA']);
+    });
+
+    it('leaves the photo out once the puzzle is confirmed', () => {
+      const card = createPuzzleCard(
+        puzzle,
+        false,
+        'data:image/png;base64,AAAA',
+        'data:image/jpeg;base64,BBBB'
+      );
+
+      expect(card.content.body.some((b: { type: string }) => b.type === 'ColumnSet')).toBe(false);
+    });
   });
 
   describe('createProgressCard', () => {
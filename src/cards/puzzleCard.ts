@@ -4,6 +4,10 @@
 
 import { CardFactory, type Attachment } from 'botbuilder';
 import type { PuzzleState } from '../state/conversationState.js';
+import { findSuspiciousCells, describeSuspiciousCell } from '../services/ocrConfidence.js';
+
+/** Maximum number of doubtful cells listed on the card */
+const MAX_LISTED_SUSPICIOUS_CELLS = 8;
 
 /**
  * Format a puzzle string as a 9x9 grid for display
@@ -34,19 +38,67 @@ function formatPuzzleGrid(puzzle: string): string {
   return lines.join('\n');
 }
 
+/**
+ * Photo and rendered board in two captioned columns
+ */
+function createSideBySide(photoUrl: string, boardImageUrl: string): unknown {
+  const column = (caption: string, url: string) => ({
+    type: 'Column',
+    width: 'stretch',
+    items: [
+      { type: 'TextBlock', text: caption, isSubtle: true, size: 'Small', wrap: true },
+      { type: 'Image', url, size: 'Stretch', spacing: 'Small' },
+    ],
+  });
+
+  return {
+    type: 'ColumnSet',
+    spacing: 'Medium',
+    columns: [column('Your photo', photoUrl), column('What I read', boardImageUrl)],
+  };
+}
+
 /**
  * Create an Adaptive Card showing the recognized Sudoku puzzle grid.
- * Displays the puzzle in monospace text with clue count and OCR confidence.
+ * Displays the puzzle (as a rendered board image when given, otherwise in monospace text)
+ * with clue count, the user's own (handwritten) entries and pencilmarks, OCR confidence,
+ * whether the solver found a unique solution, and the cells OCR was least sure about.
+ * While confirming a photo, the board image OCR read is shown beside the rendered board so
+ * users can tell a misplaced grid from misread digits.
  * @param puzzle - The puzzle state containing the original puzzle string and confidence
  * @param showConfirmation - Whether to show confirm/reject buttons (default: true)
+ * @param boardImageUrl - Optional data URL of the rendered board
+ * @param photoUrl - Optional data URL of the board image OCR read
  * @returns Bot Framework Attachment containing the puzzle Adaptive Card
  */
 export function createPuzzleCard(
   puzzle: PuzzleState,
-  showConfirmation: boolean = true
+  showConfirmation: boolean = true,
+  boardImageUrl?: string,
+  photoUrl?: string
 ): Attachment {
   const grid = formatPuzzleGrid(puzzle.original);
   const clueCount = puzzle.original.split('').filter(c => c !== '0').length;
+  const entryCount = puzzle.user.split('').filter(c => c !== '0').length;
+  const pencilmarkCount = (puzzle.pencilmarks ?? '').split(',').filter(c => c !== '').length;
+  const suspiciousCells = findSuspiciousCells(puzzle);
+
+  const facts = [
+    { title: 'Clues', value: clueCount.toString() },
+    ...(entryCount > 0 ? [{ title: 'Your entries', value: entryCount.toString() }] : []),
+    ...(pencilmarkCount > 0 ? [{ title: 'Pencilmarks', value: `${pencilmarkCount} cells` }] : []),
+    { title: 'Confidence', value: `${puzzle.confidence.toFixed(1)}%` },
+    { title: 'Solution', value: puzzle.solution ? 'Unique' : 'Not unique' },
+  ];
+
+  if (suspiciousCells.length > 0) {
+    const listed = suspiciousCells.slice(0, MAX_LISTED_SUSPICIOUS_CELLS);
+    const more = suspiciousCells.length - listed.length;
+    facts.push({
+      title: 'Check cells',
+      value: listed.map(describeSuspiciousCell).join(', ') + (more > 0 ? ` (+${more} more)` : ''),
+    });
+  }
 
   const body: unknown[] = [
     {
@@ -56,19 +108,26 @@ export function createPuzzleCard(
       size: 'Large',
       wrap: true,
     },
-    {
-      type: 'TextBlock',
-      text: grid,
-      fontType: 'Monospace',
-      wrap: false,
-      spacing: 'Medium',
-    },
+    showConfirmation && boardImageUrl && photoUrl
+      ? createSideBySide(photoUrl, boardImageUrl)
+      : boardImageUrl
+        ? {
+            type: 'Image',
+            url: boardImageUrl,
+            size: 'Large',
+            horizontalAlignment: 'Center',
+            spacing: 'Medium',
+          }
+        : {
+            type: 'TextBlock',
+            text: grid,
+            fontType: 'Monospace',
+            wrap: false,
+            spacing: 'Medium',
+          },
     {
       type: 'FactSet',
-      facts: [
-        { title: 'Clues', value: clueCount.toString() },
-        { title: 'Confidence', value: `${puzzle.confidence.toFixed(1)}%` },
-      ],
+      facts,
       spacing: 'Medium',
     },
   ];
@@ -80,6 +139,24 @@ export function createPuzzleCard(
       wrap: true,
       spacing: 'Medium',
     });
+    if (entryCount > 0) {
+      body.push({
+        type: 'TextBlock',
+        text: "Digits shown in blue look handwritten and are kept as your entries, not clues. Send e.g. 'r3c5 given' or 'r3c5 mine' to move a digit, or use 'All Clues'.",
+        size: 'Small',
+        isSubtle: true,
+        wrap: true,
+        spacing: 'Small',
+      });
+    }
+    body.push({
+      type: 'TextBlock',
+      text: "To fix cells, use 'Edit Grid' or send e.g. 'r3c5=7', 'r3c5 empty' or 'fix row 4: 0 0 3 0 0 0 7 0 0'.",
+      size: 'Small',
+      isSubtle: true,
+      wrap: true,
+      spacing: 'Small',
+    });
   }
 
   const actions = showConfirmation
@@ -89,6 +166,20 @@ export function createPuzzleCard(
           title: 'Yes, get hints',
           data: { action: 'confirm_puzzle' },
         },
+        {
+          type: 'Action.Submit',
+          title: 'Edit Grid',
+          data: { action: 'edit_grid' },
+        },
+        ...(entryCount > 0
+          ? [
+              {
+                type: 'Action.Submit',
+                title: 'All Clues',
+                data: { action: 'merge_entries' },
+              },
+            ]
+          : []),
         {
           type: 'Action.Submit',
           title: 'No, try again',
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'bun:test';
+import { createPuzzleListCard } from './puzzleListCard.js';
+import type { PendingPuzzle } from '../state/conversationState.js';
+
+describe('createPuzzleListCard', () => {
+  const original =
+    '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+  const puzzles: PendingPuzzle[] = [
+    { name: 'Photo 1, grid 1', original, user: '0'.repeat(81), level: 2 },
+    { name: 'Photo 1, grid 2', original, user: '0'.repeat(81) },
+  ];
+
+  it('lists each puzzle with its clue count and level', () => {
+    const card = createPuzzleListCard('2 photos', puzzles);
+    const choiceSet = card.content.body.find((b: { type: string }) => b.type === 'Input.ChoiceSet');
+
+    expect(choiceSet.choices.map((c: { title: string }) => c.title)).toEqual([
+      'Photo 1, grid 1 (30 clues, level 2)',
+      'Photo 1, grid 2 (30 clues)',
+    ]);
+  });
+
+  it('shows the previews it is given under their puzzle names', () => {
+    const card = createPuzzleListCard('2 photos', puzzles, 2, [
+      undefined,
+      'data:image/jpeg;base64,BBBB',
+    ]);
+    const columnSet = card.content.body.find((b: { type: string }) => b.type === 'ColumnSet');
+    const items = columnSet.columns[0].items;
+
+    expect(columnSet.columns).toHaveLength(1);
+    expect(items[0].text).toBe('Photo 1, grid 2');
+    expect(items[1].url).toBe('data:image/jpeg;base64,BBBB');
+  });
+
+  it('shows no previews for puzzles from a file', () => {
+    const card = createPuzzleListCard('puzzles.sdm', puzzles);
+
+    expect(card.content.body.some((b: { type: string }) => b.type === 'ColumnSet')).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Puzzle List Card - Choose one puzzle from a multi-puzzle file or photo
+ */
+
+import { CardFactory, type Attachment } from 'botbuilder';
+import type { PendingPuzzle } from '../state/conversationState.js';
+
+/** Puzzle previews shown per row */
+const PREVIEWS_PER_ROW = 3;
+
+/**
+ * Captioned previews of the puzzles, in rows
+ */
+function createPreviewRows(names: string[], previews: (string | undefined)[]): unknown[] {
+  const columns = names.flatMap((name, index) => {
+    const url = previews[index];
+    if (!url) return [];
+    return [
+      {
+        type: 'Column',
+        width: 'stretch',
+        items: [
+          { type: 'TextBlock', text: name, isSubtle: true, size: 'Small', wrap: true },
+          { type: 'Image', url, size: 'Stretch', spacing: 'Small' },
+        ],
+      },
+    ];
+  });
+
+  const rows: unknown[] = [];
+  for (let i = 0; i < columns.length; i += PREVIEWS_PER_ROW) {
+    rows.push({
+      type: 'ColumnSet',
+      spacing: 'Medium',
+      columns: columns.slice(i, i + PREVIEWS_PER_ROW),
+    });
+  }
+  return rows;
+}
+
+/**
+ * Create an Adaptive Card listing puzzles to choose from.
+ * Uses a compact choice set so large collections stay readable; the selected index
+ * is submitted as `puzzleIndex` with the `select_puzzle` action. Each puzzle shows its
+ * clue count, and its difficulty level when the solver has rated it. Puzzles read from
+ * photos can show the grid OCR read above the list.
+ * @param title - Source of the puzzles (e.g. the file name)
+ * @param puzzles - Puzzles available to choose from
+ * @param totalCount - Number of puzzles in the source, if more than are listed
+ * @param previews - Optional data URLs of the board image OCR read, one per puzzle
+ * @returns Bot Framework Attachment containing the puzzle list Adaptive Card
+ */
+export function createPuzzleListCard(
+  title: string,
+  puzzles: PendingPuzzle[],
+  totalCount: number = puzzles.length,
+  previews: (string | undefined)[] = []
+): Attachment {
+  const names = puzzles.map((puzzle, index) => puzzle.name || `Puzzle ${index + 1}`);
+  const choices = puzzles.map((puzzle, index) => {
+    const clueCount = puzzle.original.split('').filter(c => c !== '0').length;
+    const name = names[index]!;
+    const details = [
+      `${clueCount} clues`,
+      ...(puzzle.level !== undefined ? [`level ${puzzle.level}`] : []),
+    ];
+    return { title: `${name} (${details.join(', ')})`, value: index.toString() };
+  });
+
+  const summary =
+    totalCount > puzzles.length
+      ? `Found ${totalCount} puzzles; showing the first ${puzzles.length}.`
+      : `Found ${puzzles.length} puzzles.`;
+
+  const card = {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.5',
+    body: [
+      {
+        type: 'TextBlock',
+        text: 'Choose a Puzzle',
+        weight: 'Bolder',
+        size: 'Large',
+        wrap: true,
+      },
+      {
+        type: 'TextBlock',
+        text: title,
+        isSubtle: true,
+        wrap: true,
+      },
+      {
+        type: 'TextBlock',
+        text: summary,
+        wrap: true,
+        spacing: 'Medium',
+      },
+      ...createPreviewRows(names, previews),
+      {
+        type: 'Input.ChoiceSet',
+        id: 'puzzleIndex',
+        style: 'compact',
+        value: '0',
+        choices,
+      },
+    ],
+    actions: [
+      {
+        type: 'Action.Submit',
+        title: 'Load Puzzle',
+        data: { action: 'select_puzzle' },
+      },
+      {
+        type: 'Action.Submit',
+        title: 'Cancel',
+        data: { action: 'new_puzzle' },
+      },
+    ],
+  };
+
+  return CardFactory.adaptiveCard(card);
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'bun:test';
+import { createSolveSummaryCard } from './solveSummaryCard.js';
+import type { SolveLog } from '../services/solveRunner.js';
+
+describe('createSolveSummaryCard', () => {
+  const user = '0'.repeat(81);
+  const log: SolveLog = {
+    entries: [
+      { technique: 'Naked Single', level: 1, text: 'Place 4 in R1C3.', user },
+      { technique: 'Hidden Single', level: 2, text: 'Place 6 in R1C4.', user },
+      { technique: 'Naked Single', level: 1, text: 'Place 8 in R1C5.', user },
+    ],
+    solved: true,
+    user,
+  };
+
+  it('lists each technique once with its count and level', () => {
+    const card = createSolveSummaryCard(log);
+    const factSet = card.content.body.find((b: { type: string }) => b.type === 'FactSet');
+
+    expect(factSet.facts).toEqual([
+      { title: 'Naked Single (Level 1)', value: '×2' },
+      { title: 'Hidden Single (Level 2)', value: '×1' },
+    ]);
+  });
+
+  it('lists every step behind Show All Steps', () => {
+    const card = createSolveSummaryCard(log);
+    const showSteps = card.content.actions.find(
+      (a: { title: string }) => a.title === 'Show All Steps'
+    );
+
+    expect(showSteps.card.body[0].text).toBe(
+      '1. **Naked Single**: Place 4 in R1C3.\n\n' +
+        '2. **Hidden Single**: Place 6 in R1C4.\n\n' +
+        '3. **Naked Single**: Place 8 in R1C5.'
+    );
+  });
+
+  it('offers a replay from the first step', () => {
+    const card = createSolveSummaryCard(log);
+    const replay = card.content.actions.find((a: { title: string }) => a.title === 'Replay');
+
+    expect(replay.data).toEqual({ action: 'replay_solve', step: 0 });
+  });
+
+  it('says when the solve stopped early', () => {
+    const card = createSolveSummaryCard({ entries: [], solved: false, user });
+    const titles = card.content.actions.map((a: { title: string }) => a.title);
+
+    expect(card.content.body[0].text).toBe('**Solve Stopped**');
+    expect(titles).toEqual(['New Puzzle']);
+  });
+
+  it('offers to carry on when the solve ran out of time', () => {
+    const card = createSolveSummaryCard({
+      entries: log.entries,
+      solved: false,
+      stopReason: 'time-limit',
+      user,
+    });
+
+    expect(card.content.body[0].text).toBe('**Solve Stopped**');
+    expect(card.content.body[1].text).toBe(
+      "I stopped after 3 hints to keep things moving. The board shows how far I got; send 'solve' to carry on from here."
+    );
+  });
+
+  it('points to check when wrong entries stopped the solve', () => {
+    const card = createSolveSummaryCard({ ...log, solved: false, stopReason: 'mistakes' });
+
+    expect(card.content.body[1].text).toContain("Send 'check' to see them");
+  });
+
+  it('lists only the first steps of a long solve', () => {
+    const entries = Array.from({ length: 120 }, (_, i) => ({
+      technique: 'Naked Single',
+      level: 1,
+      text: `Step ${i + 1}.`,
+      user,
+    }));
+    const card = createSolveSummaryCard({ entries, solved: true, user });
+    const showSteps = card.content.actions[0];
+    const lines = showSteps.card.body[0].text.split('\n\n');
+
+    expect(showSteps.title).toBe('Show First 50 Steps');
+    expect(lines).toHaveLength(51);
+    expect(lines[49]).toBe('50. **Naked Single**: Step 50.');
+    expect(lines[50]).toBe('…and 70 more steps. Use Replay to go through them all.');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Solve Summary Card - Techniques used to solve a puzzle to the end
+ */
+
+import { CardFactory, type Attachment } from 'botbuilder';
+import { countTechniques, type SolveLog } from '../services/solveRunner.js';
+
+/** Most steps listed behind "Show All Steps"; Replay goes through the rest */
+const MAX_LISTED_STEPS = 50;
+
+/**
+ * Explain why a solve stopped before the end
+ * @param hintCount - How many hints were applied (e.g. "12 hints")
+ */
+function describeStop(log: SolveLog, hintCount: string): string {
+  switch (log.stopReason) {
+    case 'mistakes':
+      return `I got stuck after ${hintCount} because some of your entries don't match the solution. Send 'check' to see them, or 'clear mistakes' to remove them.`;
+    case 'time-limit':
+    case 'step-limit':
+      return `I stopped after ${hintCount} to keep things moving. The board shows how far I got; send 'solve' to carry on from here.`;
+    default:
+      return `I couldn't find another hint after ${hintCount}. The board shows how far I got.`;
+  }
+}
+
+/**
+ * Create an Adaptive Card summarizing a solve: the techniques used with counts and levels,
+ * and the steps in order behind a "Show All Steps" toggle (the first MAX_LISTED_STEPS of a
+ * long solve). The Replay action submits
+ * `replay_solve` with step 0.
+ * @param log - The solve to summarize
+ * @param boardImageUrl - Optional rendered board at the end of the solve (data URL)
+ * @returns Bot Framework Attachment containing the solve summary Adaptive Card
+ */
+export function createSolveSummaryCard(log: SolveLog, boardImageUrl?: string): Attachment {
+  const hintCount = `${log.entries.length} ${log.entries.length === 1 ? 'hint' : 'hints'}`;
+
+  const body: unknown[] = [
+    {
+      type: 'TextBlock',
+      text: log.solved ? '🎉 **Puzzle Solved**' : '**Solve Stopped**',
+      weight: 'Bolder',
+      size: 'Large',
+      color: log.solved ? 'Good' : 'Warning',
+      wrap: true,
+    },
+    {
+      type: 'TextBlock',
+      text: log.solved ? `Solved with ${hintCount}.` : describeStop(log, hintCount),
+      wrap: true,
+    },
+  ];
+
+  if (boardImageUrl) {
+    body.push({
+      type: 'Image',
+      url: boardImageUrl,
+      size: 'Large',
+      horizontalAlignment: 'Center',
+    });
+  }
+
+  if (log.entries.length > 0) {
+    body.push(
+      {
+        type: 'TextBlock',
+        text: 'Techniques used:',
+        weight: 'Bolder',
+        spacing: 'Medium',
+        wrap: true,
+      },
+      {
+        type: 'FactSet',
+        facts: countTechniques(log.entries).map(count => ({
+          title: `${count.technique} (Level ${count.level})`,
+          value: `×${count.count}`,
+        })),
+      }
+    );
+  }
+
+  const steps = log.entries
+    .slice(0, MAX_LISTED_STEPS)
+    .map((entry, index) => `${index + 1}. **${entry.technique}**: ${entry.text}`);
+  const unlisted = log.entries.length - steps.length;
+  if (unlisted > 0) {
+    steps.push(
+      `…and ${unlisted} more ${unlisted === 1 ? 'step' : 'steps'}. Use Replay to go through them all.`
+    );
+  }
+
+  const card = {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.5',
+    body,
+    actions: [
+      ...(log.entries.length > 0
+        ? [
+            {
+              type: 'Action.ShowCard',
+              title: unlisted > 0 ? `Show First ${MAX_LISTED_STEPS} Steps` : 'Show All Steps',
+              card: {
+                type: 'AdaptiveCard',
+                body: [{ type: 'TextBlock', text: steps.join('\n\n'), wrap: true }],
+              },
+            },
+            {
+              type: 'Action.Submit',
+              title: 'Replay',
+              data: { action: 'replay_solve', step: 0 },
+            },
+          ]
+        : []),
+      {
+        type: 'Action.Submit',
+        title: 'New Puzzle',
+        data: { action: 'new_puzzle' },
+      },
+    ],
+  };
+
+  return CardFactory.adaptiveCard(card);
+}
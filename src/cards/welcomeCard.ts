@@ -37,7 +37,7 @@ export function createWelcomeCard(): Attachment {
       },
       {
         type: 'TextBlock',
-        text: '1. Upload a photo of your Sudoku puzzle\n2. Confirm the recognized puzzle is correct\n3. Ask for hints to solve it step by step',
+        text: '1. Upload a photo or puzzle file of your Sudoku puzzle, or paste it as 81 digits (0 or . for blanks)\n2. Confirm the recognized puzzle is correct\n3. Ask for hints to solve it step by step',
         wrap: true,
       },
       {
@@ -53,6 +53,10 @@ export function createWelcomeCard(): Attachment {
           { title: 'hint', value: 'Get the next hint' },
           { title: 'apply', value: 'Apply the current hint' },
           { title: 'new', value: 'Start with a new puzzle' },
+          {
+            title: 'settings autopencil on',
+            value: "Hints assume every candidate is filled in ('off' to use your own notes)",
+          },
           { title: 'help', value: 'Show this help message' },
         ],
       },
@@ -63,6 +67,11 @@ export function createWelcomeCard(): Attachment {
         title: 'Upload Puzzle',
         data: { action: 'upload' },
       },
+      {
+        type: 'Action.Submit',
+        title: 'Type Puzzle',
+        data: { action: 'enter_puzzle' },
+      },
     ],
   };
 
@@ -96,17 +105,32 @@ export function createHelpCard(): Attachment {
       {
         type: 'FactSet',
         facts: [
-          { title: 'hint', value: 'Get the next solving hint' },
+          { title: 'hint', value: 'Get the next solving hint, starting with the technique' },
+          { title: 'more', value: 'Reveal more of the hint: where to look, the cells, the answer' },
           { title: 'next', value: 'Show the next step in current hint' },
           { title: 'apply', value: 'Apply the hint to your puzzle' },
+          { title: 'solve', value: 'Solve to the end and list every technique used' },
+          { title: 'replay', value: 'Step through the last solve' },
+          { title: 'check', value: "Count entries that don't match the solution" },
+          { title: 'show mistakes', value: 'Highlight the wrong entries in red' },
+          { title: 'clear mistakes', value: 'Remove the wrong entries' },
           { title: 'new', value: 'Start with a new puzzle' },
           { title: 'status', value: 'Show current puzzle status' },
+          { title: 'cancel', value: 'Stop reading a photo you just sent' },
+          { title: 'enter', value: 'Type a puzzle into an editable grid' },
+          { title: 'edit', value: 'Correct the unconfirmed puzzle in an editable grid' },
+          { title: 'r3c5=7', value: 'Correct a cell before confirming the puzzle' },
+          { title: 'r3c5 given', value: "Treat a digit as a clue ('r3c5 mine' for your entry)" },
+          {
+            title: 'settings autopencil on',
+            value: "Hints assume every candidate is filled in ('off' to use your own notes)",
+          },
           { title: 'help', value: 'Show this help message' },
         ],
       },
       {
         type: 'TextBlock',
-        text: 'You can also upload a new puzzle image at any time.',
+        text: 'You can also upload a new puzzle image, send a puzzle file (.sdk, .ss, .sdm, .opensudoku, .json), or paste an 81-character puzzle at any time.',
         wrap: true,
         spacing: 'Medium',
       },
@@ -12,7 +12,7 @@ import {
 import { SolverService } from '../services/solverService.js';
 import { createHintStepCard, createHintAppliedCard, createNoHintCard } from '../cards/hintCard.js';
 import type { PuzzleState, HintState } from '../state/conversationState.js';
-import type { SolverHints } from '@sudobility/sudojo_types';
+import type { SolverBoard, SolverHints } from '@sudobility/sudojo_types';
 import { getTechniqueNameById } from '@sudobility/sudojo_types';
 
 export const HINT_DIALOG = 'hintDialog';
@@ -21,6 +21,8 @@ export interface HintDialogOptions {
   puzzle: PuzzleState;
   existingHint?: HintState;
   action: 'get_hint' | 'next_step' | 'apply_hint';
+  /** Whether hints assume every candidate is filled in (the user's autopencil setting) */
+  autoPencilmarks?: boolean;
 }
 
 export interface HintDialogResult {
@@ -94,7 +96,13 @@ export class HintDialog extends ComponentDialog {
 
       await stepContext.context.sendActivity('Analyzing puzzle...');
 
-      const result = await this.solverService.solve(puzzle.original, puzzle.user);
+      const { autoPencilmarks } = stepContext.options as HintDialogOptions;
+      const result = await this.solverService.solve(
+        puzzle.original,
+        puzzle.user,
+        puzzle.pencilmarks,
+        autoPencilmarks
+      );
 
       if (!result.hints || result.hints.steps.length === 0) {
         const card = createNoHintCard(
@@ -108,7 +116,7 @@ export class HintDialog extends ComponentDialog {
         } as HintDialogResult);
       }
 
-      const hint = this.createHintState(result.hints);
+      const hint = this.createHintState(result.hints, result.board, puzzle.user);
       const card = this.createHintCard(puzzle, hint);
       await stepContext.context.sendActivity({ attachments: [card] });
 
@@ -188,11 +196,21 @@ export class HintDialog extends ComponentDialog {
     }
 
     try {
-      // Get fresh solve to apply
-      const result = await this.solverService.solve(puzzle.original, puzzle.user);
+      // Reuse the board from the hint unless the puzzle changed since
+      const board =
+        existingHint.board && existingHint.user === puzzle.user
+          ? existingHint.board
+          : (
+              await this.solverService.solve(
+                puzzle.original,
+                puzzle.user,
+                puzzle.pencilmarks,
+                (stepContext.options as HintDialogOptions).autoPencilmarks
+              )
+            ).board;
 
       // Apply the hint
-      const updatedUser = this.solverService.applyHint(puzzle.user, result.board);
+      const updatedUser = this.solverService.applyHint(puzzle.user, board);
 
       const updatedPuzzle: PuzzleState = {
         ...puzzle,
@@ -223,12 +241,14 @@ export class HintDialog extends ComponentDialog {
   /**
    * Create hint state from solver hints
    */
-  private createHintState(hints: SolverHints): HintState {
+  private createHintState(hints: SolverHints, board: SolverBoard, user: string): HintState {
     return {
       steps: hints.steps,
       currentStepIndex: 0,
       technique: getTechniqueNameById(hints.technique),
       level: hints.level,
+      board,
+      user,
     };
   }
 
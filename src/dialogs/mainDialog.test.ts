@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  ActivityTypes,
+  ConversationState,
+  MemoryStorage,
+  TestAdapter,
+  UserState,
+  type Activity,
+} from 'botbuilder';
+import { SudokuHintBot } from '../bot.js';
+import { MainDialog, type MainDialogOptions } from './mainDialog.js';
+import { FakeSolverServer } from '../services/fakeSolverServer.js';
+import { FixtureOcrEngine } from '../services/fixtureOcrEngine.js';
+import { SolverService } from '../services/solverService.js';
+
+const original =
+  '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+const solution =
+  '534678912672195348198342567859761423426853791713924856961537284287419635345286179';
+/** The same puzzle with 1 and 2 swapped, so it is different but just as solvable */
+const otherPuzzle = original.replace(/[12]/g, digit => (digit === '1' ? '2' : '1'));
+
+/**
+ * Drives the bot turn by turn, with its state in memory and the solver API served by a
+ * fake solver server
+ */
+function createBot(solverUrl: string, options: MainDialogOptions = {}) {
+  const storage = new MemoryStorage();
+  const solverService = new SolverService(solverUrl, { localFallback: false, retries: 0 });
+  const dialog = new MainDialog(new FixtureOcrEngine(), solverService, options);
+  const bot = new SudokuHintBot(new ConversationState(storage), new UserState(storage), dialog);
+  const adapter = new TestAdapter(context => bot.run(context));
+
+  /** Send one message or card action and return the bot's replies to it */
+  async function say(activity: string | Partial<Activity>): Promise<Partial<Activity>[]> {
+    await adapter.processActivity(activity);
+    return adapter.activeQueue.splice(0);
+  }
+
+  /** Load a puzzle by pasting it and confirm it */
+  async function start(puzzle: string = original): Promise<void> {
+    await say(puzzle);
+    await say({ value: { action: 'confirm_puzzle' } });
+  }
+
+  return { say, start };
+}
+
+/**
+ * Every text the user sees in the replies: message text and card text blocks
+ */
+function textOf(replies: Partial<Activity>[]): string[] {
+  const texts: string[] = [];
+  const visit = (element: { type?: string; text?: string; body?: unknown[] }) => {
+    if (element.type === 'TextBlock' && element.text) texts.push(element.text);
+    for (const child of element.body ?? []) visit(child as typeof element);
+  };
+  for (const reply of replies) {
+    if (reply.text) texts.push(reply.text);
+    for (const attachment of reply.attachments ?? []) visit(attachment.content);
+  }
+  return texts;
+}
+
+/**
+ * A puzzle file attachment holding the puzzle with the given user entries
+ */
+function puzzleFile(user: string): Partial<Activity> {
+  const json = JSON.stringify({ original, user });
+  return {
+    attachments: [
+      {
+        contentType: 'application/json',
+        name: 'puzzle.json',
+        contentUrl: `data:application/json;base64,${Buffer.from(json).toString('base64')}`,
+      },
+    ],
+  };
+}
+
+describe('MainDialog', () => {
+  let server: FakeSolverServer;
+  let solverUrl: string;
+
+  beforeEach(async () => {
+    server = new FakeSolverServer({ delayMs: 20 });
+    solverUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('solve', () => {
+    it('solves a confirmed puzzle to the end and replays it', async () => {
+      const { say, start } = createBot(solverUrl);
+      await start();
+
+      const solved = await say('solve');
+      expect(textOf(solved)).toContain('🎉 **Puzzle Solved**');
+
+      const firstStep = textOf(await say('replay'));
+      const steps = firstStep.find(text => text.startsWith('Step 1 of '));
+      expect(steps).toBeDefined();
+
+      const secondStep = await say({ value: { action: 'replay_solve', step: 1 } });
+      expect(textOf(secondStep)).toContain(steps!.replace('Step 1', 'Step 2'));
+
+      expect(textOf(await say('status'))).toContain('**Progress: 100%** (81/81 cells)');
+    });
+
+    it('stops a long solve with the steps so far and carries on from there', async () => {
+      server.mode = 'slow';
+      const { say, start } = createBot(solverUrl, { solveTimeMs: 150 });
+      await start();
+
+      const replies = await say('solve');
+
+      expect(replies.some(reply => reply.type === ActivityTypes.Typing)).toBe(true);
+      expect(textOf(replies)).toContain('**Solve Stopped**');
+      expect(textOf(replies).some(text => text.includes("send 'solve' to carry on"))).toBe(true);
+
+      const progress = textOf(await say('status'))[0]!;
+      const filled = Number(progress.match(/\((\d+)\/81 cells\)/)![1]);
+      expect(filled).toBeGreaterThan(30);
+      expect(filled).toBeLessThan(81);
+    });
+
+    it('asks for a confirmed puzzle first', async () => {
+      const { say } = createBot(solverUrl);
+      await say(original);
+
+      const replies = await say('solve');
+
+      expect(textOf(replies)).toContain('Is this correct?');
+      expect(textOf(replies)).not.toContain('🎉 **Puzzle Solved**');
+    });
+  });
+
+  describe('loading a new puzzle', () => {
+    it("forgets the previous puzzle's solve and hints", async () => {
+      const { say, start } = createBot(solverUrl);
+      await start();
+      await say('hint');
+      await say('apply');
+      expect(textOf(await say('status')).some(text => text.startsWith('Hints applied: 1'))).toBe(
+        true
+      );
+      await say('solve');
+
+      await start(otherPuzzle);
+
+      expect(textOf(await say('replay'))).toEqual([
+        "There's no solve to replay. Send 'solve' to solve your puzzle.",
+      ]);
+      expect(textOf(await say('status')).some(text => text.startsWith('Hints applied'))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('check', () => {
+    const wrong = solution[2] === '1' ? '2' : '1';
+    const user = '00' + wrong + '0'.repeat(78);
+
+    it('counts, clears and rechecks wrong entries', async () => {
+      const { say } = createBot(solverUrl);
+      await say(puzzleFile(user));
+      await say({ value: { action: 'confirm_puzzle' } });
+
+      expect(textOf(await say('check'))).toContain("1 of your 1 entry doesn't match the solution.");
+      expect(textOf(await say('clear mistakes'))).toContain('Cleared 1 wrong entry.');
+      expect(textOf(await say('check'))).toContain("You haven't filled in any cells yet.");
+    });
+
+    it('shows the wrong entries when asked', async () => {
+      const { say } = createBot(solverUrl);
+      await say(puzzleFile(user));
+      await say({ value: { action: 'confirm_puzzle' } });
+
+      const replies = await say('show mistakes');
+
+      expect(textOf(replies)).toContain('Wrong entries are highlighted in red.');
+    });
+  });
+
+  describe('editing an unconfirmed puzzle', () => {
+    it('applies cell edits before the puzzle is confirmed', async () => {
+      const { say } = createBot(solverUrl);
+      await say(original);
+
+      const replies = await say(`r1c3=${solution[2]}`);
+
+      expect(textOf(replies)[0]).toMatch(/^Updated .+\. The puzzle now has a unique solution\.$/);
+      await say({ value: { action: 'confirm_puzzle' } });
+      expect(textOf(await say('status'))).toContain('**Progress: 38%** (31/81 cells)');
+    });
+
+    it('leaves cell edits alone once the puzzle is confirmed', async () => {
+      const { say, start } = createBot(solverUrl);
+      await start();
+
+      await say(`r1c3=${solution[2]}`);
+
+      expect(textOf(await say('status'))).toContain('**Progress: 37%** (30/81 cells)');
+    });
+  });
+
+  describe('settings', () => {
+    it('keeps the automatic pencilmarks setting across turns', async () => {
+      const { say } = createBot(solverUrl);
+
+      expect(textOf(await say('settings'))[0]).toStartWith('Automatic pencilmarks are off.');
+      await say('settings autopencil on');
+      expect(textOf(await say('settings'))[0]).toStartWith('Automatic pencilmarks are on.');
+    });
+
+    it('rejects unknown settings', async () => {
+      const { say } = createBot(solverUrl);
+
+      expect(textOf(await say('settings colour blue'))).toEqual([
+        "I don't know that setting. Try 'settings autopencil on' or 'settings autopencil off'.",
+      ]);
+    });
+  });
+});
@@ -12,44 +12,147 @@ import {
   DialogTurnStatus,
 } from 'botbuilder-dialogs';
 import {
+  type Attachment,
   type StatePropertyAccessor,
   type TurnContext,
+  ActivityTypes,
   CardFactory,
   MessageFactory,
 } from 'botbuilder';
-import { OCRService } from '../services/ocrService.js';
-import { SolverService } from '../services/solverService.js';
+import type { OCRExtractResult, OcrEngine, OcrProgress } from '../services/ocrEngine.js';
+import { JobCancelledError, JobTimeoutError, QueueFullError } from '../services/workerPool.js';
+import { OcrProgressReporter } from '../services/ocrProgressReporter.js';
+import { scaleImage } from '../services/gridRectifier.js';
+import { SolverService, SolverUnavailableError } from '../services/solverService.js';
 import { BoardRenderer } from '../services/boardRenderer.js';
+import {
+  describeHintLevel,
+  hintLevelStep,
+  nextHintLevel,
+  summarizeHintLevels,
+} from '../services/hintLevels.js';
 import type { SolverHintStep } from '@sudobility/sudojo_types';
 import { PuzzleUploadDialog } from './puzzleUploadDialog.js';
 import { HintDialog } from './hintDialog.js';
 import { createWelcomeCard, createHelpCard } from '../cards/welcomeCard.js';
 import { createPuzzleCard } from '../cards/puzzleCard.js';
-import type { SudokuConversationData } from '../state/conversationState.js';
+import {
+  createEmptyUserData,
+  type SudokuConversationData,
+  type SudokuUserData,
+  type PuzzleState,
+  type PendingPuzzle,
+  type HintState,
+} from '../state/conversationState.js';
 import { ImageService } from '../services/imageService.js';
+import { findSuspiciousCells, markCellsVerified } from '../services/ocrConfidence.js';
+import { PuzzleFileService } from '../services/puzzleFileService.js';
+import {
+  matchesPuzzle,
+  syncProgress,
+  mergeBoard,
+  describeProgressSync,
+} from '../services/progressSync.js';
+import { parsePuzzleText } from '../parsers/textParser.js';
+import {
+  parseCellEdits,
+  parseCellOwnership,
+  applyCellEdits,
+  describeCellEdit,
+  type CellEdit,
+  type CellOwnershipChange,
+} from '../parsers/cellEditParser.js';
+import type { ParsedPuzzle } from '../parsers/puzzleFileParser.js';
+import { createPuzzleListCard } from '../cards/puzzleListCard.js';
+import { createGridInputCard, readGridInput } from '../cards/gridInputCard.js';
+import { createSolveSummaryCard } from '../cards/solveSummaryCard.js';
+import { createCheckCard } from '../cards/checkCard.js';
+import { checkBoard, clearCells, mistakeHighlight } from '../services/boardCheck.js';
+import { MAX_SOLVE_TIME_MS, replayHighlight, solveToEnd } from '../services/solveRunner.js';
 
 export const MAIN_DIALOG = 'mainDialog';
 const MAIN_WATERFALL = 'mainWaterfall';
 
+/** Where a puzzle came from, used to tailor retry messages */
+type PuzzleSource = 'image' | 'text' | 'file' | 'grid';
+
+/** One puzzle read from a message's photos */
+interface PhotoReading {
+  /** Which photo and grid it came from (e.g. "Photo 2, grid 1"), empty for a lone puzzle */
+  name: string;
+  result: OCRExtractResult;
+}
+
+const RETRY_HINTS: Record<PuzzleSource, string> = {
+  image: 'Please try a clearer image.',
+  text: 'Please check the puzzle text and try again.',
+  file: 'Please check the file and try again.',
+  grid: 'Please check the grid and try again.',
+};
+
+/** Maximum number of puzzles from one file kept for the user to choose from */
+const MAX_PENDING_PUZZLES = 100;
+
+/** Most photos read from one message */
+const MAX_IMAGES_PER_MESSAGE = 6;
+
+/** Above this many corrections, summarize them as a count */
+const MAX_LISTED_EDITS = 5;
+
+/** Longest side of the OCR'd photo shown next to the reading (px) */
+const PHOTO_PREVIEW_SIZE = 400;
+
+/** Most conversations whose puzzle chooser previews are kept in memory */
+const MAX_CHOOSER_PREVIEWS = 100;
+
+/** Most finished hints remembered per conversation */
+const MAX_HINT_HISTORY = 100;
+
+/** Least time between typing indicators while a solve runs (ms) */
+const SOLVE_TYPING_INTERVAL_MS = 2000;
+
+/** Turn state key for the user's profile, read by handlers that depend on their settings */
+const USER_DATA_KEY = Symbol('SudokuUserData');
+
+/** Sent instead of a generic apology when the solver API is down and not covered locally */
+const SOLVER_UNAVAILABLE_MESSAGE =
+  "The solver is unavailable right now, so I can't check your puzzle or give hints. Please try again in a few minutes.";
+
+export interface MainDialogOptions {
+  /** Time one `solve` command may spend before it stops with a partial solve (ms, default: 10000) */
+  solveTimeMs?: number;
+}
+
 /**
  * Root dialog that orchestrates the Sudoku Hint Bot conversation flow.
  * Handles image uploads, text commands, Adaptive Card actions, hint navigation,
- * and board rendering. Manages OCRService, SolverService, and BoardRenderer.
+ * and board rendering. Manages the OCR engine, SolverService, and BoardRenderer.
  */
 export class MainDialog extends ComponentDialog {
-  private ocrService: OCRService;
+  private ocrEngine: OcrEngine;
   private solverService: SolverService;
   private boardRenderer: BoardRenderer;
+  private puzzleFileService: PuzzleFileService;
+  /** Image reads in progress, by conversation id, so they can be cancelled */
+  private pendingOcr = new Map<string, AbortController>();
+  /**
+   * Photo previews of the puzzles offered in a chooser, by conversation id and puzzle, so
+   * the picked one is shown with its reading. Kept in memory only, never in saved state.
+   */
+  private chooserPreviews = new Map<string, Map<string, string>>();
+  private solveTimeMs: number;
 
-  constructor(ocrService: OCRService, solverService: SolverService) {
+  constructor(ocrEngine: OcrEngine, solverService: SolverService, options: MainDialogOptions = {}) {
     super(MAIN_DIALOG);
 
-    this.ocrService = ocrService;
+    this.ocrEngine = ocrEngine;
     this.solverService = solverService;
+    this.solveTimeMs = options.solveTimeMs ?? MAX_SOLVE_TIME_MS;
     this.boardRenderer = new BoardRenderer(450);
+    this.puzzleFileService = new PuzzleFileService();
 
     // Add child dialogs
-    this.addDialog(new PuzzleUploadDialog(ocrService, solverService));
+    this.addDialog(new PuzzleUploadDialog(ocrEngine, solverService));
     this.addDialog(new HintDialog(solverService));
 
     // Add main waterfall
@@ -80,16 +183,24 @@ export class MainDialog extends ComponentDialog {
 
   /**
    * Handle incoming messages outside of dialogs
+   * @param userData - The user's profile; settings commands update it in place
    */
   async onMessageActivity(
     context: TurnContext,
-    conversationData: SudokuConversationData
+    conversationData: SudokuConversationData,
+    userData: SudokuUserData = createEmptyUserData()
   ): Promise<SudokuConversationData> {
-    const text = (context.activity.text || '').toLowerCase().trim();
+    context.turnState.set(USER_DATA_KEY, userData);
+
+    const rawText = context.activity.text || '';
+    const text = rawText.toLowerCase().trim();
     const hasAttachment = (context.activity.attachments?.length || 0) > 0;
 
-    // Check for image upload
+    // Check for puzzle file or image upload
     if (hasAttachment) {
+      if (this.puzzleFileService.getFirstPuzzleFileAttachment(context)) {
+        return this.handlePuzzleFileUpload(context, conversationData);
+      }
       return this.handleImageUpload(context, conversationData);
     }
 
@@ -100,6 +211,10 @@ export class MainDialog extends ComponentDialog {
     }
 
     // Handle text commands
+    if (text === 'cancel' || text === 'stop') {
+      return this.handleCancelOcr(context, conversationData);
+    }
+
     if (text === 'help' || text === '?') {
       await context.sendActivity({ attachments: [createHelpCard()] });
       return conversationData;
@@ -117,6 +232,30 @@ export class MainDialog extends ComponentDialog {
       return this.handleNextStep(context, conversationData);
     }
 
+    if (text === 'more' || text === 'more help') {
+      return this.handleMoreHelp(context, conversationData);
+    }
+
+    if (text === 'solve' || text === 'solve all' || text === 'solve puzzle') {
+      return this.handleSolveToEnd(context, conversationData);
+    }
+
+    if (text === 'replay') {
+      return this.handleReplaySolve(context, conversationData, 0);
+    }
+
+    if (text === 'check' || text === 'check board') {
+      return this.handleCheckBoard(context, conversationData, false);
+    }
+
+    if (text === 'show mistakes') {
+      return this.handleCheckBoard(context, conversationData, true);
+    }
+
+    if (text === 'clear mistakes') {
+      return this.handleClearMistakes(context, conversationData);
+    }
+
     if (text === 'apply' || text === 'apply hint') {
       return this.handleApplyHint(context, conversationData);
     }
@@ -125,6 +264,42 @@ export class MainDialog extends ComponentDialog {
       return this.handleShowProgress(context, conversationData);
     }
 
+    if (text === 'enter' || text === 'enter puzzle' || text === 'type puzzle') {
+      return this.handleShowGridInput(context, conversationData, false);
+    }
+
+    if (text === 'edit' || text === 'edit puzzle' || text === 'edit grid') {
+      return this.handleShowGridInput(context, conversationData, true);
+    }
+
+    const settings = text.match(/^settings?(?:\s+(.*))?$/);
+    if (settings) {
+      return this.handleSettings(context, conversationData, settings[1] ?? '');
+    }
+
+    // Check for corrections to an unconfirmed puzzle
+    if (conversationData.currentPuzzle && !conversationData.puzzleConfirmed) {
+      if (text === 'all given' || text === 'all clues') {
+        return this.handleMergeEntries(context, conversationData);
+      }
+
+      const edits = parseCellEdits(rawText);
+      if (edits) {
+        return this.handleEditPuzzle(context, conversationData, edits);
+      }
+
+      const changes = parseCellOwnership(rawText);
+      if (changes) {
+        return this.handleReassignCells(context, conversationData, changes);
+      }
+    }
+
+    // Check for a puzzle pasted as text
+    const textPuzzle = parsePuzzleText(rawText);
+    if (textPuzzle) {
+      return this.handleTextPuzzle(context, conversationData, textPuzzle);
+    }
+
     // Default: show welcome or hint based on state
     if (!conversationData.currentPuzzle) {
       await context.sendActivity({ attachments: [createWelcomeCard()] });
@@ -144,247 +319,982 @@ export class MainDialog extends ComponentDialog {
     context: TurnContext,
     conversationData: SudokuConversationData
   ): Promise<SudokuConversationData> {
-    // Process image through OCR
+    // Process images through OCR
     const service = new ImageService();
-    const attachment = service.getFirstImageAttachment(context);
+    const attachments = service.getImageAttachments(context).slice(0, MAX_IMAGES_PER_MESSAGE);
 
-    if (!attachment) {
+    if (attachments.length === 0) {
       await context.sendActivity('Please upload an image of your Sudoku puzzle.');
       return conversationData;
     }
 
-    await context.sendActivity('Processing your puzzle image...');
+    const reporter = new OcrProgressReporter(context);
+    await reporter.start();
+    let outcome = 'Could not read the photo';
+
+    // A newer photo in the same conversation replaces one still waiting to be read
+    const conversationId = context.activity.conversation.id;
+    this.pendingOcr.get(conversationId)?.abort();
+    const controller = new AbortController();
+    this.pendingOcr.set(conversationId, controller);
 
     try {
-      const imageBuffer = await service.downloadAttachment(context, attachment);
-      const ocrResult = await this.ocrService.extractPuzzle(imageBuffer);
+      const readings = await this.readPhotos(
+        context,
+        service,
+        attachments,
+        reporter,
+        controller.signal
+      );
+      reporter.stage('Validating with solver', true);
 
-      const validation = this.ocrService.validatePuzzle(ocrResult.puzzle);
-      if (!validation.valid) {
-        await context.sendActivity(
-          `I couldn't extract a valid puzzle: ${validation.error}. Please try a clearer image.`
+      if (readings.length > 1) {
+        outcome = `Found ${readings.length} puzzles`;
+        return await this.offerPuzzles(
+          context,
+          conversationData,
+          readings,
+          attachments.length > 1 ? `${attachments.length} photos` : 'Your photo'
         );
-        return conversationData;
       }
 
-      const solverValidation = await this.solverService.validate(ocrResult.puzzle);
-      if (!solverValidation.valid) {
+      const ocrResult = readings[0]!.result;
+      outcome = `Read ${ocrResult.digitCount} digits`;
+
+      const disagreements = ocrResult.disagreements ?? [];
+      if (disagreements.length > 0) {
         await context.sendActivity(
-          "This puzzle doesn't appear to have a unique solution. Please check the image and try again."
+          `My two readings of this photo differ in ${disagreements.length} ${disagreements.length === 1 ? 'cell' : 'cells'}, so please check the highlighted ones.`
         );
-        return conversationData;
       }
 
-      const puzzleState = {
-        original: ocrResult.puzzle,
-        user: '0'.repeat(81),
-        solution: solverValidation.solution,
-        confidence: ocrResult.confidence,
-      };
-
-      const card = createPuzzleCard(puzzleState, true);
-      await context.sendActivity({ attachments: [card] });
+      // A new photo of the puzzle being solved updates progress instead of starting over
+      const currentPuzzle = conversationData.currentPuzzle;
+      const board = mergeBoard(ocrResult.puzzle, ocrResult.user);
+      if (
+        currentPuzzle &&
+        conversationData.puzzleConfirmed &&
+        matchesPuzzle(currentPuzzle.original, board)
+      ) {
+        return await this.handleSyncProgress(
+          context,
+          conversationData,
+          board,
+          ocrResult.pencilmarks
+        );
+      }
 
-      return {
-        ...conversationData,
-        currentPuzzle: puzzleState,
-        currentHint: null,
-        puzzleConfirmed: false,
-      };
+      return await this.loadPuzzle(
+        context,
+        conversationData,
+        {
+          original: ocrResult.puzzle,
+          user: ocrResult.user ?? '0'.repeat(81),
+          pencilmarks: ocrResult.pencilmarks,
+        },
+        {
+          confidence: ocrResult.confidence,
+          cellConfidence: ocrResult.cellConfidence,
+          alternatives: ocrResult.alternatives,
+        },
+        'image',
+        ocrResult.boardImage && (await this.createPhotoPreview(ocrResult.boardImage))
+      );
     } catch (error) {
+      if (error instanceof JobCancelledError) {
+        outcome = 'Cancelled';
+        return conversationData;
+      }
+      if (error instanceof QueueFullError) {
+        await context.sendActivity(
+          "I'm reading a lot of puzzles right now. Please send your photo again in a minute."
+        );
+        return conversationData;
+      }
+      if (error instanceof JobTimeoutError) {
+        await context.sendActivity(
+          'Reading that image took too long. Please try a smaller or clearer photo.'
+        );
+        return conversationData;
+      }
       console.error('Error processing image:', error);
-      await context.sendActivity('Sorry, I had trouble processing that image. Please try again.');
+      await this.sendFailure(
+        context,
+        error,
+        'Sorry, I had trouble processing that image. Please try again.'
+      );
       return conversationData;
+    } finally {
+      if (this.pendingOcr.get(conversationId) === controller) {
+        this.pendingOcr.delete(conversationId);
+      }
+      await reporter.finish(outcome);
     }
   }
 
   /**
-   * Handle Adaptive Card action
+   * Read every puzzle in the attached photos. With several photos, one that can't be read
+   * is skipped as long as another one can.
+   * @returns At least one reading, each named after the photo and grid it came from
+   * @throws The error from reading the first photo, when no photo could be read
    */
-  private async handleCardAction(
+  private async readPhotos(
     context: TurnContext,
-    conversationData: SudokuConversationData,
-    action: string
-  ): Promise<SudokuConversationData> {
-    switch (action) {
-      case 'confirm_puzzle':
-        return this.handleConfirmPuzzle(context, conversationData);
-      case 'reject_puzzle':
-        return this.handleNewPuzzle(context, conversationData);
-      case 'get_hint':
-        return this.handleGetHint(context, conversationData);
-      case 'next_step':
-        return this.handleNextStep(context, conversationData);
-      case 'previous_step':
-        return this.handlePreviousStep(context, conversationData);
-      case 'apply_hint':
-        return this.handleApplyHint(context, conversationData);
-      case 'new_puzzle':
-        return this.handleNewPuzzle(context, conversationData);
-      case 'show_progress':
-        return this.handleShowProgress(context, conversationData);
-      case 'upload':
-        await context.sendActivity('Please upload a photo of your Sudoku puzzle.');
-        return conversationData;
-      default:
-        return conversationData;
+    service: ImageService,
+    attachments: Attachment[],
+    reporter: OcrProgressReporter,
+    signal: AbortSignal
+  ): Promise<PhotoReading[]> {
+    const readings: PhotoReading[] = [];
+    const job = { signal, onQueued: (position: number) => reporter.queued(position) };
+    const onProgress = (progress: OcrProgress) => reporter.progress(progress);
+    let firstError: unknown;
+
+    for (const [photoIndex, attachment] of attachments.entries()) {
+      reporter.stage(
+        attachments.length > 1
+          ? `Reading photo ${photoIndex + 1} of ${attachments.length}`
+          : 'Detecting grid',
+        true
+      );
+
+      try {
+        const imageBuffer = await service.downloadAttachment(context, attachment);
+        const results = this.ocrEngine.extractPuzzles
+          ? await this.ocrEngine.extractPuzzles(imageBuffer, onProgress, job)
+          : [await this.ocrEngine.extractPuzzle(imageBuffer, onProgress, job)];
+
+        results.forEach((result, gridIndex) => {
+          const names = [
+            ...(attachments.length > 1 ? [`Photo ${photoIndex + 1}`] : []),
+            ...(results.length > 1 ? [`grid ${gridIndex + 1}`] : []),
+          ];
+          const name = names.join(', ');
+          readings.push({ name: name.charAt(0).toUpperCase() + name.slice(1), result });
+        });
+      } catch (error) {
+        if (attachments.length === 1 || error instanceof JobCancelledError) {
+          throw error;
+        }
+        console.error(`Error reading photo ${photoIndex + 1}:`, error);
+        firstError ??= error;
+      }
     }
+
+    if (readings.length === 0) {
+      throw firstError;
+    }
+    return readings;
   }
 
   /**
-   * Handle puzzle confirmation
+   * Let the user choose between several puzzles read from photos. Each is checked with the
+   * solver first, to leave out misread grids and show the others' difficulty.
    */
-  private async handleConfirmPuzzle(
+  private async offerPuzzles(
     context: TurnContext,
-    conversationData: SudokuConversationData
+    conversationData: SudokuConversationData,
+    readings: PhotoReading[],
+    title: string
   ): Promise<SudokuConversationData> {
-    if (!conversationData.currentPuzzle) {
-      await context.sendActivity('No puzzle to confirm. Please upload an image.');
+    const checked = await Promise.all(
+      readings.map(async reading => ({
+        reading,
+        validation: this.ocrEngine.validatePuzzle(reading.result.puzzle).valid
+          ? await this.solverService.validate(reading.result.puzzle)
+          : { valid: false as const },
+      }))
+    );
+    const solvable = checked.filter(({ validation }) => validation.valid);
+    const unreadable = readings.length - solvable.length;
+
+    if (solvable.length === 0) {
+      await context.sendActivity(
+        `I found ${readings.length} puzzles but couldn't read any of them clearly. ${RETRY_HINTS.image}`
+      );
       return conversationData;
     }
 
-    await context.sendActivity(
-      "Great! The puzzle is confirmed. Send 'hint' to get your first hint."
+    const pendingPuzzles: PendingPuzzle[] = solvable.map(({ reading, validation }) => ({
+      name: reading.name,
+      original: reading.result.puzzle,
+      user: reading.result.user ?? '0'.repeat(81),
+      pencilmarks: reading.result.pencilmarks,
+      level: validation.level,
+      ocr: {
+        confidence: reading.result.confidence,
+        cellConfidence: reading.result.cellConfidence,
+        alternatives: reading.result.alternatives,
+      },
+    }));
+    // Previews go into the card only; saved state keeps no image bytes
+    const previews = await Promise.all(
+      solvable.map(
+        ({ reading }) =>
+          reading.result.boardImage && this.createPhotoPreview(reading.result.boardImage)
+      )
     );
 
+    if (unreadable > 0) {
+      await context.sendActivity(
+        `I couldn't read ${unreadable} of the ${readings.length} puzzles clearly, so I left ${unreadable === 1 ? 'it' : 'them'} out.`
+      );
+    }
+
+    if (pendingPuzzles.length === 1) {
+      const [puzzle] = pendingPuzzles;
+      return this.loadPuzzle(
+        context,
+        conversationData,
+        puzzle!,
+        puzzle!.ocr!,
+        'image',
+        previews[0]
+      );
+    }
+
+    await context.sendActivity({
+      attachments: [createPuzzleListCard(title, pendingPuzzles, pendingPuzzles.length, previews)],
+    });
+    this.keepChooserPreviews(context, pendingPuzzles, previews);
+
     return {
       ...conversationData,
-      puzzleConfirmed: true,
+      pendingPuzzles,
     };
   }
 
   /**
-   * Handle new puzzle request
+   * Handle cancelling an image that is still being read
    */
-  private async handleNewPuzzle(
+  private async handleCancelOcr(
     context: TurnContext,
-    _conversationData: SudokuConversationData
+    conversationData: SudokuConversationData
   ): Promise<SudokuConversationData> {
-    await context.sendActivity('Starting fresh! Please upload a photo of your new Sudoku puzzle.');
+    const conversationId = context.activity.conversation.id;
+    const controller = this.pendingOcr.get(conversationId);
 
-    return {
-      currentPuzzle: null,
-      currentHint: null,
-      puzzleConfirmed: false,
+    if (!controller) {
+      await context.sendActivity("There's no photo being read right now.");
+      return conversationData;
+    }
+
+    controller.abort();
+    this.pendingOcr.delete(conversationId);
+    await context.sendActivity('Stopped reading your photo.');
+    return conversationData;
+  }
+
+  /**
+   * Merge the progress from a new photo of the puzzle being solved
+   */
+  private async handleSyncProgress(
+    context: TurnContext,
+    conversationData: SudokuConversationData,
+    board: string,
+    pencilmarks: string | undefined
+  ): Promise<SudokuConversationData> {
+    const currentPuzzle = conversationData.currentPuzzle;
+    if (!currentPuzzle) {
+      return conversationData;
+    }
+
+    const sync = syncProgress(currentPuzzle, board);
+    const puzzleState: PuzzleState = {
+      ...currentPuzzle,
+      user: sync.user,
+      pencilmarks: pencilmarks ?? currentPuzzle.pencilmarks,
     };
+    const updatedData: SudokuConversationData = {
+      ...conversationData,
+      currentPuzzle: puzzleState,
+      // The board changed, so any hint in progress may no longer apply
+      currentHint: sync.newCells.length > 0 ? null : conversationData.currentHint,
+    };
+
+    await context.sendActivity(describeProgressSync(sync));
+
+    return this.handleShowProgress(context, updatedData, sync.mistakes);
   }
 
   /**
-   * Handle get hint request
+   * Handle a puzzle pasted as text
    */
-  private async handleGetHint(
+  private async handleTextPuzzle(
     context: TurnContext,
-    conversationData: SudokuConversationData
+    conversationData: SudokuConversationData,
+    puzzle: string
   ): Promise<SudokuConversationData> {
-    if (!conversationData.currentPuzzle) {
-      await context.sendActivity(
-        'No puzzle loaded. Please upload an image of your Sudoku puzzle first.'
+    try {
+      return await this.loadPuzzle(
+        context,
+        conversationData,
+        { original: puzzle, user: '0'.repeat(81) },
+        { confidence: 100 },
+        'text'
+      );
+    } catch (error) {
+      console.error('Error loading puzzle text:', error);
+      await this.sendFailure(
+        context,
+        error,
+        'Sorry, I had trouble loading that puzzle. Please try again.'
       );
       return conversationData;
     }
+  }
 
-    if (!conversationData.puzzleConfirmed) {
-      const card = createPuzzleCard(conversationData.currentPuzzle, true);
-      await context.sendActivity({ attachments: [card] });
+  /**
+   * Handle a puzzle file upload (.sdk, .ss, .sdm, .opensudoku, JSON)
+   */
+  private async handlePuzzleFileUpload(
+    context: TurnContext,
+    conversationData: SudokuConversationData
+  ): Promise<SudokuConversationData> {
+    const attachment = this.puzzleFileService.getFirstPuzzleFileAttachment(context);
+
+    if (!attachment) {
+      await context.sendActivity('Please send a Sudoku puzzle file.');
       return conversationData;
     }
 
     try {
-      const result = await this.solverService.solve(
-        conversationData.currentPuzzle.original,
-        conversationData.currentPuzzle.user
-      );
+      const file = await this.puzzleFileService.loadPuzzleFile(context, attachment);
+      const [firstPuzzle] = file.puzzles;
 
-      if (!result.hints || result.hints.steps.length === 0) {
+      if (!firstPuzzle) {
         await context.sendActivity(
-          "I couldn't find a hint. The puzzle may be complete or invalid."
+          "I couldn't find any puzzles in that file. Please check the file and try again."
         );
         return conversationData;
       }
 
-      const { getTechniqueNameById } = await import('@sudobility/sudojo_types');
-      const hintState = {
-        steps: result.hints.steps,
-        currentStepIndex: 0,
-        technique: getTechniqueNameById(result.hints.technique),
-        level: result.hints.level,
-      };
-
-      const step = hintState.steps[0];
-      if (step) {
-        await this.sendHintStepWithImage(
+      if (file.puzzles.length === 1) {
+        return await this.loadPuzzle(
           context,
-          step,
-          0,
-          hintState.steps.length,
-          conversationData.currentPuzzle.original,
-          conversationData.currentPuzzle.user,
-          hintState.technique,
-          hintState.level
+          conversationData,
+          firstPuzzle,
+          { confidence: 100 },
+          'file'
         );
       }
 
+      const pendingPuzzles = file.puzzles.slice(0, MAX_PENDING_PUZZLES);
+      const card = createPuzzleListCard(
+        this.puzzleFileService.getFileName(attachment) || 'Puzzle file',
+        pendingPuzzles,
+        file.puzzles.length
+      );
+      await context.sendActivity({ attachments: [card] });
+
       return {
         ...conversationData,
-        currentHint: hintState,
+        pendingPuzzles,
       };
     } catch (error) {
-      console.error('Error getting hint:', error);
-      await context.sendActivity('Sorry, I had trouble getting a hint. Please try again.');
+      console.error('Error loading puzzle file:', error);
+      await this.sendFailure(
+        context,
+        error,
+        'Sorry, I had trouble reading that file. Please try again.'
+      );
       return conversationData;
     }
   }
 
   /**
-   * Handle next step request
+   * Handle selection of a puzzle from a multi-puzzle file or photo
    */
-  private async handleNextStep(
+  private async handleSelectPuzzle(
     context: TurnContext,
     conversationData: SudokuConversationData
   ): Promise<SudokuConversationData> {
-    if (!conversationData.currentPuzzle || !conversationData.currentHint) {
-      return this.handleGetHint(context, conversationData);
-    }
+    const index = parseInt(String(context.activity.value?.puzzleIndex ?? ''), 10);
+    const puzzle = conversationData.pendingPuzzles?.[index];
 
-    const nextIndex = conversationData.currentHint.currentStepIndex + 1;
-    if (nextIndex >= conversationData.currentHint.steps.length) {
-      await context.sendActivity("You're at the last step. Send 'apply' to apply this hint.");
+    if (!puzzle) {
+      await context.sendActivity(
+        'That puzzle is no longer available. Please send the puzzles again.'
+      );
       return conversationData;
     }
 
-    const updatedHint = {
-      ...conversationData.currentHint,
-      currentStepIndex: nextIndex,
-    };
-
-    const step = updatedHint.steps[nextIndex];
-    if (step) {
-      await this.sendHintStepWithImage(
+    const conversationId = context.activity.conversation.id;
+    const photo = this.chooserPreviews.get(conversationId)?.get(puzzle.original);
+    try {
+      return await this.loadPuzzle(
         context,
-        step,
-        nextIndex,
-        updatedHint.steps.length,
-        conversationData.currentPuzzle.original,
-        conversationData.currentPuzzle.user,
-        updatedHint.technique,
-        updatedHint.level
+        conversationData,
+        puzzle,
+        puzzle.ocr ?? { confidence: 100 },
+        puzzle.ocr ? 'image' : 'file',
+        photo
+      );
+    } catch (error) {
+      console.error('Error loading selected puzzle:', error);
+      await this.sendFailure(
+        context,
+        error,
+        'Sorry, I had trouble loading that puzzle. Please try again.'
       );
+      return conversationData;
     }
-
-    return {
-      ...conversationData,
-      currentHint: updatedHint,
-    };
   }
 
   /**
-   * Handle previous step request
+   * Validate a recognized puzzle and show the confirmation card
+   * @param photo - Data URL of the board image OCR read, shown on the card but not saved
    */
-  private async handlePreviousStep(
+  private async loadPuzzle(
     context: TurnContext,
-    conversationData: SudokuConversationData
+    conversationData: SudokuConversationData,
+    puzzle: ParsedPuzzle,
+    ocr: Pick<PuzzleState, 'confidence' | 'cellConfidence' | 'alternatives'>,
+    source: PuzzleSource,
+    photo?: string
   ): Promise<SudokuConversationData> {
-    if (!conversationData.currentPuzzle || !conversationData.currentHint) {
+    const validation = this.ocrEngine.validatePuzzle(puzzle.original);
+    if (!validation.valid) {
+      await context.sendActivity(
+        `I couldn't extract a valid puzzle: ${validation.error}. ${RETRY_HINTS[source]}`
+      );
+      return conversationData;
+    }
+
+    const solverValidation = await this.solverService.validate(puzzle.original);
+    if (!solverValidation.valid) {
+      await context.sendActivity(
+        `This puzzle doesn't appear to have a unique solution. ${RETRY_HINTS[source]}`
+      );
+      return conversationData;
+    }
+
+    const puzzleState: PuzzleState = {
+      original: puzzle.original,
+      user: puzzle.user,
+      solution: solverValidation.solution,
+      confidence: ocr.confidence,
+      cellConfidence: ocr.cellConfidence,
+      alternatives: ocr.alternatives,
+      pencilmarks: puzzle.pencilmarks,
+    };
+
+    await this.sendPuzzleCard(context, puzzleState, photo);
+    this.chooserPreviews.delete(context.activity.conversation.id);
+
+    // Nothing from the previous puzzle carries over: its picker, hints or solve
+    return {
+      currentPuzzle: puzzleState,
+      currentHint: null,
+      puzzleConfirmed: false,
+    };
+  }
+
+  /**
+   * Handle cell corrections to an unconfirmed puzzle
+   */
+  private async handleEditPuzzle(
+    context: TurnContext,
+    conversationData: SudokuConversationData,
+    edits: CellEdit[]
+  ): Promise<SudokuConversationData> {
+    const currentPuzzle = conversationData.currentPuzzle;
+    if (!currentPuzzle) {
+      await context.sendActivity('No puzzle to correct. Please upload an image.');
+      return conversationData;
+    }
+
+    try {
+      const original = applyCellEdits(currentPuzzle.original, edits);
+      // An edited cell is a given now, so drop any user entry there
+      const user = applyCellEdits(
+        currentPuzzle.user,
+        edits.map(edit => ({ ...edit, digit: '0' }))
+      );
+      const summary =
+        edits.length > MAX_LISTED_EDITS
+          ? `${edits.length} cells`
+          : edits.map(describeCellEdit).join(', ');
+
+      return await this.updateUnconfirmedPuzzle(
+        context,
+        conversationData,
+        {
+          ...currentPuzzle,
+          original,
+          user,
+          cellConfidence: markCellsVerified(
+            currentPuzzle.cellConfidence,
+            edits.map(edit => edit.index)
+          ),
+        },
+        `Updated ${summary}.`
+      );
+    } catch (error) {
+      console.error('Error editing puzzle:', error);
+      await this.sendFailure(
+        context,
+        error,
+        'Sorry, I had trouble updating the puzzle. Please try again.'
+      );
+      return conversationData;
+    }
+  }
+
+  /**
+   * Handle moving recognized digits between the givens and the user's entries
+   */
+  private async handleReassignCells(
+    context: TurnContext,
+    conversationData: SudokuConversationData,
+    changes: CellOwnershipChange[]
+  ): Promise<SudokuConversationData> {
+    const currentPuzzle = conversationData.currentPuzzle;
+    if (!currentPuzzle) {
+      await context.sendActivity('No puzzle to correct. Please upload an image.');
+      return conversationData;
+    }
+
+    const original = currentPuzzle.original.split('');
+    const user = currentPuzzle.user.split('');
+    let moved = 0;
+
+    for (const change of changes) {
+      const digit = original[change.index] !== '0' ? original[change.index] : user[change.index];
+      if (!digit || digit === '0') continue;
+      original[change.index] = change.given ? digit : '0';
+      user[change.index] = change.given ? '0' : digit;
+      moved++;
+    }
+
+    if (moved === 0) {
+      await context.sendActivity('Those cells are empty, so there is nothing to move.');
+      return conversationData;
+    }
+
+    try {
+      return await this.updateUnconfirmedPuzzle(
+        context,
+        conversationData,
+        { ...currentPuzzle, original: original.join(''), user: user.join('') },
+        `Moved ${moved} ${moved === 1 ? 'digit' : 'digits'}.`
+      );
+    } catch (error) {
+      console.error('Error reassigning cells:', error);
+      await this.sendFailure(
+        context,
+        error,
+        'Sorry, I had trouble updating the puzzle. Please try again.'
+      );
+      return conversationData;
+    }
+  }
+
+  /**
+   * Handle treating every handwritten entry of the unconfirmed puzzle as a given
+   */
+  private async handleMergeEntries(
+    context: TurnContext,
+    conversationData: SudokuConversationData
+  ): Promise<SudokuConversationData> {
+    const currentPuzzle = conversationData.currentPuzzle;
+    if (!currentPuzzle || conversationData.puzzleConfirmed) {
+      await context.sendActivity('No puzzle to correct. Please upload an image.');
+      return conversationData;
+    }
+
+    const entries = currentPuzzle.user.split('').filter(c => c !== '0').length;
+    if (entries === 0) {
+      await context.sendActivity('All digits are already treated as clues.');
+      return conversationData;
+    }
+
+    const original = mergeBoard(currentPuzzle.original, currentPuzzle.user);
+
+    try {
+      return await this.updateUnconfirmedPuzzle(
+        context,
+        conversationData,
+        { ...currentPuzzle, original, user: '0'.repeat(81) },
+        `Treated ${entries} handwritten ${entries === 1 ? 'entry' : 'entries'} as clues.`
+      );
+    } catch (error) {
+      console.error('Error merging entries:', error);
+      await this.sendFailure(
+        context,
+        error,
+        'Sorry, I had trouble updating the puzzle. Please try again.'
+      );
+      return conversationData;
+    }
+  }
+
+  /**
+   * Re-validate a corrected puzzle, report its status and show the confirmation card again.
+   * The correction is kept even when the puzzle is not valid yet, so the user can keep fixing it.
+   */
+  private async updateUnconfirmedPuzzle(
+    context: TurnContext,
+    conversationData: SudokuConversationData,
+    puzzle: PuzzleState,
+    summary: string
+  ): Promise<SudokuConversationData> {
+    const validation = this.ocrEngine.validatePuzzle(puzzle.original);
+    const solverValidation = validation.valid
+      ? await this.solverService.validate(puzzle.original)
+      : { valid: false, solution: undefined };
+
+    const puzzleState: PuzzleState = {
+      ...puzzle,
+      solution: solverValidation.valid ? solverValidation.solution : undefined,
+    };
+
+    const status = !validation.valid
+      ? `The puzzle isn't valid yet: ${validation.error}.`
+      : solverValidation.valid
+        ? 'The puzzle now has a unique solution.'
+        : "The puzzle doesn't have a unique solution yet.";
+    await context.sendActivity(`${summary} ${status}`);
+
+    await this.sendPuzzleCard(context, puzzleState);
+
+    return {
+      ...conversationData,
+      currentPuzzle: puzzleState,
+    };
+  }
+
+  /**
+   * Show the editable grid card, pre-filled with the unconfirmed puzzle when editing
+   */
+  private async handleShowGridInput(
+    context: TurnContext,
+    conversationData: SudokuConversationData,
+    edit: boolean
+  ): Promise<SudokuConversationData> {
+    if (edit && (!conversationData.currentPuzzle || conversationData.puzzleConfirmed)) {
+      await context.sendActivity(
+        "There's no unconfirmed puzzle to edit. Here's a blank grid to enter a new one."
+      );
+    }
+
+    const prefill =
+      edit && !conversationData.puzzleConfirmed
+        ? conversationData.currentPuzzle?.original
+        : undefined;
+
+    await context.sendActivity({ attachments: [createGridInputCard(prefill)] });
+    return conversationData;
+  }
+
+  /**
+   * Handle a grid submitted from the grid input card
+   */
+  private async handleSubmitGrid(
+    context: TurnContext,
+    conversationData: SudokuConversationData
+  ): Promise<SudokuConversationData> {
+    const result = readGridInput(context.activity.value || {});
+
+    if ('invalidRows' in result) {
+      const rows = result.invalidRows.join(', ');
+      await context.sendActivity(
+        `Each row needs 9 cells (digits, with 0 or . for empty). Please fix row ${rows} and submit again.`
+      );
+      return conversationData;
+    }
+
+    if (!/[1-9]/.test(result.puzzle)) {
+      await context.sendActivity(`The grid is empty. ${RETRY_HINTS.grid}`);
+      return conversationData;
+    }
+
+    // Correcting an unconfirmed puzzle keeps it loaded even while it is not yet unique
+    const currentPuzzle = conversationData.currentPuzzle;
+    if (currentPuzzle && !conversationData.puzzleConfirmed) {
+      const edits: CellEdit[] = [];
+      for (let i = 0; i < 81; i++) {
+        const digit = result.puzzle[i] ?? '0';
+        if (digit !== currentPuzzle.original[i]) {
+          edits.push({ index: i, digit });
+        }
+      }
+
+      if (edits.length === 0) {
+        await this.sendPuzzleCard(context, currentPuzzle);
+        return conversationData;
+      }
+
+      return this.handleEditPuzzle(context, conversationData, edits);
+    }
+
+    try {
+      return await this.loadPuzzle(
+        context,
+        conversationData,
+        { original: result.puzzle, user: '0'.repeat(81) },
+        { confidence: 100 },
+        'grid'
+      );
+    } catch (error) {
+      console.error('Error loading grid puzzle:', error);
+      await this.sendFailure(
+        context,
+        error,
+        'Sorry, I had trouble loading that puzzle. Please try again.'
+      );
+      return conversationData;
+    }
+  }
+
+  /**
+   * Handle Adaptive Card action
+   */
+  private async handleCardAction(
+    context: TurnContext,
+    conversationData: SudokuConversationData,
+    action: string
+  ): Promise<SudokuConversationData> {
+    switch (action) {
+      case 'confirm_puzzle':
+        return this.handleConfirmPuzzle(context, conversationData);
+      case 'reject_puzzle':
+        return this.handleNewPuzzle(context, conversationData);
+      case 'get_hint':
+        return this.handleGetHint(context, conversationData);
+      case 'next_step':
+        return this.handleNextStep(context, conversationData);
+      case 'more_help':
+        return this.handleMoreHelp(context, conversationData);
+      case 'show_mistakes':
+        return this.handleCheckBoard(context, conversationData, true);
+      case 'clear_mistakes':
+        return this.handleClearMistakes(context, conversationData);
+      case 'replay_solve':
+        return this.handleReplaySolve(
+          context,
+          conversationData,
+          Number(context.activity.value?.step) || 0
+        );
+      case 'previous_step':
+        return this.handlePreviousStep(context, conversationData);
+      case 'apply_hint':
+        return this.handleApplyHint(context, conversationData);
+      case 'new_puzzle':
+        return this.handleNewPuzzle(context, conversationData);
+      case 'show_progress':
+        return this.handleShowProgress(context, conversationData);
+      case 'enter_puzzle':
+        return this.handleShowGridInput(context, conversationData, false);
+      case 'edit_grid':
+        return this.handleShowGridInput(context, conversationData, true);
+      case 'submit_grid':
+        return this.handleSubmitGrid(context, conversationData);
+      case 'select_puzzle':
+        return this.handleSelectPuzzle(context, conversationData);
+      case 'merge_entries':
+        return this.handleMergeEntries(context, conversationData);
+      case 'upload':
+        await context.sendActivity('Please upload a photo of your Sudoku puzzle.');
+        return conversationData;
+      default:
+        return conversationData;
+    }
+  }
+
+  /**
+   * Handle puzzle confirmation
+   */
+  private async handleConfirmPuzzle(
+    context: TurnContext,
+    conversationData: SudokuConversationData
+  ): Promise<SudokuConversationData> {
+    if (!conversationData.currentPuzzle) {
+      await context.sendActivity('No puzzle to confirm. Please upload an image.');
+      return conversationData;
+    }
+
+    if (!conversationData.currentPuzzle.solution) {
+      await context.sendActivity(
+        "This puzzle doesn't have a unique solution yet. Keep correcting cells, or send 'new' to start over."
+      );
+      return conversationData;
+    }
+
+    await context.sendActivity(
+      "Great! The puzzle is confirmed. Send 'hint' to get your first hint."
+    );
+
+    return {
+      ...conversationData,
+      puzzleConfirmed: true,
+    };
+  }
+
+  /**
+   * Handle new puzzle request
+   */
+  private async handleNewPuzzle(
+    context: TurnContext,
+    _conversationData: SudokuConversationData
+  ): Promise<SudokuConversationData> {
+    await context.sendActivity('Starting fresh! Please upload a photo of your new Sudoku puzzle.');
+
+    return {
+      currentPuzzle: null,
+      currentHint: null,
+      puzzleConfirmed: false,
+    };
+  }
+
+  /**
+   * Handle get hint request
+   */
+  private async handleGetHint(
+    context: TurnContext,
+    conversationData: SudokuConversationData
+  ): Promise<SudokuConversationData> {
+    if (!conversationData.currentPuzzle) {
+      await context.sendActivity(
+        'No puzzle loaded. Please upload an image of your Sudoku puzzle first.'
+      );
+      return conversationData;
+    }
+
+    if (!conversationData.puzzleConfirmed) {
+      await this.sendPuzzleCard(context, conversationData.currentPuzzle);
+      return conversationData;
+    }
+
+    try {
+      const result = await this.solverService.solve(
+        conversationData.currentPuzzle.original,
+        conversationData.currentPuzzle.user,
+        conversationData.currentPuzzle.pencilmarks,
+        this.isAutoPencilmarks(context)
+      );
+
+      if (!result.hints || result.hints.steps.length === 0) {
+        await context.sendActivity(
+          "I couldn't find a hint. The puzzle may be complete or invalid."
+        );
+        return conversationData;
+      }
+
+      const { getTechniqueNameById } = await import('@sudobility/sudojo_types');
+      const hintState: HintState = {
+        steps: result.hints.steps,
+        currentStepIndex: 0,
+        technique: getTechniqueNameById(result.hints.technique),
+        level: result.hints.level,
+        board: result.board,
+        user: conversationData.currentPuzzle.user,
+        // Start with just the technique; hints without one (like mistakes) go straight to the answer
+        reveal: result.hints.technique ? 'nudge' : 'answer',
+      };
+
+      await this.sendHint(context, conversationData.currentPuzzle, hintState);
+
+      return {
+        ...conversationData,
+        currentHint: hintState,
+      };
+    } catch (error) {
+      console.error('Error getting hint:', error);
+      await this.sendFailure(
+        context,
+        error,
+        'Sorry, I had trouble getting a hint. Please try again.'
+      );
+      return conversationData;
+    }
+  }
+
+  /**
+   * Handle next step request
+   */
+  private async handleNextStep(
+    context: TurnContext,
+    conversationData: SudokuConversationData
+  ): Promise<SudokuConversationData> {
+    if (!conversationData.currentPuzzle || !conversationData.currentHint) {
+      return this.handleGetHint(context, conversationData);
+    }
+
+    // Until the answer is shown, the next step is the next level of help
+    if ((conversationData.currentHint.reveal ?? 'answer') !== 'answer') {
+      return this.handleMoreHelp(context, conversationData);
+    }
+
+    const nextIndex = conversationData.currentHint.currentStepIndex + 1;
+    if (nextIndex >= conversationData.currentHint.steps.length) {
+      await context.sendActivity("You're at the last step. Send 'apply' to apply this hint.");
+      return conversationData;
+    }
+
+    const updatedHint = {
+      ...conversationData.currentHint,
+      currentStepIndex: nextIndex,
+    };
+
+    const step = updatedHint.steps[nextIndex];
+    if (step) {
+      await this.sendHintStepWithImage(
+        context,
+        step,
+        nextIndex,
+        updatedHint.steps.length,
+        conversationData.currentPuzzle.original,
+        conversationData.currentPuzzle.user,
+        updatedHint.technique,
+        updatedHint.level,
+        conversationData.currentPuzzle.pencilmarks
+      );
+    }
+
+    return {
+      ...conversationData,
+      currentHint: updatedHint,
+    };
+  }
+
+  /**
+   * Reveal the next level of the current hint: technique, region, cells, then the answer
+   */
+  private async handleMoreHelp(
+    context: TurnContext,
+    conversationData: SudokuConversationData
+  ): Promise<SudokuConversationData> {
+    if (!conversationData.currentPuzzle || !conversationData.currentHint) {
+      return this.handleGetHint(context, conversationData);
+    }
+
+    const hint = conversationData.currentHint;
+    const reveal = hint.reveal ?? 'answer';
+    if (reveal === 'answer') {
+      return this.handleNextStep(context, conversationData);
+    }
+
+    const updatedHint: HintState = {
+      ...hint,
+      reveal: nextHintLevel(reveal, hint.steps) ?? 'answer',
+    };
+    await this.sendHint(context, conversationData.currentPuzzle, updatedHint);
+
+    return {
+      ...conversationData,
+      currentHint: updatedHint,
+    };
+  }
+
+  /**
+   * Handle previous step request
+   */
+  private async handlePreviousStep(
+    context: TurnContext,
+    conversationData: SudokuConversationData
+  ): Promise<SudokuConversationData> {
+    if (!conversationData.currentPuzzle || !conversationData.currentHint) {
       return this.handleGetHint(context, conversationData);
     }
 
@@ -409,128 +1319,381 @@ export class MainDialog extends ComponentDialog {
         conversationData.currentPuzzle.original,
         conversationData.currentPuzzle.user,
         updatedHint.technique,
-        updatedHint.level
+        updatedHint.level,
+        conversationData.currentPuzzle.pencilmarks
+      );
+    }
+
+    return {
+      ...conversationData,
+      currentHint: updatedHint,
+    };
+  }
+
+  /**
+   * Handle apply hint request
+   */
+  private async handleApplyHint(
+    context: TurnContext,
+    conversationData: SudokuConversationData
+  ): Promise<SudokuConversationData> {
+    if (!conversationData.currentPuzzle) {
+      await context.sendActivity('No puzzle loaded. Please upload an image first.');
+      return conversationData;
+    }
+
+    if (!conversationData.currentHint) {
+      return this.handleGetHint(context, conversationData);
+    }
+
+    try {
+      // Reuse the board from the hint unless the puzzle changed since
+      const hint = conversationData.currentHint;
+      const board =
+        hint.board && hint.user === conversationData.currentPuzzle.user
+          ? hint.board
+          : (
+              await this.solverService.solve(
+                conversationData.currentPuzzle.original,
+                conversationData.currentPuzzle.user,
+                conversationData.currentPuzzle.pencilmarks,
+                this.isAutoPencilmarks(context)
+              )
+            ).board;
+
+      const updatedUser = this.solverService.applyHint(conversationData.currentPuzzle.user, board);
+
+      // Keep the user's candidates in step with the board the hint was applied to
+      const updatedPencilmarks = conversationData.currentPuzzle.pencilmarks
+        ? board.pencilmark.numbers
+        : undefined;
+
+      // Render board with updated state
+      const renderResult = this.boardRenderer.render(
+        conversationData.currentPuzzle.original,
+        updatedUser,
+        { pencilmarks: updatedPencilmarks, autoPencilmarks: this.isAutoPencilmarks(context) }
+      );
+      const base64Image = renderResult.buffer.toString('base64');
+      const imageDataUrl = `data:image/png;base64,${base64Image}`;
+
+      // Check if puzzle is complete
+      const isPuzzleComplete =
+        conversationData.currentPuzzle.solution &&
+        this.solverService.isPuzzleSolved(
+          conversationData.currentPuzzle.original,
+          updatedUser,
+          conversationData.currentPuzzle.solution
+        );
+
+      // Send applied hint card with board image
+      const message = MessageFactory.attachment(
+        CardFactory.adaptiveCard({
+          type: 'AdaptiveCard',
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          version: '1.5',
+          body: [
+            {
+              type: 'TextBlock',
+              text: isPuzzleComplete
+                ? '🎉 **Puzzle Complete!**'
+                : `✓ **${conversationData.currentHint.technique}** applied`,
+              wrap: true,
+              weight: 'Bolder',
+              size: 'Medium',
+              color: isPuzzleComplete ? 'Good' : 'Default',
+            },
+            {
+              type: 'Image',
+              url: imageDataUrl,
+              size: 'Large',
+              horizontalAlignment: 'Center',
+            },
+            {
+              type: 'TextBlock',
+              text: isPuzzleComplete
+                ? "Congratulations! You've solved the puzzle."
+                : 'The hint has been applied to your board.',
+              wrap: true,
+            },
+          ],
+          actions: isPuzzleComplete
+            ? [
+                {
+                  type: 'Action.Submit',
+                  title: 'New Puzzle',
+                  data: { action: 'new_puzzle' },
+                },
+              ]
+            : [
+                {
+                  type: 'Action.Submit',
+                  title: 'Get Another Hint',
+                  data: { action: 'get_hint' },
+                },
+                {
+                  type: 'Action.Submit',
+                  title: 'New Puzzle',
+                  data: { action: 'new_puzzle' },
+                },
+              ],
+        })
+      );
+      await context.sendActivity(message);
+
+      return {
+        ...conversationData,
+        currentPuzzle: {
+          ...conversationData.currentPuzzle,
+          user: updatedUser,
+          pencilmarks: updatedPencilmarks,
+        },
+        currentHint: null,
+        hintHistory: [
+          ...(conversationData.hintHistory ?? []),
+          { technique: hint.technique, level: hint.reveal ?? 'answer' },
+        ].slice(-MAX_HINT_HISTORY),
+      };
+    } catch (error) {
+      console.error('Error applying hint:', error);
+      await this.sendFailure(
+        context,
+        error,
+        'Sorry, I had trouble applying the hint. Please try again.'
+      );
+      return conversationData;
+    }
+  }
+
+  /**
+   * Apply hints until the puzzle is solved or the solve time runs out, then summarize the
+   * techniques used
+   */
+  private async handleSolveToEnd(
+    context: TurnContext,
+    conversationData: SudokuConversationData
+  ): Promise<SudokuConversationData> {
+    const puzzle = conversationData.currentPuzzle;
+    if (!puzzle) {
+      await context.sendActivity('No puzzle loaded. Please upload an image first.');
+      return conversationData;
+    }
+
+    if (!conversationData.puzzleConfirmed || !puzzle.solution) {
+      await this.sendPuzzleCard(context, puzzle);
+      return conversationData;
+    }
+
+    try {
+      // A long solve takes many solver calls, so keep showing that the bot is working
+      let lastTyping = 0;
+      const log = await solveToEnd(
+        this.solverService,
+        { ...puzzle, solution: puzzle.solution },
+        {
+          autoPencilmarks: this.isAutoPencilmarks(context),
+          timeBudgetMs: this.solveTimeMs,
+          onStep: async () => {
+            if (Date.now() - lastTyping < SOLVE_TYPING_INTERVAL_MS) return;
+            lastTyping = Date.now();
+            await context.sendActivity({ type: ActivityTypes.Typing });
+          },
+        }
       );
+
+      // Keep the user's candidates only if they were tracking them
+      const pencilmarks = puzzle.pencilmarks ? log.pencilmarks : undefined;
+      const renderResult = this.boardRenderer.render(puzzle.original, log.user, {
+        pencilmarks,
+        autoPencilmarks: this.isAutoPencilmarks(context),
+      });
+      const base64Image = renderResult.buffer.toString('base64');
+      const imageDataUrl = `data:image/png;base64,${base64Image}`;
+      await context.sendActivity({ attachments: [createSolveSummaryCard(log, imageDataUrl)] });
+
+      return {
+        ...conversationData,
+        currentPuzzle: { ...puzzle, user: log.user, pencilmarks },
+        currentHint: null,
+        solveReplay: {
+          original: puzzle.original,
+          start: puzzle.user,
+          startPencilmarks: puzzle.pencilmarks,
+          entries: log.entries,
+        },
+      };
+    } catch (error) {
+      console.error('Error solving puzzle:', error);
+      await this.sendFailure(
+        context,
+        error,
+        'Sorry, I had trouble solving the puzzle. Please try again.'
+      );
+      return conversationData;
+    }
+  }
+
+  /**
+   * Show one step of the last solve, with the cells it changed highlighted
+   * @param stepIndex - Zero-based step to show
+   */
+  private async handleReplaySolve(
+    context: TurnContext,
+    conversationData: SudokuConversationData,
+    stepIndex: number
+  ): Promise<SudokuConversationData> {
+    const replay = conversationData.solveReplay;
+    if (!replay || replay.entries.length === 0) {
+      await context.sendActivity("There's no solve to replay. Send 'solve' to solve your puzzle.");
+      return conversationData;
     }
 
-    return {
-      ...conversationData,
-      currentHint: updatedHint,
-    };
+    const index = Math.min(Math.max(0, stepIndex), replay.entries.length - 1);
+    const entry = replay.entries[index]!;
+    const before =
+      index > 0
+        ? replay.entries[index - 1]!
+        : { user: replay.start, pencilmarks: replay.startPencilmarks };
+
+    const renderResult = this.boardRenderer.render(replay.original, before.user, {
+      pencilmarks: before.pencilmarks,
+      hintStep: replayHighlight(before, entry),
+    });
+    const base64Image = renderResult.buffer.toString('base64');
+    const imageDataUrl = `data:image/png;base64,${base64Image}`;
+
+    const message = MessageFactory.attachment(
+      CardFactory.adaptiveCard({
+        type: 'AdaptiveCard',
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        version: '1.5',
+        body: [
+          {
+            type: 'TextBlock',
+            text: `**${entry.technique}** (Level ${entry.level})`,
+            wrap: true,
+            weight: 'Bolder',
+            size: 'Medium',
+          },
+          {
+            type: 'TextBlock',
+            text: `Step ${index + 1} of ${replay.entries.length}`,
+            wrap: true,
+            size: 'Small',
+            isSubtle: true,
+          },
+          {
+            type: 'Image',
+            url: imageDataUrl,
+            size: 'Large',
+            horizontalAlignment: 'Center',
+          },
+          {
+            type: 'TextBlock',
+            text: entry.text,
+            wrap: true,
+          },
+        ],
+        actions: [
+          ...(index > 0
+            ? [
+                {
+                  type: 'Action.Submit',
+                  title: '← Previous',
+                  data: { action: 'replay_solve', step: index - 1 },
+                },
+              ]
+            : []),
+          ...(index < replay.entries.length - 1
+            ? [
+                {
+                  type: 'Action.Submit',
+                  title: 'Next →',
+                  data: { action: 'replay_solve', step: index + 1 },
+                },
+              ]
+            : []),
+          {
+            type: 'Action.Submit',
+            title: 'New Puzzle',
+            data: { action: 'new_puzzle' },
+          },
+        ],
+      })
+    );
+    await context.sendActivity(message);
+
+    return conversationData;
   }
 
   /**
-   * Handle apply hint request
+   * Check the user's entries against the solution. The count is reported without saying
+   * which entries are wrong unless the user asks to see them.
+   * @param reveal - Whether to highlight the wrong entries on the board
    */
-  private async handleApplyHint(
+  private async handleCheckBoard(
     context: TurnContext,
-    conversationData: SudokuConversationData
+    conversationData: SudokuConversationData,
+    reveal: boolean
   ): Promise<SudokuConversationData> {
-    if (!conversationData.currentPuzzle) {
+    const puzzle = conversationData.currentPuzzle;
+    if (!puzzle) {
       await context.sendActivity('No puzzle loaded. Please upload an image first.');
       return conversationData;
     }
 
-    if (!conversationData.currentHint) {
-      return this.handleGetHint(context, conversationData);
+    if (!conversationData.puzzleConfirmed || !puzzle.solution) {
+      await this.sendPuzzleCard(context, puzzle);
+      return conversationData;
     }
 
-    try {
-      const result = await this.solverService.solve(
-        conversationData.currentPuzzle.original,
-        conversationData.currentPuzzle.user
-      );
-
-      const updatedUser = this.solverService.applyHint(
-        conversationData.currentPuzzle.user,
-        result.board
-      );
+    const check = checkBoard({ ...puzzle, solution: puzzle.solution });
+    if (!reveal || check.mistakes.length === 0) {
+      await context.sendActivity({ attachments: [createCheckCard(check)] });
+      return conversationData;
+    }
 
-      // Render board with updated state
-      const renderResult = this.boardRenderer.render(
-        conversationData.currentPuzzle.original,
-        updatedUser
-      );
-      const base64Image = renderResult.buffer.toString('base64');
-      const imageDataUrl = `data:image/png;base64,${base64Image}`;
+    const renderResult = this.boardRenderer.render(puzzle.original, puzzle.user, {
+      pencilmarks: puzzle.pencilmarks,
+      autoPencilmarks: this.isAutoPencilmarks(context),
+      hintStep: mistakeHighlight(check.mistakes),
+    });
+    const base64Image = renderResult.buffer.toString('base64');
+    const imageDataUrl = `data:image/png;base64,${base64Image}`;
 
-      // Check if puzzle is complete
-      const isPuzzleComplete =
-        conversationData.currentPuzzle.solution &&
-        this.solverService.isPuzzleSolved(
-          conversationData.currentPuzzle.original,
-          updatedUser,
-          conversationData.currentPuzzle.solution
-        );
+    await context.sendActivity({ attachments: [createCheckCard(check, imageDataUrl)] });
+    return conversationData;
+  }
 
-      // Send applied hint card with board image
-      const message = MessageFactory.attachment(
-        CardFactory.adaptiveCard({
-          type: 'AdaptiveCard',
-          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
-          version: '1.5',
-          body: [
-            {
-              type: 'TextBlock',
-              text: isPuzzleComplete
-                ? '🎉 **Puzzle Complete!**'
-                : `✓ **${conversationData.currentHint.technique}** applied`,
-              wrap: true,
-              weight: 'Bolder',
-              size: 'Medium',
-              color: isPuzzleComplete ? 'Good' : 'Default',
-            },
-            {
-              type: 'Image',
-              url: imageDataUrl,
-              size: 'Large',
-              horizontalAlignment: 'Center',
-            },
-            {
-              type: 'TextBlock',
-              text: isPuzzleComplete
-                ? "Congratulations! You've solved the puzzle."
-                : 'The hint has been applied to your board.',
-              wrap: true,
-            },
-          ],
-          actions: isPuzzleComplete
-            ? [
-                {
-                  type: 'Action.Submit',
-                  title: 'New Puzzle',
-                  data: { action: 'new_puzzle' },
-                },
-              ]
-            : [
-                {
-                  type: 'Action.Submit',
-                  title: 'Get Another Hint',
-                  data: { action: 'get_hint' },
-                },
-                {
-                  type: 'Action.Submit',
-                  title: 'New Puzzle',
-                  data: { action: 'new_puzzle' },
-                },
-              ],
-        })
-      );
-      await context.sendActivity(message);
+  /**
+   * Clear the user's entries that don't match the solution
+   */
+  private async handleClearMistakes(
+    context: TurnContext,
+    conversationData: SudokuConversationData
+  ): Promise<SudokuConversationData> {
+    const puzzle = conversationData.currentPuzzle;
+    if (!puzzle || !conversationData.puzzleConfirmed || !puzzle.solution) {
+      return this.handleCheckBoard(context, conversationData, false);
+    }
 
-      return {
-        ...conversationData,
-        currentPuzzle: {
-          ...conversationData.currentPuzzle,
-          user: updatedUser,
-        },
-        currentHint: null,
-      };
-    } catch (error) {
-      console.error('Error applying hint:', error);
-      await context.sendActivity('Sorry, I had trouble applying the hint. Please try again.');
+    const { mistakes } = checkBoard({ ...puzzle, solution: puzzle.solution });
+    if (mistakes.length === 0) {
+      await context.sendActivity('There are no mistakes to clear.');
       return conversationData;
     }
+
+    const updatedData: SudokuConversationData = {
+      ...conversationData,
+      currentPuzzle: { ...puzzle, user: clearCells(puzzle.user, mistakes) },
+      // The board changed, so any hint in progress may no longer apply
+      currentHint: null,
+    };
+
+    await context.sendActivity(
+      `Cleared ${mistakes.length} wrong ${mistakes.length === 1 ? 'entry' : 'entries'}.`
+    );
+    return this.handleShowProgress(context, updatedData);
   }
 
   /**
@@ -538,7 +1701,8 @@ export class MainDialog extends ComponentDialog {
    */
   private async handleShowProgress(
     context: TurnContext,
-    conversationData: SudokuConversationData
+    conversationData: SudokuConversationData,
+    flaggedCells: number[] = []
   ): Promise<SudokuConversationData> {
     if (!conversationData.currentPuzzle) {
       await context.sendActivity('No puzzle loaded. Please upload an image first.');
@@ -548,7 +1712,12 @@ export class MainDialog extends ComponentDialog {
     // Render current board state
     const renderResult = this.boardRenderer.render(
       conversationData.currentPuzzle.original,
-      conversationData.currentPuzzle.user
+      conversationData.currentPuzzle.user,
+      {
+        pencilmarks: conversationData.currentPuzzle.pencilmarks,
+        autoPencilmarks: this.isAutoPencilmarks(context),
+        flaggedCells,
+      }
     );
     const base64Image = renderResult.buffer.toString('base64');
     const imageDataUrl = `data:image/png;base64,${base64Image}`;
@@ -563,6 +1732,7 @@ export class MainDialog extends ComponentDialog {
       }
     }
     const progress = Math.round((filledCells / 81) * 100);
+    const hintSummary = summarizeHintLevels(conversationData.hintHistory ?? []);
 
     const message = MessageFactory.attachment(
       CardFactory.adaptiveCard({
@@ -583,6 +1753,9 @@ export class MainDialog extends ComponentDialog {
             size: 'Large',
             horizontalAlignment: 'Center',
           },
+          ...(hintSummary
+            ? [{ type: 'TextBlock', text: hintSummary, wrap: true, size: 'Small', isSubtle: true }]
+            : []),
         ],
         actions: [
           {
@@ -603,6 +1776,209 @@ export class MainDialog extends ComponentDialog {
     return conversationData;
   }
 
+  /**
+   * Send the puzzle confirmation card with a rendered board that outlines doubtful cells
+   * @param photo - Data URL of the board image OCR read, to show beside the board
+   */
+  private async sendPuzzleCard(
+    context: TurnContext,
+    puzzle: PuzzleState,
+    photo?: string
+  ): Promise<void> {
+    const flaggedCells = findSuspiciousCells(puzzle).map(cell => cell.index);
+    const renderResult = this.boardRenderer.render(puzzle.original, puzzle.user, {
+      flaggedCells,
+      pencilmarks: puzzle.pencilmarks,
+    });
+    const base64Image = renderResult.buffer.toString('base64');
+    const imageDataUrl = `data:image/png;base64,${base64Image}`;
+
+    const card = createPuzzleCard(puzzle, true, imageDataUrl, photo);
+    await context.sendActivity({ attachments: [card] });
+  }
+
+  /**
+   * Whether the user wants hints that assume every candidate is filled in
+   */
+  private isAutoPencilmarks(context: TurnContext): boolean {
+    const userData = context.turnState.get(USER_DATA_KEY) as SudokuUserData | undefined;
+    return userData?.autoPencilmarks === true;
+  }
+
+  /**
+   * Handle the settings command: show the user's settings, or change one
+   * @param args - Text after "settings", e.g. "autopencil on"
+   */
+  private async handleSettings(
+    context: TurnContext,
+    conversationData: SudokuConversationData,
+    args: string
+  ): Promise<SudokuConversationData> {
+    const userData = context.turnState.get(USER_DATA_KEY) as SudokuUserData;
+
+    if (!args) {
+      await context.sendActivity(
+        `Automatic pencilmarks are ${userData.autoPencilmarks ? 'on' : 'off'}. ` +
+          "Change this with 'settings autopencil on' or 'settings autopencil off'."
+      );
+      return conversationData;
+    }
+
+    const autopencil = args.match(/^auto-?pencil(?:s|marks?)?\s+(on|off)$/);
+    if (!autopencil) {
+      await context.sendActivity(
+        "I don't know that setting. Try 'settings autopencil on' or 'settings autopencil off'."
+      );
+      return conversationData;
+    }
+
+    const enabled = autopencil[1] === 'on';
+    const changed = enabled !== (userData.autoPencilmarks === true);
+    userData.autoPencilmarks = enabled;
+
+    await context.sendActivity(
+      enabled
+        ? 'Automatic pencilmarks are on: hints assume every candidate is filled in.'
+        : 'Automatic pencilmarks are off: hints use your own pencilmarks.'
+    );
+
+    // A hint in progress was found for the other mode
+    return changed ? { ...conversationData, currentHint: null } : conversationData;
+  }
+
+  /**
+   * Tell the user a request failed. When the solver is down, say so instead of suggesting
+   * something is wrong with their puzzle.
+   */
+  private async sendFailure(context: TurnContext, error: unknown, message: string): Promise<void> {
+    await context.sendActivity(
+      error instanceof SolverUnavailableError ? SOLVER_UNAVAILABLE_MESSAGE : message
+    );
+  }
+
+  /**
+   * Remember the previews of the puzzles in a chooser until one is picked, dropping the
+   * oldest conversation's beyond `MAX_CHOOSER_PREVIEWS`
+   */
+  private keepChooserPreviews(
+    context: TurnContext,
+    puzzles: PendingPuzzle[],
+    previews: (string | undefined)[]
+  ): void {
+    const conversationId = context.activity.conversation.id;
+    const kept = new Map<string, string>();
+    puzzles.forEach((puzzle, index) => {
+      const preview = previews[index];
+      if (preview) kept.set(puzzle.original, preview);
+    });
+
+    this.chooserPreviews.delete(conversationId);
+    this.chooserPreviews.set(conversationId, kept);
+    while (this.chooserPreviews.size > MAX_CHOOSER_PREVIEWS) {
+      this.chooserPreviews.delete(this.chooserPreviews.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Shrink the board image OCR read into a data URL for the puzzle card
+   * @returns The data URL, or undefined if the image cannot be read
+   */
+  private async createPhotoPreview(boardImage: Buffer): Promise<string | undefined> {
+    try {
+      const preview = await scaleImage(boardImage, PHOTO_PREVIEW_SIZE);
+      return `data:image/jpeg;base64,${preview.toString('base64')}`;
+    } catch (error) {
+      console.error('Error creating photo preview:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Send the current hint at its reveal level: the step being navigated once the answer is
+   * shown, otherwise only as much as the level gives away
+   */
+  private async sendHint(
+    context: TurnContext,
+    puzzle: PuzzleState,
+    hint: HintState
+  ): Promise<void> {
+    const reveal = hint.reveal ?? 'answer';
+    if (reveal === 'answer') {
+      const step = hint.steps[hint.currentStepIndex];
+      if (step) {
+        await this.sendHintStepWithImage(
+          context,
+          step,
+          hint.currentStepIndex,
+          hint.steps.length,
+          puzzle.original,
+          puzzle.user,
+          hint.technique,
+          hint.level,
+          puzzle.pencilmarks
+        );
+      }
+      return;
+    }
+
+    const renderResult = this.boardRenderer.render(puzzle.original, puzzle.user, {
+      hintStep: hintLevelStep(hint.steps, reveal),
+      pencilmarks: puzzle.pencilmarks,
+      autoPencilmarks: this.isAutoPencilmarks(context),
+    });
+    const base64Image = renderResult.buffer.toString('base64');
+    const imageDataUrl = `data:image/png;base64,${base64Image}`;
+
+    const message = MessageFactory.attachment(
+      CardFactory.adaptiveCard({
+        type: 'AdaptiveCard',
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        version: '1.5',
+        body: [
+          {
+            type: 'TextBlock',
+            text: '**Hint**',
+            wrap: true,
+            weight: 'Bolder',
+            size: 'Medium',
+          },
+          {
+            type: 'Image',
+            url: imageDataUrl,
+            size: 'Large',
+            horizontalAlignment: 'Center',
+          },
+          {
+            type: 'TextBlock',
+            text: describeHintLevel(hint.technique, hint.steps, reveal),
+            wrap: true,
+          },
+          {
+            type: 'TextBlock',
+            text: 'Stuck? Ask for more help.',
+            wrap: true,
+            size: 'Small',
+            isSubtle: true,
+          },
+        ],
+        actions: [
+          {
+            type: 'Action.Submit',
+            title: 'More Help',
+            data: { action: 'more_help' },
+          },
+          {
+            type: 'Action.Submit',
+            title: 'New Puzzle',
+            data: { action: 'new_puzzle' },
+          },
+        ],
+      })
+    );
+
+    await context.sendActivity(message);
+  }
+
   /**
    * Send a hint step with rendered board image
    */
@@ -614,11 +1990,14 @@ export class MainDialog extends ComponentDialog {
     original: string,
     user: string,
     technique: string,
-    level: number
+    level: number,
+    pencilmarks?: string
   ): Promise<void> {
-    // Render board with hint visualization
+    // Render board with hint visualization over the user's own candidates
     const renderResult = this.boardRenderer.render(original, user, {
       hintStep: step,
+      pencilmarks,
+      autoPencilmarks: this.isAutoPencilmarks(context),
     });
 
     // Convert to base64 for inline image
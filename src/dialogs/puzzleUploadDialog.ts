@@ -14,7 +14,7 @@ import {
   ChoiceFactory,
 } from 'botbuilder-dialogs';
 import type { Attachment } from 'botbuilder';
-import { OCRService } from '../services/ocrService.js';
+import type { OcrEngine } from '../services/ocrEngine.js';
 import { SolverService } from '../services/solverService.js';
 import { ImageService } from '../services/imageService.js';
 import { createPuzzleCard } from '../cards/puzzleCard.js';
@@ -39,14 +39,14 @@ interface DialogValues {
  * Returns PuzzleUploadResult with the extracted puzzle state and confirmation status.
  */
 export class PuzzleUploadDialog extends ComponentDialog {
-  private ocrService: OCRService;
+  private ocrEngine: OcrEngine;
   private solverService: SolverService;
   private imageService: ImageService;
 
-  constructor(ocrService: OCRService, solverService: SolverService) {
+  constructor(ocrEngine: OcrEngine, solverService: SolverService) {
     super(PUZZLE_UPLOAD_DIALOG);
 
-    this.ocrService = ocrService;
+    this.ocrEngine = ocrEngine;
     this.solverService = solverService;
     this.imageService = new ImageService();
 
@@ -137,10 +137,10 @@ export class PuzzleUploadDialog extends ComponentDialog {
       );
 
       // Run OCR
-      const ocrResult = await this.ocrService.extractPuzzle(imageBuffer);
+      const ocrResult = await this.ocrEngine.extractPuzzle(imageBuffer);
 
       // Validate puzzle
-      const validation = this.ocrService.validatePuzzle(ocrResult.puzzle);
+      const validation = this.ocrEngine.validatePuzzle(ocrResult.puzzle);
       if (!validation.valid) {
         await stepContext.context.sendActivity(
           `I couldn't extract a valid puzzle: ${validation.error}. Please try a clearer image.`
@@ -160,9 +160,12 @@ export class PuzzleUploadDialog extends ComponentDialog {
       // Store puzzle state for next step
       const puzzleState: PuzzleState = {
         original: ocrResult.puzzle,
-        user: '0'.repeat(81),
+        user: ocrResult.user ?? '0'.repeat(81),
         solution: solverValidation.solution,
         confidence: ocrResult.confidence,
+        cellConfidence: ocrResult.cellConfidence,
+        alternatives: ocrResult.alternatives,
+        pencilmarks: ocrResult.pencilmarks,
       };
 
       (stepContext.values as DialogValues).puzzle = puzzleState;
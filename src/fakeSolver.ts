@@ -0,0 +1,45 @@
+/**
+ * Fake solver API
+ * Serves the solver routes from the built-in solver, so the bot can run fully offline
+ *
+ * Usage: bun run solver:fake [--port <port>] [--mode <mode>] [--delay <ms>]
+ * Point the bot at it with SOLVER_API_URL=http://localhost:<port>. Switch modes while it
+ * runs with: curl -X POST "http://localhost:<port>/fake/mode?mode=slow"
+ */
+
+import { parseArgs } from 'node:util';
+import {
+  FAKE_SOLVER_MODES,
+  FakeSolverServer,
+  type FakeSolverMode,
+} from './services/fakeSolverServer.js';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.FAKE_SOLVER_PORT || '3000' },
+    host: { type: 'string', default: '127.0.0.1' },
+    mode: { type: 'string', default: 'normal' },
+    delay: { type: 'string', default: '2000' },
+  },
+});
+
+const mode = values.mode as FakeSolverMode;
+if (!FAKE_SOLVER_MODES.includes(mode)) {
+  console.error(`--mode must be one of ${FAKE_SOLVER_MODES.join(', ')}`);
+  process.exit(2);
+}
+
+const server = new FakeSolverServer({
+  port: parseInt(values.port, 10),
+  host: values.host,
+  mode,
+  delayMs: parseInt(values.delay, 10),
+});
+
+const url = await server.start();
+console.log(`Fake solver API listening on ${url} (mode: ${mode})`);
+
+process.on('SIGINT', async () => {
+  await server.stop();
+  process.exit(0);
+});
@@ -13,12 +13,31 @@ import {
 import restify from 'restify';
 import { SudokuHintBot } from './bot.js';
 import { MainDialog } from './dialogs/mainDialog.js';
-import { OCRService } from './services/ocrService.js';
+import { createOcrEngine } from './services/ocrEngineFactory.js';
 import { SolverService } from './services/solverService.js';
 
 // Load environment variables
 const PORT = process.env.PORT || 3978;
 const SOLVER_API_URL = process.env.SOLVER_API_URL || 'http://localhost:3000';
+const SOLVER_LOCAL_ONLY = process.env.SOLVER_LOCAL_ONLY === 'true';
+const SOLVER_LOCAL_FALLBACK = process.env.SOLVER_LOCAL_FALLBACK !== 'false';
+const SOLVER_TIMEOUT_MS = parseInt(process.env.SOLVER_TIMEOUT_MS || '10000', 10);
+const SOLVER_RETRIES = parseInt(process.env.SOLVER_RETRIES || '2', 10);
+const SOLVER_FAILURE_THRESHOLD = parseInt(process.env.SOLVER_FAILURE_THRESHOLD || '5', 10);
+const SOLVER_RESET_TIMEOUT_MS = parseInt(process.env.SOLVER_RESET_TIMEOUT_MS || '30000', 10);
+const SOLVER_CACHE_SIZE = parseInt(process.env.SOLVER_CACHE_SIZE || '500', 10);
+const SOLVER_CACHE_TTL_MS = parseInt(process.env.SOLVER_CACHE_TTL_MS || '600000', 10);
+const SOLVE_TIME_LIMIT_MS = parseInt(process.env.SOLVE_TIME_LIMIT_MS || '10000', 10);
+const OCR_WORKERS = parseInt(process.env.OCR_WORKERS || '2', 10);
+const OCR_TIMEOUT_MS = parseInt(process.env.OCR_TIMEOUT_MS || '60000', 10);
+const OCR_MAX_QUEUE = parseInt(process.env.OCR_MAX_QUEUE || '20', 10);
+const OCR_CACHE_SIZE = parseInt(process.env.OCR_CACHE_SIZE || '200', 10);
+const OCR_CACHE_DIR = process.env.OCR_CACHE_DIR || undefined;
+const OCR_ENGINE = process.env.OCR_ENGINE || 'tesseract';
+const OCR_ENSEMBLE_ENGINES = (process.env.OCR_ENSEMBLE_ENGINES || 'tesseract,tesseract-raw')
+  .split(',')
+  .map(name => name.trim());
+const OCR_FIXTURES_DIR = process.env.OCR_FIXTURES_DIR || undefined;
 
 // Create HTTP server
 const server = restify.createServer();
@@ -53,11 +72,33 @@ const conversationState = new ConversationState(storage);
 const userState = new UserState(storage);
 
 // Services
-const ocrService = new OCRService();
-const solverService = new SolverService(SOLVER_API_URL);
+const solverService = new SolverService(SOLVER_API_URL, {
+  localOnly: SOLVER_LOCAL_ONLY,
+  localFallback: SOLVER_LOCAL_FALLBACK,
+  timeoutMs: SOLVER_TIMEOUT_MS,
+  retries: SOLVER_RETRIES,
+  circuitBreaker: {
+    failureThreshold: SOLVER_FAILURE_THRESHOLD,
+    resetTimeoutMs: SOLVER_RESET_TIMEOUT_MS,
+  },
+  cache: { maxEntries: SOLVER_CACHE_SIZE, ttlMs: SOLVER_CACHE_TTL_MS },
+});
+const ocrEngine = await createOcrEngine({
+  engine: OCR_ENGINE,
+  ensembleEngines: OCR_ENSEMBLE_ENGINES,
+  workers: OCR_WORKERS,
+  jobTimeoutMs: OCR_TIMEOUT_MS,
+  maxQueueLength: OCR_MAX_QUEUE,
+  cacheSize: OCR_CACHE_SIZE,
+  cacheDir: OCR_CACHE_DIR,
+  fixturesDir: OCR_FIXTURES_DIR,
+});
+ocrEngine.warmUp?.().catch(error => {
+  console.error('Failed to start OCR workers:', error);
+});
 
 // Main dialog
-const mainDialog = new MainDialog(ocrService, solverService);
+const mainDialog = new MainDialog(ocrEngine, solverService, { solveTimeMs: SOLVE_TIME_LIMIT_MS });
 
 // Create bot
 const bot = new SudokuHintBot(conversationState, userState, mainDialog);
@@ -69,7 +110,17 @@ server.post('/api/messages', async (req, res) => {
 
 // Health check endpoint
 server.get('/health', (_req, res, next) => {
-  res.send(200, { status: 'healthy', name: 'Sudoku Hint Bot' });
+  res.send(200, {
+    status: 'healthy',
+    name: 'Sudoku Hint Bot',
+    ocr: { engine: ocrEngine.name, queue: ocrEngine.getQueueStats?.() },
+    solver: {
+      mode: solverService.isLocalOnly ? 'local' : 'api',
+      circuit: solverService.circuitState,
+      invalidResponses: solverService.getInvalidResponseCounts(),
+      cache: solverService.getCacheStats(),
+    },
+  });
   next();
 });
 
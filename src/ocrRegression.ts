@@ -0,0 +1,73 @@
+/**
+ * OCR regression check
+ * Reads a corpus of puzzle photos with known answers and reports recognition accuracy
+ *
+ * Usage: bun run test:ocr <corpus-dir> [--baseline <file>] [--tolerance <percent>] [--update]
+ * The baseline defaults to baseline.json in the corpus directory. Exits with status 1 when
+ * an image reads worse than in the baseline.
+ */
+
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createOcrEngine } from './services/ocrEngineFactory.js';
+import {
+  formatRegressionReport,
+  loadCorpus,
+  readBaseline,
+  runRegression,
+  toBaseline,
+  writeBaseline,
+} from './services/ocrRegression.js';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    baseline: { type: 'string' },
+    tolerance: { type: 'string', default: '0' },
+    update: { type: 'boolean', default: false },
+  },
+});
+
+const corpusDir = positionals[0] || process.env.OCR_CORPUS_DIR;
+if (!corpusDir) {
+  console.error(
+    'Usage: bun run test:ocr <corpus-dir> [--baseline <file>] [--tolerance <percent>] [--update]'
+  );
+  process.exit(2);
+}
+
+const baselinePath = values.baseline || join(corpusDir, 'baseline.json');
+const corpus = await loadCorpus(corpusDir);
+if (corpus.length === 0) {
+  console.error(`No images with .txt answers found in ${corpusDir}`);
+  process.exit(2);
+}
+
+// Same engine settings as the bot, with the smallest cache so each corpus image is read
+const engine = await createOcrEngine({
+  engine: process.env.OCR_ENGINE || 'tesseract',
+  ensembleEngines: process.env.OCR_ENSEMBLE_ENGINES?.split(',').map(name => name.trim()),
+  workers: 1,
+  cacheSize: 1,
+  fixturesDir: process.env.OCR_FIXTURES_DIR,
+});
+
+try {
+  const report = await runRegression(
+    engine,
+    corpus,
+    await readBaseline(baselinePath),
+    parseFloat(values.tolerance) / 100
+  );
+  console.log(`OCR engine: ${engine.name}\n`);
+  console.log(formatRegressionReport(report));
+
+  if (values.update) {
+    await writeBaseline(baselinePath, toBaseline(report));
+    console.log(`\nBaseline written to ${baselinePath}`);
+  } else if (report.regressions.length > 0) {
+    process.exitCode = 1;
+  }
+} finally {
+  await engine.shutdown?.();
+}
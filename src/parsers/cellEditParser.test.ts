@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  parseCellEdits,
+  parseCellOwnership,
+  applyCellEdits,
+  describeCellEdit,
+} from './cellEditParser.js';
+
+describe('cellEditParser', () => {
+  describe('parseCellEdits', () => {
+    it('parses a single cell assignment', () => {
+      expect(parseCellEdits('r3c5=7')).toEqual([{ index: 22, digit: '7' }]);
+      expect(parseCellEdits('R3C5 = 7')).toEqual([{ index: 22, digit: '7' }]);
+    });
+
+    it('parses clearing a cell', () => {
+      expect(parseCellEdits('r3c5 empty')).toEqual([{ index: 22, digit: '0' }]);
+      expect(parseCellEdits('r3c5=.')).toEqual([{ index: 22, digit: '0' }]);
+      expect(parseCellEdits('r3c5=0')).toEqual([{ index: 22, digit: '0' }]);
+    });
+
+    it('parses several edits in one message', () => {
+      expect(parseCellEdits('r1c1=5, r9c9=1 and r2c2 blank')).toEqual([
+        { index: 0, digit: '5' },
+        { index: 80, digit: '1' },
+        { index: 10, digit: '0' },
+      ]);
+    });
+
+    it('parses a row fix', () => {
+      const edits = parseCellEdits('fix row 4: 0 0 3 0 0 0 7 0 0');
+      expect(edits).toHaveLength(9);
+      expect(edits?.[0]).toEqual({ index: 27, digit: '0' });
+      expect(edits?.[2]).toEqual({ index: 29, digit: '3' });
+      expect(edits?.[6]).toEqual({ index: 33, digit: '7' });
+    });
+
+    it('parses a column fix', () => {
+      const edits = parseCellEdits('fix column 2: 1........');
+      expect(edits?.[0]).toEqual({ index: 1, digit: '1' });
+      expect(edits?.[8]).toEqual({ index: 73, digit: '0' });
+    });
+
+    it('rejects row fixes with the wrong number of cells', () => {
+      expect(parseCellEdits('fix row 4: 0 0 3')).toBeNull();
+    });
+
+    it('rejects messages with other text', () => {
+      expect(parseCellEdits('please set r3c5=7')).toBeNull();
+      expect(parseCellEdits('hint')).toBeNull();
+      expect(parseCellEdits('r0c5=7')).toBeNull();
+    });
+  });
+
+  describe('parseCellOwnership', () => {
+    it('parses given and entry reassignments', () => {
+      expect(parseCellOwnership('r3c5 given, R1C1 mine')).toEqual([
+        { index: 22, given: true },
+        { index: 0, given: false },
+      ]);
+      expect(parseCellOwnership('r9c9: handwritten')).toEqual([{ index: 80, given: false }]);
+    });
+
+    it('does not treat digit edits as reassignments', () => {
+      expect(parseCellOwnership('r3c5=7')).toBeNull();
+      expect(parseCellOwnership('r3c5 given please')).toBeNull();
+      expect(parseCellEdits('r3c5 given')).toBeNull();
+    });
+  });
+
+  describe('applyCellEdits', () => {
+    it('replaces the edited cells', () => {
+      const puzzle = '0'.repeat(81);
+      const result = applyCellEdits(puzzle, [
+        { index: 0, digit: '5' },
+        { index: 80, digit: '9' },
+      ]);
+      expect(result[0]).toBe('5');
+      expect(result[80]).toBe('9');
+      expect(result).toHaveLength(81);
+    });
+  });
+
+  describe('describeCellEdit', () => {
+    it('uses 1-based row and column', () => {
+      expect(describeCellEdit({ index: 22, digit: '7' })).toBe('R3C5 = 7');
+      expect(describeCellEdit({ index: 22, digit: '0' })).toBe('R3C5 cleared');
+    });
+  });
+});
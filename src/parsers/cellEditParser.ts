@@ -0,0 +1,131 @@
+/**
+ * Cell Edit Parser - Recognize puzzle correction commands
+ * e.g. `r3c5=7`, `r3c5 empty`, `r1c1=5, r2c2=6`, `fix row 4: 0 0 3 0 0 0 7 0 0`,
+ * and moving digits between givens and the user's entries (`r3c5 given`, `r3c5 mine`)
+ */
+
+/**
+ * A single cell correction
+ */
+export interface CellEdit {
+  /** Cell index (0-80) */
+  index: number;
+  /** New digit ('0' = empty) */
+  digit: string;
+}
+
+/**
+ * Reassignment of a recognized digit between the givens and the user's entries
+ */
+export interface CellOwnershipChange {
+  /** Cell index (0-80) */
+  index: number;
+  /** True to make the digit a given, false to make it a user entry */
+  given: boolean;
+}
+
+const CELL_EDIT_PATTERN = /r([1-9])\s*c([1-9])\s*(?:=|:|\s)\s*(empty|blank|clear|[0-9.])/gi;
+const CELL_EDIT_SEPARATOR = /^(?:[\s,;]|and)*$/i;
+const CELL_OWNERSHIP_PATTERN =
+  /r([1-9])\s*c([1-9])\s*(?:=|:|\s)\s*(given|clue|printed|mine|entry|handwritten)\b/gi;
+const LINE_EDIT_PATTERN = /^fix\s+(row|col|column)\s+([1-9])\s*[:=]?\s*(.+)$/i;
+
+/**
+ * Normalize an edit value to a digit ('0' = empty)
+ */
+function toDigit(value: string): string {
+  return /^[1-9]$/.test(value) ? value : '0';
+}
+
+/**
+ * Parse `fix row N: ...` / `fix column N: ...` into cell edits
+ */
+function parseLineEdit(text: string): CellEdit[] | null {
+  const match = LINE_EDIT_PATTERN.exec(text);
+  if (!match) return null;
+
+  const isRow = match[1]!.toLowerCase() === 'row';
+  const line = parseInt(match[2]!, 10) - 1;
+  const cells = match[3]!.replace(/[\s|,]/g, '');
+  if (!/^[0-9.]{9}$/.test(cells)) return null;
+
+  return cells.split('').map((value, i) => ({
+    index: isRow ? line * 9 + i : i * 9 + line,
+    digit: toDigit(value),
+  }));
+}
+
+/**
+ * Parse a message made up entirely of cell edits
+ * @param text - Raw message text
+ * @returns The edits in message order, or null if the message is not an edit command
+ */
+export function parseCellEdits(text: string): CellEdit[] | null {
+  const trimmed = text.trim();
+
+  const lineEdits = parseLineEdit(trimmed);
+  if (lineEdits) return lineEdits;
+
+  const edits: CellEdit[] = [];
+  let remainder = trimmed;
+
+  for (const match of trimmed.matchAll(CELL_EDIT_PATTERN)) {
+    const row = parseInt(match[1]!, 10) - 1;
+    const col = parseInt(match[2]!, 10) - 1;
+    edits.push({ index: row * 9 + col, digit: toDigit(match[3]!.toLowerCase()) });
+    remainder = remainder.replace(match[0], '');
+  }
+
+  if (edits.length === 0 || !CELL_EDIT_SEPARATOR.test(remainder)) {
+    return null;
+  }
+
+  return edits;
+}
+
+/**
+ * Parse a message made up entirely of given/entry reassignments
+ * @param text - Raw message text
+ * @returns The changes in message order, or null if the message is not a reassignment command
+ */
+export function parseCellOwnership(text: string): CellOwnershipChange[] | null {
+  const trimmed = text.trim();
+  const changes: CellOwnershipChange[] = [];
+  let remainder = trimmed;
+
+  for (const match of trimmed.matchAll(CELL_OWNERSHIP_PATTERN)) {
+    const row = parseInt(match[1]!, 10) - 1;
+    const col = parseInt(match[2]!, 10) - 1;
+    const kind = match[3]!.toLowerCase();
+    changes.push({
+      index: row * 9 + col,
+      given: kind === 'given' || kind === 'clue' || kind === 'printed',
+    });
+    remainder = remainder.replace(match[0], '');
+  }
+
+  if (changes.length === 0 || !CELL_EDIT_SEPARATOR.test(remainder)) {
+    return null;
+  }
+
+  return changes;
+}
+
+/**
+ * Apply cell edits to an 81-char puzzle string
+ */
+export function applyCellEdits(puzzle: string, edits: CellEdit[]): string {
+  const cells = puzzle.split('');
+  for (const edit of edits) {
+    cells[edit.index] = edit.digit;
+  }
+  return cells.join('');
+}
+
+/**
+ * Describe a cell edit for the user (e.g. "R3C5 = 7", "R3C5 cleared")
+ */
+export function describeCellEdit(edit: CellEdit): string {
+  const cell = `R${Math.floor(edit.index / 9) + 1}C${(edit.index % 9) + 1}`;
+  return edit.digit === '0' ? `${cell} cleared` : `${cell} = ${edit.digit}`;
+}
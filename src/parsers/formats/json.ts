@@ -0,0 +1,95 @@
+/**
+ * JSON puzzle format
+ *
+ * Accepts a puzzle string, a puzzle object, a Sudojo solver board (`{ board: { original,
+ * user, pencilmark } }`), an array of any of these, or `{ puzzles: [...] }`.
+ * Puzzle objects use `original` (or `puzzle`/`givens`), with optional `user`,
+ * `pencilmarks` and `name`/`title`. Puzzles whose grids or pencilmarks are malformed are
+ * left out.
+ */
+
+import { isValidPencilmarks, parsePuzzleText } from '../textParser.js';
+import type { ParsedPuzzle } from '../puzzleFileParser.js';
+
+/**
+ * Read the first string property found under any of the given keys
+ */
+function readString(record: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Convert one JSON value into puzzles
+ */
+function toPuzzles(value: unknown): ParsedPuzzle[] {
+  if (typeof value === 'string') {
+    const original = parsePuzzleText(value);
+    return original ? [{ original, user: '0'.repeat(81) }] : [];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap(toPuzzles);
+  }
+
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+
+  const record = value as Record<string, unknown>;
+
+  if (Array.isArray(record['puzzles'])) {
+    return toPuzzles(record['puzzles']);
+  }
+
+  const { board, ...rest } = record;
+  if (board && typeof board === 'object') {
+    return toPuzzles({ ...rest, ...(board as Record<string, unknown>) });
+  }
+
+  const originalText = readString(record, ['original', 'puzzle', 'givens']);
+  const original = originalText ? parsePuzzleText(originalText) : null;
+  if (!original) {
+    return [];
+  }
+
+  const userText = readString(record, ['user', 'progress']);
+  const user = (userText && parsePuzzleText(userText)) || '0'.repeat(81);
+
+  // Pencilmarks may be a plain string or a solver pencilmark object
+  const pencilmark = record['pencilmark'];
+  const pencilmarks =
+    readString(record, ['pencilmarks']) ??
+    (pencilmark && typeof pencilmark === 'object'
+      ? readString(pencilmark as Record<string, unknown>, ['numbers'])
+      : undefined);
+  if (pencilmarks && !isValidPencilmarks(pencilmarks, original, user)) {
+    return [];
+  }
+
+  return [
+    {
+      name: readString(record, ['name', 'title']),
+      original,
+      user,
+      pencilmarks: pencilmarks || undefined,
+    },
+  ];
+}
+
+/**
+ * Parse a JSON puzzle file
+ * @returns All puzzles in the file, or an empty array if the JSON is invalid
+ */
+export function parseJsonPuzzles(content: string): ParsedPuzzle[] {
+  try {
+    return toPuzzles(JSON.parse(content));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * OpenSudoku XML format
+ *
+ * Puzzles are `<game data="..."/>` elements, optionally grouped in `<folder name="...">`.
+ * The data is either a plain 81-char puzzle (import files) or a serialized cell
+ * collection (`version: N` followed by `value|note|editable|` per cell) that also
+ * carries the player's entries and notes.
+ */
+
+import { isValidPencilmarks, parsePuzzleText } from '../textParser.js';
+import type { ParsedPuzzle } from '../puzzleFileParser.js';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decode XML character and named entities
+ */
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith('#')) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+/**
+ * Read an attribute value from an element's attribute text
+ */
+function readAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(attributes);
+  if (!match) return undefined;
+  return decodeXml(match[2] ?? match[3] ?? '');
+}
+
+/**
+ * Decode an OpenSudoku note into its candidate digits.
+ * Version 1 stores a comma-separated list, later versions a bitmask (bit 0 = digit 1).
+ */
+function decodeNote(note: string, version: number): string {
+  if (note === '' || note === '0' || note === '-') {
+    return '';
+  }
+
+  if (version === 1 || note.includes(',')) {
+    return note.replace(/[^1-9]/g, '');
+  }
+
+  const mask = parseInt(note, 10);
+  let digits = '';
+  for (let digit = 1; digit <= 9; digit++) {
+    if (mask & (1 << (digit - 1))) {
+      digits += digit;
+    }
+  }
+  return digits;
+}
+
+/**
+ * Decode a game's data attribute into a puzzle
+ */
+function decodeGameData(data: string): Omit<ParsedPuzzle, 'name'> | null {
+  const versioned = /^version:\s*(\d+)\s*([\s\S]*)$/.exec(data.trim());
+  if (!versioned) {
+    const original = parsePuzzleText(data);
+    return original ? { original, user: '0'.repeat(81) } : null;
+  }
+
+  const version = parseInt(versioned[1]!, 10);
+  const tokens = versioned[2]!.trim().split('|');
+  if (tokens.length < 81 * 3) {
+    return null;
+  }
+
+  let original = '';
+  let user = '';
+  const notes: string[] = [];
+
+  for (let i = 0; i < 81; i++) {
+    const value = tokens[i * 3]!.trim();
+    const note = tokens[i * 3 + 1]!.trim();
+    const editable = tokens[i * 3 + 2]!.trim() !== '0';
+    const digit = /^[1-9]$/.test(value) ? value : '0';
+
+    original += editable ? '0' : digit;
+    user += editable ? digit : '0';
+    notes.push(digit === '0' ? decodeNote(note, version) : '');
+  }
+
+  const pencilmarks = notes.some(n => n !== '') ? notes.join(',') : undefined;
+  if (pencilmarks && !isValidPencilmarks(pencilmarks, original, user)) {
+    return null;
+  }
+
+  return { original, user, pencilmarks };
+}
+
+/**
+ * Parse an OpenSudoku XML file
+ * @returns All puzzles in the file, in document order
+ */
+export function parseOpenSudoku(content: string): ParsedPuzzle[] {
+  const puzzles: ParsedPuzzle[] = [];
+  const collectionName = /<name>([^<]*)<\/name>/.exec(content)?.[1];
+  const tagPattern = /<(folder|game)\b([^>]*)>/g;
+  let folderName = collectionName ? decodeXml(collectionName).trim() : undefined;
+  let folderIndex = 0;
+
+  for (const match of content.matchAll(tagPattern)) {
+    const [, tag, attributes = ''] = match;
+
+    if (tag === 'folder') {
+      folderName = readAttribute(attributes, 'name');
+      folderIndex = 0;
+      continue;
+    }
+
+    folderIndex++;
+    const data = readAttribute(attributes, 'data');
+    const puzzle = data ? decodeGameData(data) : null;
+    if (puzzle) {
+      puzzles.push({
+        ...puzzle,
+        name: folderName ? `${folderName} #${folderIndex}` : undefined,
+      });
+    }
+  }
+
+  return puzzles;
+}
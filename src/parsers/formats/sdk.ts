@@ -0,0 +1,52 @@
+/**
+ * SadMan Software Sudoku (.sdk) format
+ *
+ * Optional `#X` metadata lines followed by nine rows of nine cells ('.' = empty).
+ * Saved games split the file into `[Puzzle]` and `[State]` sections, where the
+ * state holds the board including the solver's own entries.
+ */
+
+import { parsePuzzleText } from '../textParser.js';
+import { extractUserEntries, type ParsedPuzzle } from '../puzzleFileParser.js';
+
+/**
+ * Parse a .sdk file
+ * @returns The puzzle in the file, or an empty array if none was found
+ */
+export function parseSdk(content: string): ParsedPuzzle[] {
+  const sections: Record<string, string[]> = { puzzle: [] };
+  let section = 'puzzle';
+  let name: string | undefined;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const header = /^\[(\w+)\]$/.exec(line);
+
+    if (header) {
+      section = header[1]!.toLowerCase();
+      sections[section] = sections[section] ?? [];
+    } else if (line.startsWith('#')) {
+      // #D = description
+      if (line.startsWith('#D')) {
+        name = line.slice(2).trim() || undefined;
+      }
+    } else if (line !== '') {
+      sections[section]!.push(line);
+    }
+  }
+
+  const original = parsePuzzleText(sections['puzzle']!.join(''));
+  if (!original) {
+    return [];
+  }
+
+  const state = sections['state'] ? parsePuzzleText(sections['state'].join('')) : null;
+
+  return [
+    {
+      name,
+      original,
+      user: state ? extractUserEntries(original, state) : '0'.repeat(81),
+    },
+  ];
+}
@@ -0,0 +1,25 @@
+/**
+ * Multi-puzzle collection (.sdm) format
+ *
+ * One 81-char puzzle per line ('0' or '.' = empty).
+ */
+
+import { parsePuzzleText } from '../textParser.js';
+import type { ParsedPuzzle } from '../puzzleFileParser.js';
+
+/**
+ * Parse a .sdm file, skipping lines that are not puzzles
+ * @returns All puzzles in the file, in order
+ */
+export function parseSdm(content: string): ParsedPuzzle[] {
+  const puzzles: ParsedPuzzle[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const original = parsePuzzleText(line);
+    if (original) {
+      puzzles.push({ original, user: '0'.repeat(81) });
+    }
+  }
+
+  return puzzles;
+}
@@ -0,0 +1,17 @@
+/**
+ * Simple Sudoku (.ss) format
+ *
+ * Nine rows of `...|.7.|...` separated by `-----------` lines ('.' = empty).
+ */
+
+import { parsePuzzleText } from '../textParser.js';
+import type { ParsedPuzzle } from '../puzzleFileParser.js';
+
+/**
+ * Parse a .ss file
+ * @returns The puzzle in the file, or an empty array if none was found
+ */
+export function parseSs(content: string): ParsedPuzzle[] {
+  const original = parsePuzzleText(content);
+  return original ? [{ original, user: '0'.repeat(81) }] : [];
+}
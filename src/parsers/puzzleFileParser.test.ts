@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'bun:test';
+import { detectPuzzleFormat, parsePuzzleFile, extractUserEntries } from './puzzleFileParser.js';
+
+describe('puzzleFileParser', () => {
+  const puzzle =
+    '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+  const empty = '0'.repeat(81);
+
+  /** Format a puzzle as nine rows, using '.' for empty cells */
+  const toRows = (value: string): string[] => {
+    const rows: string[] = [];
+    for (let row = 0; row < 9; row++) {
+      rows.push(value.slice(row * 9, row * 9 + 9).replace(/0/g, '.'));
+    }
+    return rows;
+  };
+
+  describe('detectPuzzleFormat', () => {
+    it('detects format from file extension', () => {
+      expect(detectPuzzleFormat('puzzle.sdk', '')).toBe('sdk');
+      expect(detectPuzzleFormat('puzzle.SS', '')).toBe('ss');
+      expect(detectPuzzleFormat('book.sdm', '')).toBe('sdm');
+      expect(detectPuzzleFormat('easy.opensudoku', '')).toBe('opensudoku');
+      expect(detectPuzzleFormat('puzzles.json', '')).toBe('json');
+    });
+
+    it('falls back to content sniffing', () => {
+      expect(detectPuzzleFormat('', '<opensudoku></opensudoku>')).toBe('opensudoku');
+      expect(detectPuzzleFormat('', '{"puzzle": ""}')).toBe('json');
+      expect(detectPuzzleFormat('', '#A Author\n...')).toBe('sdk');
+      expect(detectPuzzleFormat('', `${puzzle}\n${puzzle}\n`)).toBe('sdm');
+      expect(detectPuzzleFormat('', toRows(puzzle).join('\n'))).toBe('ss');
+    });
+  });
+
+  describe('sdk', () => {
+    it('parses metadata and grid', () => {
+      const content = ['#AJohn', '#DDaily puzzle', ...toRows(puzzle)].join('\r\n');
+      const file = parsePuzzleFile('daily.sdk', content);
+
+      expect(file.format).toBe('sdk');
+      expect(file.puzzles).toHaveLength(1);
+      expect(file.puzzles[0]?.name).toBe('Daily puzzle');
+      expect(file.puzzles[0]?.original).toBe(puzzle);
+      expect(file.puzzles[0]?.user).toBe(empty);
+    });
+
+    it('extracts user progress from the [State] section', () => {
+      const state = `534${puzzle.slice(3)}`;
+      const content = ['[Puzzle]', ...toRows(puzzle), '[State]', ...toRows(state)].join('\n');
+      const file = parsePuzzleFile('saved.sdk', content);
+
+      expect(file.puzzles[0]?.original).toBe(puzzle);
+      expect(file.puzzles[0]?.user).toBe(`004${empty.slice(3)}`);
+    });
+  });
+
+  describe('ss', () => {
+    it('parses a Simple Sudoku grid', () => {
+      const rows = toRows(puzzle).map(r => `${r.slice(0, 3)}|${r.slice(3, 6)}|${r.slice(6)}`);
+      rows.splice(6, 0, '-----------');
+      rows.splice(3, 0, '-----------');
+      const file = parsePuzzleFile('puzzle.ss', rows.join('\n'));
+
+      expect(file.puzzles).toHaveLength(1);
+      expect(file.puzzles[0]?.original).toBe(puzzle);
+    });
+  });
+
+  describe('sdm', () => {
+    it('parses one puzzle per line and skips other lines', () => {
+      const other = `${puzzle.slice(0, 80)}1`;
+      const file = parsePuzzleFile('book.sdm', `${puzzle}\n\nnot a puzzle\n${other}\n`);
+
+      expect(file.puzzles.map(p => p.original)).toEqual([puzzle, other]);
+    });
+  });
+
+  describe('opensudoku', () => {
+    it('parses plain game data grouped by folder', () => {
+      const content = `<?xml version="1.0" encoding="UTF-8"?>
+<opensudoku serializer="version2">
+  <folder name="Easy" created="0">
+    <game data="${puzzle}" />
+    <game data="${puzzle}" />
+  </folder>
+</opensudoku>`;
+      const file = parsePuzzleFile('easy.opensudoku', content);
+
+      expect(file.puzzles).toHaveLength(2);
+      expect(file.puzzles[1]?.name).toBe('Easy #2');
+      expect(file.puzzles[1]?.original).toBe(puzzle);
+    });
+
+    it('parses serialized cell collections with progress and notes', () => {
+      const cells: string[] = [];
+      for (let i = 0; i < 81; i++) {
+        const given = puzzle[i]!;
+        if (given !== '0') {
+          cells.push(`${given}|0|0|`);
+        } else if (i === 2) {
+          cells.push('4|0|1|'); // user entry
+        } else if (i === 3) {
+          cells.push('0|2,6,|1|'); // notes
+        } else {
+          cells.push('0|0|1|');
+        }
+      }
+      const data = `version: 1&#10;${cells.join('')}`;
+      const file = parsePuzzleFile(
+        'saved.opensudoku',
+        `<opensudoku><game data="${data}"/></opensudoku>`
+      );
+      const parsed = file.puzzles[0];
+
+      expect(parsed?.original).toBe(puzzle);
+      expect(parsed?.user).toBe(`004${empty.slice(3)}`);
+      expect(parsed?.pencilmarks?.split(',')[3]).toBe('26');
+      expect(parsed?.pencilmarks?.split(',')).toHaveLength(81);
+    });
+
+    it('leaves out games whose notes repeat a digit', () => {
+      const cells = puzzle
+        .split('')
+        .map((given, i) => (given !== '0' ? `${given}|0|0|` : i === 2 ? '0|2,2,|1|' : '0|0|1|'));
+      const data = `version: 1&#10;${cells.join('')}`;
+      const file = parsePuzzleFile(
+        'saved.opensudoku',
+        `<opensudoku><game data="${data}"/></opensudoku>`
+      );
+
+      expect(file.puzzles).toEqual([]);
+    });
+  });
+
+  describe('json', () => {
+    it('parses a list of puzzle strings', () => {
+      const file = parsePuzzleFile('list.json', JSON.stringify([puzzle, puzzle]));
+      expect(file.puzzles).toHaveLength(2);
+    });
+
+    it('parses puzzle objects with progress and pencilmarks', () => {
+      const pencilmarks = `,,,26${','.repeat(77)}`;
+      const content = JSON.stringify({
+        puzzles: [{ title: 'Mine', puzzle, user: `004${empty.slice(3)}`, pencilmarks }],
+      });
+      const parsed = parsePuzzleFile('mine.json', content).puzzles[0];
+
+      expect(parsed?.name).toBe('Mine');
+      expect(parsed?.original).toBe(puzzle);
+      expect(parsed?.user).toBe(`004${empty.slice(3)}`);
+      expect(parsed?.pencilmarks).toBe(pencilmarks);
+    });
+
+    it('parses a solver board', () => {
+      const numbers = `,,9${','.repeat(78)}`;
+      const content = JSON.stringify({
+        board: { original: puzzle, user: empty, pencilmark: { autopencil: false, numbers } },
+      });
+      const parsed = parsePuzzleFile('board.json', content).puzzles[0];
+
+      expect(parsed?.original).toBe(puzzle);
+      expect(parsed?.pencilmarks).toBe(numbers);
+    });
+
+    it('leaves out puzzles with malformed pencilmarks', () => {
+      const content = JSON.stringify([
+        { puzzle, pencilmarks: '1,2' },
+        { puzzle, pencilmarks: `5${','.repeat(80)}` },
+        { puzzle, pencilmarks: `,,,2x${','.repeat(77)}` },
+      ]);
+
+      expect(parsePuzzleFile('bad.json', content).puzzles).toEqual([]);
+    });
+
+    it('returns no puzzles for invalid JSON', () => {
+      expect(parsePuzzleFile('broken.json', '{').puzzles).toEqual([]);
+    });
+  });
+
+  describe('extractUserEntries', () => {
+    it('keeps only cells that are empty in the original', () => {
+      const board = `534${puzzle.slice(3)}`;
+      expect(extractUserEntries(puzzle, board)).toBe(`004${empty.slice(3)}`);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Puzzle File Parser - Detect and parse standard Sudoku file formats
+ * Supports SadMan (.sdk), Simple Sudoku (.ss), multi-puzzle (.sdm), OpenSudoku XML and JSON
+ */
+
+import { parseSdk } from './formats/sdk.js';
+import { parseSs } from './formats/ss.js';
+import { parseSdm } from './formats/sdm.js';
+import { parseOpenSudoku } from './formats/openSudoku.js';
+import { parseJsonPuzzles } from './formats/json.js';
+
+export type PuzzleFileFormat = 'sdk' | 'ss' | 'sdm' | 'opensudoku' | 'json';
+
+/**
+ * A single puzzle extracted from a file
+ */
+export interface ParsedPuzzle {
+  /** Display name from file metadata, if any */
+  name?: string;
+  /** Givens (81 chars, 0 = empty) */
+  original: string;
+  /** User progress (81 chars, 0 = no input) */
+  user: string;
+  /** Comma-delimited pencilmarks for all 81 cells, if the format carries them */
+  pencilmarks?: string;
+}
+
+/**
+ * Result of parsing a puzzle file
+ */
+export interface PuzzleFile {
+  /** Detected file format */
+  format: PuzzleFileFormat;
+  /** Puzzles found in the file (may be empty) */
+  puzzles: ParsedPuzzle[];
+}
+
+const EXTENSION_FORMATS: Record<string, PuzzleFileFormat> = {
+  sdk: 'sdk',
+  ss: 'ss',
+  sdm: 'sdm',
+  opensudoku: 'opensudoku',
+  xml: 'opensudoku',
+  json: 'json',
+};
+
+/** File extensions recognized as puzzle files */
+export const PUZZLE_FILE_EXTENSIONS = Object.keys(EXTENSION_FORMATS);
+
+/**
+ * Get the lowercase extension of a file name (without the dot)
+ */
+export function getFileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * Detect the format of a puzzle file from its name, falling back to its content
+ * @param fileName - Attachment file name (may be empty)
+ * @param content - File content as text
+ */
+export function detectPuzzleFormat(fileName: string, content: string): PuzzleFileFormat {
+  const byExtension = EXTENSION_FORMATS[getFileExtension(fileName)];
+  if (byExtension) {
+    return byExtension;
+  }
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('<')) {
+    return 'opensudoku';
+  }
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return 'json';
+  }
+  if (trimmed.startsWith('#')) {
+    return 'sdk';
+  }
+
+  const lines = trimmed.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length > 1 && lines.every(line => line.trim().length === 81)) {
+    return 'sdm';
+  }
+
+  return 'ss';
+}
+
+/**
+ * Parse a puzzle file into its puzzles
+ * @param fileName - Attachment file name (may be empty)
+ * @param content - File content as text
+ */
+export function parsePuzzleFile(fileName: string, content: string): PuzzleFile {
+  const text = content.replace(/^\uFEFF/, '');
+  const format = detectPuzzleFormat(fileName, text);
+
+  switch (format) {
+    case 'sdk':
+      return { format, puzzles: parseSdk(text) };
+    case 'ss':
+      return { format, puzzles: parseSs(text) };
+    case 'sdm':
+      return { format, puzzles: parseSdm(text) };
+    case 'opensudoku':
+      return { format, puzzles: parseOpenSudoku(text) };
+    case 'json':
+      return { format, puzzles: parseJsonPuzzles(text) };
+  }
+}
+
+/**
+ * Split a full board into givens and user entries.
+ * Cells filled in `board` that are empty in `original` become user entries.
+ */
+export function extractUserEntries(original: string, board: string): string {
+  let user = '';
+  for (let i = 0; i < 81; i++) {
+    const digit = board[i] ?? '0';
+    user += original[i] === '0' && digit !== '0' ? digit : '0';
+  }
+  return user;
+}
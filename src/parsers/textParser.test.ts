@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'bun:test';
+import { isValidPencilmarks, parsePuzzleText } from './textParser.js';
+
+describe('textParser', () => {
+  describe('parsePuzzleText', () => {
+    const puzzle =
+      '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+
+    it('accepts a compact 81-digit string', () => {
+      expect(parsePuzzleText(puzzle)).toBe(puzzle);
+    });
+
+    it('converts dots to zeros', () => {
+      const dotted = puzzle.replace(/0/g, '.');
+      expect(parsePuzzleText(dotted)).toBe(puzzle);
+    });
+
+    it('strips whitespace, line breaks and pipes', () => {
+      const rows: string[] = [];
+      for (let row = 0; row < 9; row++) {
+        const digits = puzzle.slice(row * 9, row * 9 + 9).split('');
+        rows.push(
+          `${digits.slice(0, 3).join(' ')} | ${digits.slice(3, 6).join(' ')} | ${digits.slice(6).join(' ')}`
+        );
+      }
+      expect(parsePuzzleText(rows.join('\n'))).toBe(puzzle);
+    });
+
+    it('ignores box separator lines', () => {
+      const rows = [];
+      for (let row = 0; row < 9; row++) {
+        rows.push(puzzle.slice(row * 9, row * 9 + 9));
+        if (row === 2 || row === 5) {
+          rows.push('---+---+---');
+        }
+      }
+      expect(parsePuzzleText(rows.join('\n'))).toBe(puzzle);
+    });
+
+    it('rejects strings with the wrong number of cells', () => {
+      expect(parsePuzzleText(puzzle.slice(0, 80))).toBeNull();
+      expect(parsePuzzleText(`${puzzle}0`)).toBeNull();
+    });
+
+    it('rejects strings with other characters', () => {
+      expect(parsePuzzleText(`${puzzle.slice(0, 80)}x`)).toBeNull();
+    });
+
+    it('rejects ordinary messages', () => {
+      expect(parsePuzzleText('hint')).toBeNull();
+      expect(parsePuzzleText('')).toBeNull();
+    });
+  });
+
+  describe('isValidPencilmarks', () => {
+    const puzzle =
+      '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+    const empty = '0'.repeat(81);
+    const marks = (entries: Record<number, string>) =>
+      Array.from({ length: 81 }, (_, i) => entries[i] ?? '').join(',');
+
+    it('accepts candidates in empty cells', () => {
+      expect(isValidPencilmarks(marks({ 2: '124', 3: '26' }), puzzle, empty)).toBe(true);
+    });
+
+    it('rejects pencilmarks that do not cover the board', () => {
+      expect(isValidPencilmarks('1,2', puzzle, empty)).toBe(false);
+    });
+
+    it('rejects anything but digits 1-9, each once', () => {
+      expect(isValidPencilmarks(marks({ 2: '0' }), puzzle, empty)).toBe(false);
+      expect(isValidPencilmarks(marks({ 2: '1 2' }), puzzle, empty)).toBe(false);
+      expect(isValidPencilmarks(marks({ 2: '22' }), puzzle, empty)).toBe(false);
+    });
+
+    it('rejects candidates in given or filled cells', () => {
+      expect(isValidPencilmarks(marks({ 0: '1' }), puzzle, empty)).toBe(false);
+      expect(isValidPencilmarks(marks({ 2: '1' }), puzzle, `004${empty.slice(3)}`)).toBe(false);
+    });
+  });
+});
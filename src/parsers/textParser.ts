@@ -0,0 +1,44 @@
+/**
+ * Text Parser - Recognize Sudoku puzzles pasted as plain text
+ */
+
+/** Characters that only format a grid and carry no cell data */
+const SEPARATOR_PATTERN = /[\s|+-]/g;
+
+/**
+ * Recognize a Sudoku puzzle in a pasted text message.
+ * Accepts 81 cells of digits, with '0' or '.' for empty cells. Whitespace, line breaks,
+ * pipes and box-drawing dashes/pluses are ignored, so both compact strings
+ * (`530070000600...`) and formatted grids (`5 3 . | . 7 . | ...`) are recognized.
+ * @param text - Raw message text
+ * @returns Normalized 81-char puzzle string ('0' = empty), or null if the text is not a puzzle
+ */
+export function parsePuzzleText(text: string): string | null {
+  const cells = text.replace(SEPARATOR_PATTERN, '');
+
+  if (cells.length !== 81 || !/^[0-9.]+$/.test(cells)) {
+    return null;
+  }
+
+  return cells.replace(/\./g, '0');
+}
+
+/**
+ * Check comma-delimited pencilmarks against the board they belong to: 81 entries of
+ * digits 1-9, each digit at most once, with candidates only in cells that are still empty.
+ * @param pencilmarks - Pencilmarks for all 81 cells (e.g. "123,,45,...")
+ * @param original - Givens (81 chars, 0 = empty)
+ * @param user - User entries (81 chars, 0 = no input)
+ */
+export function isValidPencilmarks(pencilmarks: string, original: string, user: string): boolean {
+  const entries = pencilmarks.split(',');
+  if (entries.length !== 81) {
+    return false;
+  }
+
+  return entries.every((entry, i) => {
+    if (entry === '') return true;
+    const filled = original[i] !== '0' || user[i] !== '0';
+    return !filled && /^[1-9]+$/.test(entry) && new Set(entry).size === entry.length;
+  });
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'bun:test';
+import { checkBoard, clearCells, describeBoardCheck, mistakeHighlight } from './boardCheck.js';
+
+describe('boardCheck', () => {
+  const original =
+    '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+  const solution =
+    '534678912672195348198342567859761423426853791713924856961537284287419635345286179';
+  const empty = '0'.repeat(81);
+
+  /** Set cells of a board string */
+  const withCells = (board: string, cells: Record<number, string>): string =>
+    board
+      .split('')
+      .map((c, i) => cells[i] ?? c)
+      .join('');
+
+  describe('checkBoard', () => {
+    it('finds entries that contradict the solution', () => {
+      const user = withCells(empty, { 2: '4', 3: '9', 5: '1' });
+
+      expect(checkBoard({ original, user, solution })).toEqual({ entries: 3, mistakes: [3, 5] });
+    });
+
+    it('ignores digits in given cells', () => {
+      const user = withCells(empty, { 0: '9' });
+
+      expect(checkBoard({ original, user, solution })).toEqual({ entries: 0, mistakes: [] });
+    });
+  });
+
+  describe('describeBoardCheck', () => {
+    it('reports the count without the cells', () => {
+      expect(describeBoardCheck({ entries: 14, mistakes: [3, 5] })).toBe(
+        "2 of your 14 entries don't match the solution."
+      );
+      expect(describeBoardCheck({ entries: 1, mistakes: [3] })).toBe(
+        "1 of your 1 entry doesn't match the solution."
+      );
+    });
+
+    it('reports a clean board', () => {
+      expect(describeBoardCheck({ entries: 3, mistakes: [] })).toBe(
+        'No mistakes so far: all 3 entries match the solution.'
+      );
+      expect(describeBoardCheck({ entries: 0, mistakes: [] })).toBe(
+        "You haven't filled in any cells yet."
+      );
+    });
+  });
+
+  describe('clearCells', () => {
+    it('empties only the given cells', () => {
+      const user = withCells(empty, { 2: '4', 3: '9' });
+
+      expect(clearCells(user, [3])).toBe(withCells(empty, { 2: '4' }));
+    });
+  });
+
+  describe('mistakeHighlight', () => {
+    it('fills the cells in red without any digits', () => {
+      const step = mistakeHighlight([10]);
+
+      expect(step.cells).toEqual([
+        {
+          row: 1,
+          column: 1,
+          color: 'red',
+          fill: true,
+          actions: { select: '', unselect: '', add: '', remove: '', highlight: '' },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Board Check helpers
+ * Compares the user's entries with the known solution, so mistakes can be counted,
+ * shown and cleared
+ */
+
+import type { SolverHintStep } from '@sudobility/sudojo_types';
+import type { PuzzleState } from '../state/conversationState.js';
+
+/**
+ * Result of checking the user's entries against the solution
+ */
+export interface BoardCheck {
+  /** Number of cells the user has filled in */
+  entries: number;
+  /** User entries that contradict the solution */
+  mistakes: number[];
+}
+
+/**
+ * Check every user entry against the solution
+ * @param puzzle - Puzzle with a known solution
+ */
+export function checkBoard(
+  puzzle: Pick<PuzzleState, 'original' | 'user'> & { solution: string }
+): BoardCheck {
+  let entries = 0;
+  const mistakes: number[] = [];
+
+  for (let i = 0; i < 81; i++) {
+    const digit = puzzle.user[i] ?? '0';
+    if (puzzle.original[i] !== '0' || digit === '0' || digit === '.') continue;
+    entries++;
+    if (puzzle.solution[i] !== digit) mistakes.push(i);
+  }
+
+  return { entries, mistakes };
+}
+
+/**
+ * Describe a check without saying which entries are wrong
+ * (e.g. "2 of your 14 entries don't match the solution.")
+ */
+export function describeBoardCheck(check: BoardCheck): string {
+  if (check.entries === 0) {
+    return "You haven't filled in any cells yet.";
+  }
+
+  const entries = `${check.entries} ${check.entries === 1 ? 'entry' : 'entries'}`;
+  const count = check.mistakes.length;
+  if (count === 0) {
+    return `No mistakes so far: all ${entries} match the solution.`;
+  }
+  if (count === 1) {
+    return `1 of your ${entries} doesn't match the solution.`;
+  }
+  return `${count} of your ${entries} don't match the solution.`;
+}
+
+/**
+ * Empty the given cells of the user's entries
+ * @param user - User entries (81 chars, 0 = no input)
+ */
+export function clearCells(user: string, cells: number[]): string {
+  const clear = new Set(cells);
+  return [...user].map((digit, i) => (clear.has(i) ? '0' : digit)).join('');
+}
+
+/**
+ * A hint step that fills the given cells in red, for drawing with the board renderer
+ */
+export function mistakeHighlight(cells: number[]): SolverHintStep {
+  return {
+    title: 'Mistakes',
+    text: '',
+    areas: [],
+    cells: cells.map(index => ({
+      row: Math.floor(index / 9),
+      column: index % 9,
+      color: 'red',
+      fill: true,
+      actions: { select: '', unselect: '', add: '', remove: '', highlight: '' },
+    })),
+  };
+}
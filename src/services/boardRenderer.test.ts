@@ -68,6 +68,35 @@ describe('BoardRenderer', () => {
       expect(result.buffer).toBeInstanceOf(Buffer);
       expect(result.buffer.length).toBeGreaterThan(0);
     });
+
+    it('renders flagged cells differently from an unflagged board', () => {
+      const renderer = new BoardRenderer(450);
+      const plain = renderer.render(original, user);
+      const flagged = renderer.render(original, user, { flaggedCells: [0, 40] });
+
+      expect(flagged.buffer.length).toBeGreaterThan(0);
+      expect(flagged.buffer.equals(plain.buffer)).toBe(false);
+    });
+
+    it("draws the user's own pencilmarks in empty cells", () => {
+      const renderer = new BoardRenderer(450);
+      const plain = renderer.render(original, user);
+      const pencilmarks = ['', '', '124', ...new Array(78).fill('')].join(',');
+      const marked = renderer.render(original, user, { pencilmarks });
+
+      expect(marked.buffer.equals(plain.buffer)).toBe(false);
+    });
+
+    it('draws every candidate instead of the user pencilmarks in autopencil mode', () => {
+      const renderer = new BoardRenderer(450);
+      const plain = renderer.render(original, user);
+      const pencilmarks = ['', '', '124', ...new Array(78).fill('')].join(',');
+      const auto = renderer.render(original, user, { autoPencilmarks: true });
+      const autoWithMarks = renderer.render(original, user, { autoPencilmarks: true, pencilmarks });
+
+      expect(auto.buffer.equals(plain.buffer)).toBe(false);
+      expect(autoWithMarks.buffer.equals(auto.buffer)).toBe(true);
+    });
   });
 
   describe('createBoardRenderer', () => {
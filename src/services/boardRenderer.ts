@@ -134,6 +134,48 @@ function parseDigitString(str: string): number[] {
     .filter(n => !isNaN(n) && n >= 1 && n <= 9);
 }
 
+/**
+ * Parse a comma-delimited pencilmark string (e.g. "123,,45,...") into digits per cell
+ * @returns Array of 81 digit lists (empty list = no candidates)
+ */
+function parsePencilmarks(pencilmarks: string | undefined): number[][] {
+  const entries = pencilmarks ? pencilmarks.split(',') : [];
+  const cells: number[][] = [];
+  for (let i = 0; i < 81; i++) {
+    const entry = entries[i] || '';
+    cells.push(
+      entry
+        .split('')
+        .map(c => parseInt(c, 10))
+        .filter(n => !isNaN(n) && n >= 1 && n <= 9)
+    );
+  }
+  return cells;
+}
+
+/**
+ * Work out every candidate of each empty cell from the digits on the board
+ * @returns Array of 81 digit lists (empty list = filled cell)
+ */
+function computeCandidates(givenCells: number[], userCells: number[]): number[][] {
+  const board = givenCells.map((given, i) => given || userCells[i] || 0);
+  const candidates: number[][] = [];
+  for (let i = 0; i < 81; i++) {
+    if (board[i]) {
+      candidates.push([]);
+      continue;
+    }
+    const used = new Set<number>();
+    for (let j = 0; j < 81; j++) {
+      if (rowOf(j) === rowOf(i) || columnOf(j) === columnOf(i) || blockOf(j) === blockOf(i)) {
+        used.add(board[j]!);
+      }
+    }
+    candidates.push([1, 2, 3, 4, 5, 6, 7, 8, 9].filter(digit => !used.has(digit)));
+  }
+  return candidates;
+}
+
 /**
  * Add alpha to hex color
  */
@@ -174,6 +216,12 @@ export interface RenderOptions {
   hintStep?: SolverHintStep;
   /** Selected cell index (0-80) */
   selectedIndex?: number;
+  /** Cell indices (0-80) to outline for review, e.g. low-confidence OCR cells */
+  flaggedCells?: number[];
+  /** The user's own candidates, comma-delimited for all 81 cells (e.g. "123,,45,...") */
+  pencilmarks?: string;
+  /** Draw every candidate of each empty cell instead of the user's own pencilmarks */
+  autoPencilmarks?: boolean;
 }
 
 export interface RenderResult {
@@ -214,6 +262,9 @@ export class BoardRenderer {
 
     const givenCells = parsePuzzle(original);
     const userCells = parsePuzzle(user);
+    const userPencilmarks = options.autoPencilmarks
+      ? computeCandidates(givenCells, userCells)
+      : parsePencilmarks(options.pencilmarks);
 
     // Build hint cell map
     const hintCells = this.buildHintCellMap(options.hintStep);
@@ -226,7 +277,15 @@ export class BoardRenderer {
     this.drawCellBackgrounds(ctx, cellSize, palette, hintCells, options.selectedIndex);
 
     // 3. Draw cell contents (digits)
-    this.drawCellContents(ctx, cellSize, palette, givenCells, userCells, hintCells);
+    this.drawCellContents(
+      ctx,
+      cellSize,
+      palette,
+      givenCells,
+      userCells,
+      userPencilmarks,
+      hintCells
+    );
 
     // 4. Draw grid lines
     this.drawGridLines(ctx, size, cellSize, boxSize, palette);
@@ -241,6 +300,11 @@ export class BoardRenderer {
       this.drawHintLinks(ctx, cellSize, palette, options.hintStep.links, givenCells, userCells);
     }
 
+    // 7. Outline flagged cells
+    if (options.flaggedCells && options.flaggedCells.length > 0) {
+      this.drawFlaggedCells(ctx, cellSize, palette, options.flaggedCells);
+    }
+
     return {
       buffer: canvas.toBuffer('image/png'),
       width: size,
@@ -402,6 +466,7 @@ export class BoardRenderer {
     palette: ColorPalette,
     givenCells: number[],
     userCells: number[],
+    userPencilmarks: number[][],
     hintCells: Map<number, CellHintState>
   ): void {
     ctx.textAlign = 'center';
@@ -449,13 +514,16 @@ export class BoardRenderer {
         continue;
       }
 
-      // Pencilmarks from hint actions
-      if (hintCell) {
-        const pencilmarks = this.collectPencilmarks(hintCell);
-        if (pencilmarks.length > 0) {
-          this.drawPencilmarks(ctx, col * cellSize, row * cellSize, cellSize, palette, pencilmarks);
+      // Pencilmarks from hint actions, on top of the user's own candidates
+      const pencilmarks = hintCell ? this.collectPencilmarks(hintCell) : [];
+      for (const digit of userPencilmarks[i] ?? []) {
+        if (!pencilmarks.some(pm => pm.digit === digit)) {
+          pencilmarks.push({ digit, color: 'user' });
         }
       }
+      if (pencilmarks.length > 0) {
+        this.drawPencilmarks(ctx, col * cellSize, row * cellSize, cellSize, palette, pencilmarks);
+      }
     }
   }
 
@@ -570,6 +638,30 @@ export class BoardRenderer {
     }
   }
 
+  /**
+   * Draw dashed warning outlines around flagged cells
+   */
+  private drawFlaggedCells(
+    ctx: SKRSContext2D,
+    cellSize: number,
+    palette: ColorPalette,
+    cells: number[]
+  ): void {
+    ctx.strokeStyle = palette.warning;
+    ctx.lineWidth = 3;
+    ctx.setLineDash([6, 4]);
+
+    for (const idx of cells) {
+      const x = columnOf(idx) * cellSize;
+      const y = rowOf(idx) * cellSize;
+      ctx.fillStyle = withAlpha(palette.warningSecondary, 0.25);
+      ctx.fillRect(x + 3, y + 3, cellSize - 6, cellSize - 6);
+      ctx.strokeRect(x + 3, y + 3, cellSize - 6, cellSize - 6);
+    }
+
+    ctx.setLineDash([]);
+  }
+
   /**
    * Draw hint groups (for pattern visualization like ALS)
    */
@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'bun:test';
+import { createCanvas, loadImage, type Canvas } from '@napi-rs/canvas';
+import {
+  classifyHandwriting,
+  cropImage,
+  digitChoices,
+  enclosingRect,
+  findCellInk,
+  pencilmarkDigits,
+  scoreCell,
+  type InkStyle,
+} from './cellReader.js';
+import { gridCellRects, greyLevels, otsuThreshold, type Pixels } from './gridRectifier.js';
+
+const SIZE = 900;
+const cells = gridCellRects(SIZE);
+
+/**
+ * A straightened grid with a printed digit in the first cell, a dot in the second, a
+ * digit in blue pen in the third and pencilmarks in the fourth
+ */
+function drawGrid(): Canvas {
+  const canvas = createCanvas(SIZE, SIZE);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, SIZE, SIZE);
+
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = 3;
+  const first = cells[0]!;
+  const last = cells[80]!;
+  for (let i = 0; i <= 9; i++) {
+    const offset = first.x + i * first.width;
+    ctx.beginPath();
+    ctx.moveTo(offset, first.y);
+    ctx.lineTo(offset, last.y + last.height);
+    ctx.moveTo(first.x, offset);
+    ctx.lineTo(last.x + last.width, offset);
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = '#000000';
+  ctx.font = '60px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText('7', first.x + first.width / 2, first.y + first.height / 2);
+  ctx.fillRect(cells[1]!.x + 40, cells[1]!.y + 40, 3, 3);
+
+  ctx.strokeStyle = '#1d4ed8';
+  ctx.lineWidth = 2;
+  ctx.strokeText('4', cells[2]!.x + cells[2]!.width / 2, cells[2]!.y + cells[2]!.height / 2);
+
+  // Candidates 1, 5 and 9 in their usual corners
+  ctx.font = '20px sans-serif';
+  const marked = cells[3]!;
+  ctx.fillText('1', marked.x + marked.width * 0.25, marked.y + marked.height * 0.25);
+  ctx.fillText('5', marked.x + marked.width * 0.5, marked.y + marked.height * 0.5);
+  ctx.fillText('9', marked.x + marked.width * 0.75, marked.y + marked.height * 0.75);
+  return canvas;
+}
+
+function pixelsOf(canvas: Canvas): Pixels {
+  return canvas.getContext('2d').getImageData(0, 0, canvas.width, canvas.height);
+}
+
+describe('findCellInk', () => {
+  const pixels = pixelsOf(drawGrid());
+  const threshold = otsuThreshold(greyLevels(pixels));
+
+  it('finds the digit in a cell', () => {
+    const { digit } = findCellInk(pixels, cells[0]!, threshold);
+
+    expect(digit).toBeDefined();
+    expect(digit!.height).toBeGreaterThan(cells[0]!.height * 0.35);
+    expect(digit!.x).toBeGreaterThan(cells[0]!.x);
+    expect(digit!.x + digit!.width).toBeLessThan(cells[0]!.x + cells[0]!.width);
+  });
+
+  it('measures how the digit is written', () => {
+    const printed = findCellInk(pixels, cells[0]!, threshold).style!;
+    const pen = findCellInk(pixels, cells[2]!, threshold).style!;
+
+    expect(printed.saturation).toBeLessThan(0.05);
+    expect(pen.saturation).toBeGreaterThan(0.3);
+    expect(pen.strokeWidth).toBeLessThan(printed.strokeWidth);
+    expect(printed.height).toBeGreaterThan(0.35);
+  });
+
+  it('ignores grid lines and specks', () => {
+    expect(findCellInk(pixels, cells[1]!, threshold)).toEqual({ marks: [] });
+    expect(findCellInk(pixels, cells[40]!, threshold)).toEqual({ marks: [] });
+  });
+
+  it('finds pencilmarks in an empty cell', () => {
+    const ink = findCellInk(pixels, cells[3]!, threshold);
+
+    expect(ink.digit).toBeUndefined();
+    expect(ink.marks).toHaveLength(3);
+    for (const mark of ink.marks) {
+      expect(mark.height).toBeLessThan(cells[3]!.height * 0.35);
+    }
+  });
+});
+
+describe('classifyHandwriting', () => {
+  const printed: InkStyle = { darkness: 230, saturation: 0.02, strokeWidth: 0.09, height: 0.5 };
+  const bluePen: InkStyle = { darkness: 150, saturation: 0.4, strokeWidth: 0.04, height: 0.6 };
+  const blackPen: InkStyle = { darkness: 225, saturation: 0.03, strokeWidth: 0.03, height: 0.7 };
+
+  /** Small differences, as between digits of the same font or pen */
+  const jitter = (style: InkStyle, i: number): InkStyle => ({
+    ...style,
+    darkness: style.darkness + (i % 3) * 4,
+    height: style.height * (1 + (i % 4) * 0.02),
+  });
+
+  it('finds digits written in a different pen', () => {
+    const styles = [
+      ...Array.from({ length: 20 }, (_, i) => jitter(printed, i)),
+      undefined,
+      ...Array.from({ length: 5 }, (_, i) => jitter(bluePen, i)),
+    ];
+
+    const handwritten = classifyHandwriting(styles);
+
+    expect(handwritten.slice(0, 21).some(Boolean)).toBe(false);
+    expect(handwritten.slice(21).every(Boolean)).toBe(true);
+  });
+
+  it('finds handwriting in the same color by its shape', () => {
+    const styles = [
+      ...Array.from({ length: 20 }, (_, i) => jitter(printed, i)),
+      ...Array.from({ length: 4 }, (_, i) => jitter(blackPen, i)),
+    ];
+
+    expect(classifyHandwriting(styles).filter(Boolean)).toHaveLength(4);
+  });
+
+  it('finds no handwriting among printed digits', () => {
+    const styles = Array.from({ length: 30 }, (_, i) => jitter(printed, i));
+
+    expect(classifyHandwriting(styles).some(Boolean)).toBe(false);
+  });
+
+  it('keeps every digit printed when too few givens would be left', () => {
+    const styles = [
+      ...Array.from({ length: 10 }, (_, i) => jitter(printed, i)),
+      ...Array.from({ length: 10 }, (_, i) => jitter(bluePen, i)),
+    ];
+
+    expect(classifyHandwriting(styles).some(Boolean)).toBe(false);
+  });
+});
+
+describe('cropImage', () => {
+  it('adds a white border around the crop', async () => {
+    const image = await loadImage(drawGrid().toBuffer('image/png'));
+
+    const crop = await loadImage(cropImage(image, { x: 100, y: 100, width: 40, height: 60 }, 2));
+
+    // A quarter of the longest side on each side, then doubled
+    expect(crop.width).toBe(140);
+    expect(crop.height).toBe(180);
+  });
+});
+
+describe('digitChoices', () => {
+  // Trimmed from what tesseract.js returns for one cell read as a single character
+  const page = {
+    text: '7\n',
+    confidence: 88,
+    symbols: [
+      {
+        text: '7',
+        confidence: 88.4,
+        choices: [
+          { text: '7', confidence: 88.4 },
+          { text: '1', confidence: 41.2 },
+        ],
+        is_superscript: false,
+        is_subscript: false,
+        is_dropcap: false,
+      },
+    ],
+  };
+
+  it('lists the digits considered, most confident first', () => {
+    expect(digitChoices(page)).toEqual([
+      { digit: '7', confidence: 88.4 },
+      { digit: '1', confidence: 41.2 },
+    ]);
+  });
+
+  it('falls back to the symbol when it has no choices', () => {
+    const symbols = [{ text: '4', confidence: 75, choices: [] }];
+
+    expect(digitChoices({ symbols })).toEqual([{ digit: '4', confidence: 75 }]);
+  });
+
+  it('skips anything that is not a digit', () => {
+    const symbols = [{ text: '|', confidence: 60, choices: [{ text: '0', confidence: 60 }] }];
+
+    expect(digitChoices({ symbols })).toEqual([]);
+    expect(digitChoices({ symbols: [] })).toEqual([]);
+  });
+});
+
+describe('pencilmarkDigits', () => {
+  it('reads the confident digits, sorted and without repeats', () => {
+    // Trimmed from what tesseract.js returns for a cell's marks read as sparse text
+    const page = {
+      text: '5 1\n9 1\n',
+      confidence: 70,
+      symbols: [
+        { text: '5', confidence: 84.1, choices: [{ text: '5', confidence: 84.1 }] },
+        { text: '1', confidence: 90.3, choices: [{ text: '1', confidence: 90.3 }] },
+        { text: '9', confidence: 35.6, choices: [{ text: '9', confidence: 35.6 }] },
+        { text: '1', confidence: 88, choices: [{ text: '1', confidence: 88 }] },
+      ],
+    };
+
+    expect(pencilmarkDigits(page)).toBe('15');
+  });
+});
+
+describe('enclosingRect', () => {
+  it('spans every box', () => {
+    const rect = enclosingRect([
+      { x: 10, y: 20, width: 5, height: 5 },
+      { x: 30, y: 5, width: 10, height: 10 },
+    ]);
+
+    expect(rect).toEqual({ x: 10, y: 5, width: 30, height: 20 });
+  });
+});
+
+describe('scoreCell', () => {
+  const choices = [
+    { digit: '7', confidence: 88.4 },
+    { digit: '1', confidence: 41.2 },
+  ];
+
+  it('scores a digit by its own confidence, with the next best as the alternative', () => {
+    expect(scoreCell('7', choices)).toEqual({ confidence: 88, alternative: '1' });
+  });
+
+  it('doubts a digit Tesseract did not see', () => {
+    expect(scoreCell('4', choices)).toEqual({ confidence: 0, alternative: '7' });
+  });
+
+  it('doubts an empty reading as much as the digit seen there', () => {
+    expect(scoreCell('0', choices)).toEqual({ confidence: 12, alternative: '7' });
+    expect(scoreCell('0', [])).toEqual({ confidence: 100, alternative: '0' });
+  });
+});
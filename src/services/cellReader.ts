@@ -0,0 +1,423 @@
+/**
+ * Cell Reader
+ * Looks at each cell of a straightened grid on its own: where its ink is, how its digit is
+ * written, which pencilmarks it holds, and how sure Tesseract is about the digit in it
+ */
+
+import { createCanvas } from '@napi-rs/canvas';
+import type { Symbol as TesseractSymbol } from 'tesseract.js';
+import {
+  findDarkRegions,
+  greyLevels,
+  type CellRect,
+  type DarkRegion,
+  type LoadedImage,
+  type Pixels,
+} from './gridRectifier.js';
+
+/** Part of each cell side skipped next to the grid lines */
+const CELL_INSET = 0.08;
+
+/** Smallest ink shape kept, as a part of the cell side; anything smaller is a speck */
+const MIN_INK_SIZE = 0.06;
+
+/** Thickest a shape along the cell edge can be and still be left over from a grid line */
+const MAX_LINE_THICKNESS = 0.15;
+
+/** Shortest a shape can be and still be (part of) a full-size digit, as a part of the cell side */
+const MIN_DIGIT_HEIGHT = 0.35;
+
+/** Shortest a shape can be and still be a pencilmark, as a part of the cell side */
+const MIN_MARK_HEIGHT = 0.1;
+
+/** Confidence (0-100) Tesseract needs in a small digit to take it as a pencilmark */
+const MIN_MARK_CONFIDENCE = 60;
+
+/** Fewest givens a puzzle can have; a split leaving fewer printed digits is wrong */
+const MIN_GIVENS = 17;
+
+/**
+ * Differences in ink that clearly tell two pens apart, one per style feature: darkness in
+ * grey levels, saturation, and how many times thicker or taller
+ */
+const STYLE_STEPS = { darkness: 40, saturation: 0.12, strokeWidth: 1.4, height: 1.2 };
+
+/** Distance between the two groups of digits, in style steps, needed to split them */
+const MIN_STYLE_SEPARATION = 2;
+
+/** White border added around a crop, as a part of its longest side, so Tesseract sees an edge */
+const CROP_MARGIN = 0.25;
+
+/**
+ * Ink found in one cell
+ */
+export interface CellInk {
+  /** Box around the cell's digit, in image coordinates, if it holds one */
+  digit?: CellRect;
+  /** How the cell's digit is written, if it holds one */
+  style?: InkStyle;
+  /** Boxes around the small digits in the cell (pencilmarks), in image coordinates */
+  marks: CellRect[];
+}
+
+/**
+ * How a digit is written, to tell printed clues from handwriting
+ */
+export interface InkStyle {
+  /** How dark the ink is (0-255) */
+  darkness: number;
+  /** How colored the ink is (0-1), e.g. high for a blue pen */
+  saturation: number;
+  /** Average stroke width, as a part of the cell side */
+  strokeWidth: number;
+  /** Digit height, as a part of the cell side */
+  height: number;
+}
+
+/**
+ * A digit Tesseract considered for a cell
+ */
+export interface DigitChoice {
+  digit: string;
+  /** Confidence (0-100) */
+  confidence: number;
+}
+
+/**
+ * How sure a cell's reading is
+ */
+export interface CellScore {
+  /** Confidence in the reading (0-100) */
+  confidence: number;
+  /** Digit the cell could be instead ('0' = none) */
+  alternative: string;
+}
+
+/**
+ * Copy the pixels inside a rectangle
+ */
+function cropPixels(pixels: Pixels, rect: CellRect): Pixels {
+  const x0 = Math.max(0, Math.round(rect.x));
+  const y0 = Math.max(0, Math.round(rect.y));
+  const width = Math.max(1, Math.min(pixels.width - x0, Math.round(rect.width)));
+  const height = Math.max(1, Math.min(pixels.height - y0, Math.round(rect.height)));
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const start = ((y0 + y) * pixels.width + x0) * 4;
+    data.set(pixels.data.subarray(start, start + width * 4), y * width * 4);
+  }
+  return { width, height, data };
+}
+
+/**
+ * Whether a shape is what is left of a grid line: thin, or as long as the cell, and
+ * touching the edge of the cell
+ */
+function isGridLine(region: DarkRegion, crop: Pixels, cellSize: number): boolean {
+  const width = region.maxX - region.minX + 1;
+  const height = region.maxY - region.minY + 1;
+  const touchesEdge =
+    region.minX === 0 ||
+    region.minY === 0 ||
+    region.maxX === crop.width - 1 ||
+    region.maxY === crop.height - 1;
+  if (!touchesEdge) return false;
+
+  return (
+    Math.min(width, height) < cellSize * MAX_LINE_THICKNESS ||
+    width >= crop.width * 0.9 ||
+    height >= crop.height * 0.9
+  );
+}
+
+function overlaps(a: CellRect, region: DarkRegion): boolean {
+  return (
+    region.minX <= a.x + a.width &&
+    region.maxX >= a.x &&
+    region.minY <= a.y + a.height &&
+    region.maxY >= a.y
+  );
+}
+
+/**
+ * Find the ink in one cell of a straightened grid, leaving out specks and grid lines
+ * @param pixels - The straightened grid image
+ * @param cell - Where the cell is in the image
+ * @param threshold - Grey level up to which a pixel is ink
+ */
+export function findCellInk(pixels: Pixels, cell: CellRect, threshold: number): CellInk {
+  const inset = cell.width * CELL_INSET;
+  const origin = { x: Math.round(cell.x + inset), y: Math.round(cell.y + inset) };
+  const crop = cropPixels(pixels, {
+    ...origin,
+    width: cell.width - 2 * inset,
+    height: cell.height - 2 * inset,
+  });
+
+  const regions = findDarkRegions(crop, threshold).filter(
+    region =>
+      Math.max(region.maxX - region.minX, region.maxY - region.minY) + 1 >=
+        cell.width * MIN_INK_SIZE && !isGridLine(region, crop, cell.width)
+  );
+
+  const toImage = (box: CellRect): CellRect => ({
+    ...box,
+    x: box.x + origin.x,
+    y: box.y + origin.y,
+  });
+
+  // A digit is its tall strokes plus any detached parts within them, like the bar of a 5
+  const strokes = regions.filter(
+    region => region.maxY - region.minY + 1 >= cell.height * MIN_DIGIT_HEIGHT
+  );
+  const strokesBox = strokes.length > 0 ? boundingBox(strokes) : undefined;
+  const digit = strokesBox ? regions.filter(region => overlaps(strokesBox, region)) : [];
+
+  // Pencilmarks are the small shapes left over, each about a third of the cell high at most
+  const marks = regions
+    .filter(
+      region =>
+        !digit.includes(region) && region.maxY - region.minY + 1 >= cell.height * MIN_MARK_HEIGHT
+    )
+    .map(region => toImage(boundingBox([region])));
+
+  if (digit.length === 0) {
+    return { marks };
+  }
+
+  return {
+    digit: toImage(boundingBox(digit)),
+    style: measureStyle(crop, digit, threshold, cell.width),
+    marks,
+  };
+}
+
+/**
+ * Measure the ink of a digit. Stroke width is its area over half its outline, which is
+ * the outline of a stroke's two sides.
+ */
+function measureStyle(
+  crop: Pixels,
+  regions: DarkRegion[],
+  threshold: number,
+  cellSize: number
+): InkStyle {
+  const grey = greyLevels(crop);
+  const isInk = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < crop.width && y < crop.height && grey[y * crop.width + x]! <= threshold;
+
+  let area = 0;
+  let outline = 0;
+  let greySum = 0;
+  let saturationSum = 0;
+
+  for (const region of regions) {
+    for (const index of region.pixels) {
+      const x = index % crop.width;
+      const y = (index - x) / crop.width;
+      const offset = index * 4;
+      const channels = [crop.data[offset]!, crop.data[offset + 1]!, crop.data[offset + 2]!];
+
+      area++;
+      greySum += grey[index]!;
+      saturationSum += (Math.max(...channels) - Math.min(...channels)) / 255;
+      if (!isInk(x - 1, y) || !isInk(x + 1, y) || !isInk(x, y - 1) || !isInk(x, y + 1)) {
+        outline++;
+      }
+    }
+  }
+
+  const box = boundingBox(regions);
+  return {
+    darkness: 255 - greySum / area,
+    saturation: saturationSum / area,
+    strokeWidth: (2 * area) / Math.max(1, outline) / cellSize,
+    height: box.height / cellSize,
+  };
+}
+
+/**
+ * Place a style in a space where one step along any axis is a clear difference in ink
+ */
+function styleVector(style: InkStyle): number[] {
+  return [
+    style.darkness / STYLE_STEPS.darkness,
+    style.saturation / STYLE_STEPS.saturation,
+    Math.log(style.strokeWidth) / Math.log(STYLE_STEPS.strokeWidth),
+    Math.log(style.height) / Math.log(STYLE_STEPS.height),
+  ];
+}
+
+function distance(a: number[], b: number[]): number {
+  return Math.hypot(...a.map((value, i) => value - b[i]!));
+}
+
+function centroid(vectors: number[][]): number[] {
+  return vectors[0]!.map((_, axis) => {
+    let sum = 0;
+    for (const vector of vectors) sum += vector[axis]!;
+    return sum / vectors.length;
+  });
+}
+
+/**
+ * Tell handwritten digits from printed clues by how they are written. The digits are
+ * split into the two most different groups of ink; if the groups are clearly apart, the
+ * darker and less colored one is print (or, when both look alike in color, the more
+ * uniform one, since print is). Returns no handwriting when the split is not clear or would
+ * leave too few printed digits for a puzzle.
+ * @param styles - Style of each cell's digit (undefined for cells without one)
+ * @returns Whether each cell holds a handwritten digit
+ */
+export function classifyHandwriting(styles: (InkStyle | undefined)[]): boolean[] {
+  const none = styles.map(() => false);
+  const digits = styles.flatMap((style, index) => (style ? [{ index, style }] : []));
+  if (digits.length < 2) return none;
+
+  const vectors = digits.map(digit => styleVector(digit.style));
+
+  // Two-means, starting from the two digits farthest apart
+  const mean = centroid(vectors);
+  const first = vectors.reduce((a, b) => (distance(b, mean) > distance(a, mean) ? b : a));
+  const second = vectors.reduce((a, b) => (distance(b, first) > distance(a, first) ? b : a));
+  let centers = [first, second];
+  let groups: number[] = [];
+  for (let round = 0; round < 10; round++) {
+    groups = vectors.map(vector =>
+      distance(vector, centers[0]!) <= distance(vector, centers[1]!) ? 0 : 1
+    );
+    const members = [0, 1].map(group => vectors.filter((_, i) => groups[i] === group));
+    if (members.some(group => group.length === 0)) return none;
+    centers = members.map(centroid);
+  }
+
+  if (distance(centers[0]!, centers[1]!) < MIN_STYLE_SEPARATION) return none;
+
+  // Print is dark and neutral; darkness and saturation steps count the same
+  const printScore = (center: number[]) => center[0]! - center[1]!;
+  const spread = (group: number) => {
+    const members = vectors.filter((_, i) => groups[i] === group);
+    return (
+      members.reduce((sum, vector) => sum + distance(vector, centers[group]!), 0) / members.length
+    );
+  };
+  const scoreGap = printScore(centers[0]!) - printScore(centers[1]!);
+  const printed = Math.abs(scoreGap) >= 1 ? (scoreGap > 0 ? 0 : 1) : spread(0) <= spread(1) ? 0 : 1;
+
+  if (groups.filter(group => group === printed).length < MIN_GIVENS) return none;
+
+  const handwritten = [...none];
+  digits.forEach((digit, i) => {
+    handwritten[digit.index] = groups[i] !== printed;
+  });
+  return handwritten;
+}
+
+function boundingBox(regions: DarkRegion[]): CellRect {
+  const minX = Math.min(...regions.map(region => region.minX));
+  const minY = Math.min(...regions.map(region => region.minY));
+  const maxX = Math.max(...regions.map(region => region.maxX));
+  const maxY = Math.max(...regions.map(region => region.maxY));
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Cut a rectangle out of an image onto white paper, for Tesseract to read on its own
+ * @param scale - Factor to enlarge the crop by (default: 1)
+ * @returns PNG image data
+ */
+export function cropImage(image: LoadedImage, rect: CellRect, scale: number = 1): Buffer {
+  const margin = Math.max(rect.width, rect.height) * CROP_MARGIN;
+  const canvas = createCanvas(
+    Math.max(1, Math.round((rect.width + 2 * margin) * scale)),
+    Math.max(1, Math.round((rect.height + 2 * margin) * scale))
+  );
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(
+    image,
+    rect.x,
+    rect.y,
+    rect.width,
+    rect.height,
+    margin * scale,
+    margin * scale,
+    rect.width * scale,
+    rect.height * scale
+  );
+  return canvas.toBuffer('image/png');
+}
+
+/**
+ * Digits Tesseract considered when reading one cell, most confident first
+ * @param page - Tesseract's reading of the cell's crop
+ */
+export function digitChoices(page: {
+  symbols: Pick<TesseractSymbol, 'text' | 'confidence' | 'choices'>[];
+}): DigitChoice[] {
+  const best = new Map<string, number>();
+
+  for (const symbol of page.symbols) {
+    const choices =
+      symbol.choices.length > 0
+        ? symbol.choices
+        : [{ text: symbol.text, confidence: symbol.confidence }];
+    for (const choice of choices) {
+      const digit = choice.text?.trim();
+      if (!digit || !/^[1-9]$/.test(digit)) continue;
+      best.set(digit, Math.max(best.get(digit) ?? 0, choice.confidence ?? 0));
+    }
+  }
+
+  return [...best]
+    .map(([digit, confidence]) => ({ digit, confidence: Math.max(0, Math.min(100, confidence)) }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Pencilmarks Tesseract read in the crop of an empty cell's small digits
+ * @param page - Tesseract's reading of the crop, as sparse text
+ * @returns The digits, sorted and without repeats (e.g. "137")
+ */
+export function pencilmarkDigits(page: {
+  symbols: Pick<TesseractSymbol, 'text' | 'confidence'>[];
+}): string {
+  const digits = new Set<string>();
+  for (const symbol of page.symbols) {
+    const digit = symbol.text?.trim();
+    if (digit && /^[1-9]$/.test(digit) && symbol.confidence >= MIN_MARK_CONFIDENCE) {
+      digits.add(digit);
+    }
+  }
+  return [...digits].sort().join('');
+}
+
+/**
+ * Box around several boxes
+ */
+export function enclosingRect(rects: CellRect[]): CellRect {
+  const minX = Math.min(...rects.map(rect => rect.x));
+  const minY = Math.min(...rects.map(rect => rect.y));
+  const maxX = Math.max(...rects.map(rect => rect.x + rect.width));
+  const maxY = Math.max(...rects.map(rect => rect.y + rect.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Score the reading of a cell against Tesseract's reading of that cell alone
+ * @param digit - What the cell was read as ('0' = empty)
+ * @param choices - Tesseract's choices for the cell, most confident first
+ */
+export function scoreCell(digit: string, choices: DigitChoice[]): CellScore {
+  const runnerUp = choices.find(choice => choice.digit !== digit);
+
+  // An empty reading is as doubtful as the best digit Tesseract sees there
+  const confidence =
+    digit === '0'
+      ? 100 - (choices[0]?.confidence ?? 0)
+      : (choices.find(choice => choice.digit === digit)?.confidence ?? 0);
+
+  return { confidence: Math.round(confidence), alternative: runnerUp?.digit ?? '0' };
+}
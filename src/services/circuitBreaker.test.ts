@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'bun:test';
+import { CircuitBreaker } from './circuitBreaker.js';
+
+describe('CircuitBreaker', () => {
+  function createBreaker(failureThreshold = 3) {
+    const clock = { time: 0 };
+    const breaker = new CircuitBreaker({
+      failureThreshold,
+      resetTimeoutMs: 1000,
+      now: () => clock.time,
+    });
+    return { breaker, clock };
+  }
+
+  it('stays closed until failures reach the threshold', () => {
+    const { breaker } = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('only counts consecutive failures', () => {
+    const { breaker } = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('lets one trial request through after the reset timeout', () => {
+    const { breaker, clock } = createBreaker(1);
+    breaker.recordFailure();
+
+    clock.time = 1000;
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('reopens when the trial request fails', () => {
+    const { breaker, clock } = createBreaker(3);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    clock.time = 1000;
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    clock.time = 1999;
+    expect(breaker.allowRequest()).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Circuit Breaker
+ * Stops calling a failing service for a while, so requests fail fast instead of each
+ * waiting for a timeout
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long the circuit stays open before one trial request is let through (ms, default: 30000) */
+  resetTimeoutMs?: number;
+  /** Clock, replaceable in tests */
+  now?: () => number;
+}
+
+/**
+ * Tracks request outcomes for one service.
+ * - closed: requests go through; consecutive failures are counted
+ * - open: requests are refused until `resetTimeoutMs` has passed
+ * - half-open: one trial request goes through; success closes the circuit, failure opens it
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private now: () => number;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 5);
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Current state of the circuit
+   */
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether a request may be sent now. In the half-open state only the first caller gets
+   * through, until its outcome is recorded.
+   */
+  allowRequest(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight) return false;
+
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Record a request that succeeded
+   */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a request that failed because the service is unavailable
+   */
+  recordFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+}
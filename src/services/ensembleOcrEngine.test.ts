@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'bun:test';
+import { EnsembleOcrEngine, findDisagreements } from './ensembleOcrEngine.js';
+import { FixtureOcrEngine } from './fixtureOcrEngine.js';
+import { validatePuzzle, type OCRExtractResult, type OcrEngine } from './ocrEngine.js';
+import type { WorkerPoolStats } from './workerPool.js';
+
+describe('EnsembleOcrEngine', () => {
+  const puzzle =
+    '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+  const image = Buffer.from('image');
+
+  const reading = (board: string, extra: Partial<OCRExtractResult> = {}): OCRExtractResult => ({
+    puzzle: board,
+    confidence: 90,
+    digitCount: board.split('').filter(c => c !== '0').length,
+    ...extra,
+  });
+
+  const engines = (a: OCRExtractResult, b: OCRExtractResult) => {
+    const primary = new FixtureOcrEngine('a');
+    const secondary = new FixtureOcrEngine('b');
+    primary.add(image, a);
+    secondary.add(image, b);
+    return new EnsembleOcrEngine(primary, secondary);
+  };
+
+  describe('findDisagreements', () => {
+    it('compares givens and handwritten entries together', () => {
+      const split = reading(`500${puzzle.slice(3)}`, { user: `030${'0'.repeat(78)}` });
+      expect(findDisagreements(split, reading(puzzle))).toEqual([]);
+      expect(findDisagreements(reading(puzzle), reading(`8${puzzle.slice(1)}`))).toEqual([0]);
+    });
+  });
+
+  it('names itself after both engines', () => {
+    expect(engines(reading(puzzle), reading(puzzle)).name).toBe('ensemble(a,b)');
+  });
+
+  it('returns the primary reading when the engines agree', async () => {
+    const result = await engines(reading(puzzle), reading(puzzle)).extractPuzzle(image);
+
+    expect(result.puzzle).toBe(puzzle);
+    expect(result.disagreements).toEqual([]);
+    expect(result.cellConfidence).toBeUndefined();
+  });
+
+  it('flags disagreeing cells with the secondary digit as alternative', async () => {
+    const result = await engines(reading(puzzle), reading(`8${puzzle.slice(1)}`)).extractPuzzle(
+      image
+    );
+
+    expect(result.puzzle).toBe(puzzle);
+    expect(result.disagreements).toEqual([0]);
+    expect(result.cellConfidence?.[0]).toBe(0);
+    expect(result.cellConfidence?.[1]).toBe(100);
+    expect(result.alternatives?.[0]).toBe('8');
+  });
+
+  it('falls back to the primary reading when the secondary engine fails', async () => {
+    const primary = new FixtureOcrEngine('a');
+    primary.add(image, reading(puzzle));
+    const ensemble = new EnsembleOcrEngine(primary, new FixtureOcrEngine('b'));
+    const originalError = console.error;
+    console.error = () => undefined;
+
+    try {
+      expect((await ensemble.extractPuzzle(image)).puzzle).toBe(puzzle);
+    } finally {
+      console.error = originalError;
+    }
+  });
+
+  describe('extractPuzzles', () => {
+    /** An engine that finds the given grids on every page */
+    const pageEngine = (grids: OCRExtractResult[]): OcrEngine => ({
+      name: 'page',
+      extractPuzzle: async () => grids[0]!,
+      extractPuzzles: async () => grids,
+      validatePuzzle,
+    });
+
+    it('reads every grid on a page with the primary engine', async () => {
+      let secondarySignal: AbortSignal | undefined;
+      const secondary: OcrEngine = {
+        name: 'b',
+        extractPuzzle: (_image, _onProgress, job) => {
+          secondarySignal = job?.signal;
+          return new Promise(() => undefined);
+        },
+        validatePuzzle,
+      };
+      const grids = [reading(puzzle), reading(`8${puzzle.slice(1)}`)];
+      const ensemble = new EnsembleOcrEngine(pageEngine(grids), secondary);
+
+      expect(await ensemble.extractPuzzles(image)).toEqual(grids);
+      expect(secondarySignal?.aborted).toBe(true);
+    });
+
+    it('checks a photo of one grid with both engines', async () => {
+      const secondary = new FixtureOcrEngine('b');
+      secondary.add(image, reading(`8${puzzle.slice(1)}`));
+      const ensemble = new EnsembleOcrEngine(pageEngine([reading(puzzle)]), secondary);
+
+      const [result] = await ensemble.extractPuzzles(image);
+      expect(result?.disagreements).toEqual([0]);
+    });
+
+    it('reads one puzzle when the primary engine cannot split pages', async () => {
+      const results = await engines(reading(puzzle), reading(puzzle)).extractPuzzles(image);
+
+      expect(results.map(result => result.puzzle)).toEqual([puzzle]);
+    });
+  });
+
+  it('adds up the queues of both engines', () => {
+    const stats = (queued: number): WorkerPoolStats => ({ size: 2, workers: 2, busy: 2, queued });
+    const withStats = (name: string, queued: number): OcrEngine => ({
+      name,
+      extractPuzzle: async () => reading(puzzle),
+      validatePuzzle,
+      getQueueStats: () => stats(queued),
+    });
+    const ensemble = new EnsembleOcrEngine(withStats('a', 1), withStats('b', 3));
+
+    expect(ensemble.getQueueStats()).toEqual({ size: 4, workers: 4, busy: 4, queued: 4 });
+  });
+});
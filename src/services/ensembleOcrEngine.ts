@@ -0,0 +1,164 @@
+/**
+ * Ensemble OCR Engine
+ * Reads each image with two engines and reports the cells they disagree on
+ */
+
+import { mergeBoard } from './progressSync.js';
+import {
+  validatePuzzle,
+  type OCRExtractResult,
+  type OcrEngine,
+  type OcrProgress,
+} from './ocrEngine.js';
+import type { JobOptions, WorkerPoolStats } from './workerPool.js';
+
+/**
+ * Find the cells two OCR results read differently (givens and handwritten entries combined)
+ */
+export function findDisagreements(a: OCRExtractResult, b: OCRExtractResult): number[] {
+  const boardA = mergeBoard(a.puzzle, a.user);
+  const boardB = mergeBoard(b.puzzle, b.user);
+  const cells: number[] = [];
+
+  for (let i = 0; i < 81; i++) {
+    if (boardA[i] !== boardB[i]) cells.push(i);
+  }
+  return cells;
+}
+
+/**
+ * Wait for a promise without throwing, like a single-entry `Promise.allSettled`
+ */
+function settle<T>(promise: Promise<T>): Promise<PromiseSettledResult<T>> {
+  return Promise.allSettled([promise]).then(([result]) => result!);
+}
+
+/**
+ * OCR engine that runs a primary and a secondary engine on every image.
+ * The primary engine's reading is used; cells the secondary reads differently get zero
+ * confidence (so they are flagged for review) with the secondary's digit as the alternative.
+ * If only the secondary engine fails, the primary result is returned on its own.
+ * Pages with several grids are split by the primary engine; the secondary only checks
+ * photos of a single grid, since it reads the whole image.
+ */
+export class EnsembleOcrEngine implements OcrEngine {
+  readonly name: string;
+  private primary: OcrEngine;
+  private secondary: OcrEngine;
+
+  constructor(primary: OcrEngine, secondary: OcrEngine) {
+    this.primary = primary;
+    this.secondary = secondary;
+    this.name = `ensemble(${primary.name},${secondary.name})`;
+  }
+
+  async extractPuzzle(
+    imageBuffer: Buffer,
+    onProgress?: (progress: OcrProgress) => void,
+    job?: JobOptions
+  ): Promise<OCRExtractResult> {
+    const [primary, secondary] = await Promise.allSettled([
+      this.primary.extractPuzzle(imageBuffer, onProgress, job),
+      this.secondary.extractPuzzle(imageBuffer, undefined, { signal: job?.signal }),
+    ]);
+
+    if (primary.status === 'rejected') {
+      throw primary.reason;
+    }
+    return this.combine(primary.value, secondary);
+  }
+
+  async extractPuzzles(
+    imageBuffer: Buffer,
+    onProgress?: (progress: OcrProgress) => void,
+    job?: JobOptions
+  ): Promise<OCRExtractResult[]> {
+    if (!this.primary.extractPuzzles) {
+      return [await this.extractPuzzle(imageBuffer, onProgress, job)];
+    }
+
+    // Read by the secondary alongside, and stopped if the page turns out to have several grids
+    const secondaryJob = new AbortController();
+    const cancel = () => secondaryJob.abort();
+    job?.signal?.addEventListener('abort', cancel, { once: true });
+    const secondary = settle(
+      this.secondary.extractPuzzle(imageBuffer, undefined, { signal: secondaryJob.signal })
+    );
+
+    try {
+      const results = await this.primary.extractPuzzles(imageBuffer, onProgress, job);
+      if (results.length !== 1) {
+        return results;
+      }
+      return [this.combine(results[0]!, await secondary)];
+    } finally {
+      secondaryJob.abort();
+      job?.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  /**
+   * Flag the cells of the primary reading that the secondary engine read differently
+   */
+  private combine(
+    result: OCRExtractResult,
+    secondary: PromiseSettledResult<OCRExtractResult>
+  ): OCRExtractResult {
+    if (secondary.status === 'rejected') {
+      console.error(`OCR engine ${this.secondary.name} failed:`, secondary.reason);
+      return result;
+    }
+
+    const disagreements = findDisagreements(result, secondary.value);
+    if (disagreements.length === 0) {
+      return { ...result, disagreements };
+    }
+
+    const secondBoard = mergeBoard(secondary.value.puzzle, secondary.value.user);
+    const cellConfidence = result.cellConfidence
+      ? [...result.cellConfidence]
+      : new Array<number>(81).fill(100);
+    const alternatives = (result.alternatives ?? '0'.repeat(81)).split('');
+
+    for (const index of disagreements) {
+      cellConfidence[index] = 0;
+      alternatives[index] = secondBoard[index] ?? '0';
+    }
+
+    return {
+      ...result,
+      cellConfidence,
+      alternatives: alternatives.join(''),
+      disagreements,
+    };
+  }
+
+  validatePuzzle(puzzle: string): { valid: boolean; error?: string } {
+    return validatePuzzle(puzzle);
+  }
+
+  async warmUp(): Promise<void> {
+    await Promise.all([this.primary.warmUp?.(), this.secondary.warmUp?.()]);
+  }
+
+  /**
+   * Worker usage of both engines added together
+   */
+  getQueueStats(): WorkerPoolStats | undefined {
+    const stats = [this.primary.getQueueStats?.(), this.secondary.getQueueStats?.()].filter(
+      (engineStats): engineStats is WorkerPoolStats => engineStats !== undefined
+    );
+    if (stats.length === 0) return undefined;
+
+    return stats.reduce((total, engineStats) => ({
+      size: total.size + engineStats.size,
+      workers: total.workers + engineStats.workers,
+      busy: total.busy + engineStats.busy,
+      queued: total.queued + engineStats.queued,
+    }));
+  }
+
+  async shutdown(): Promise<void> {
+    await Promise.all([this.primary.shutdown?.(), this.secondary.shutdown?.()]);
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { FakeSolverServer } from './fakeSolverServer.js';
+import {
+  SolverRequestError,
+  SolverResponseError,
+  SolverService,
+  SolverTimeoutError,
+  SolverUnavailableError,
+} from './solverService.js';
+
+const original =
+  '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+const solution =
+  '534678912672195348198342567859761423426853791713924856961537284287419635345286179';
+const empty = '0'.repeat(81);
+
+describe('FakeSolverServer', () => {
+  let server: FakeSolverServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = new FakeSolverServer({ delayMs: 200 });
+    baseUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  function createService() {
+    return new SolverService(baseUrl, { localFallback: false, retries: 0 });
+  }
+
+  it('validates puzzles', async () => {
+    const result = await createService().validate(original);
+
+    expect(result).toEqual({ valid: true, level: expect.any(Number), solution });
+    expect(server.requests[0]?.pathname).toBe('/api/v1/solver/validate');
+  });
+
+  it('reports puzzles without a unique solution', async () => {
+    const result = await createService().validate(empty);
+
+    expect(result.valid).toBe(false);
+  });
+
+  it('gives hints with the board after they are applied', async () => {
+    const result = await createService().solve(original, empty);
+
+    expect(result.hints.steps.length).toBeGreaterThan(0);
+    expect(result.board.original).toBe(original);
+    expect(result.board.user).not.toBe(empty);
+  });
+
+  it('rejects boards that are not 81 digits', async () => {
+    await expect(createService().solve('123', empty)).rejects.toBeInstanceOf(SolverRequestError);
+  });
+
+  it('serves canned responses', async () => {
+    server.setValidateResponse(original, {
+      board: { level: 7, techniques: 0, original, solution },
+    });
+
+    const result = await createService().validate(original);
+
+    expect(result.level).toBe(7);
+  });
+
+  it('fails with a server error in error mode', async () => {
+    server.mode = 'error';
+
+    await expect(createService().validate(original)).rejects.toBeInstanceOf(SolverUnavailableError);
+  });
+
+  it('answers after the delay in slow mode', async () => {
+    server.mode = 'slow';
+    const service = new SolverService(baseUrl, { localFallback: false, retries: 0, timeoutMs: 50 });
+
+    await expect(service.validate(original)).rejects.toBeInstanceOf(SolverTimeoutError);
+    expect((await createService().validate(original)).valid).toBe(true);
+  });
+
+  it('sends unreadable JSON in malformed mode', async () => {
+    server.mode = 'malformed';
+
+    await expect(createService().solve(original, empty)).rejects.toThrow('unreadable response');
+  });
+
+  it('sends responses that fail the schema in invalid mode', async () => {
+    server.mode = 'invalid';
+
+    await expect(createService().solve(original, empty)).rejects.toBeInstanceOf(
+      SolverResponseError
+    );
+  });
+
+  it('switches modes over HTTP', async () => {
+    const response = await fetch(`${baseUrl}/fake/mode?mode=error`, { method: 'POST' });
+
+    expect(response.status).toBe(200);
+    expect(server.mode).toBe('error');
+  });
+});
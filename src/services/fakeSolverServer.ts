@@ -0,0 +1,226 @@
+/**
+ * Fake Solver Server
+ * Stand-in for the Sudojo solver API on a real socket, so the bot and SolverService can be
+ * run and tested offline
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { SolveData, ValidateData } from '@sudobility/sudojo_types';
+import type { BaseResponse } from '@sudobility/types';
+import { LocalSolver } from './localSolver.js';
+
+/**
+ * How the server answers solver requests
+ * - normal: canned responses, else ones computed by the local solver
+ * - error: 500 Internal Server Error
+ * - slow: normal responses after `delayMs`
+ * - malformed: a truncated JSON body
+ * - invalid: well-formed JSON that doesn't match the response schema
+ */
+export type FakeSolverMode = 'normal' | 'error' | 'slow' | 'malformed' | 'invalid';
+
+export const FAKE_SOLVER_MODES: readonly FakeSolverMode[] = [
+  'normal',
+  'error',
+  'slow',
+  'malformed',
+  'invalid',
+];
+
+export interface FakeSolverServerOptions {
+  /** Port to listen on; 0 picks a free one (default: 0) */
+  port?: number;
+  /** Interface to listen on (default: 127.0.0.1) */
+  host?: string;
+  /** Initial mode (default: normal) */
+  mode?: FakeSolverMode;
+  /** Response delay in slow mode (ms, default: 2000) */
+  delayMs?: number;
+}
+
+/**
+ * HTTP server implementing `/api/v1/solver/solve` and `/api/v1/solver/validate`.
+ * `POST /fake/mode?mode=<mode>` switches the mode of a running server.
+ */
+export class FakeSolverServer {
+  /** Current mode; can be changed while the server runs */
+  mode: FakeSolverMode;
+  /** Response delay in slow mode (ms) */
+  delayMs: number;
+  /** Solver requests received, in order */
+  readonly requests: URL[] = [];
+
+  private port: number;
+  private host: string;
+  private server: Server | null = null;
+  private localSolver = new LocalSolver();
+  private solveResponses = new Map<string, SolveData>();
+  private validateResponses = new Map<string, ValidateData>();
+  private pendingDelays = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(options: FakeSolverServerOptions = {}) {
+    this.port = options.port ?? 0;
+    this.host = options.host ?? '127.0.0.1';
+    this.mode = options.mode ?? 'normal';
+    this.delayMs = options.delayMs ?? 2000;
+  }
+
+  /**
+   * Answer solve requests for this board with a fixed response instead of a computed one
+   */
+  setSolveResponse(original: string, user: string, data: SolveData): void {
+    this.solveResponses.set(`${original}|${user}`, data);
+  }
+
+  /**
+   * Answer validate requests for this puzzle with a fixed response instead of a computed one
+   */
+  setValidateResponse(original: string, data: ValidateData): void {
+    this.validateResponses.set(original, data);
+  }
+
+  /**
+   * Start listening
+   * @returns Base URL of the server, e.g. http://127.0.0.1:41234
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      throw new Error('Fake solver server is already running');
+    }
+
+    const server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => resolve());
+    });
+    this.server = server;
+
+    const { port } = server.address() as AddressInfo;
+    return `http://${this.host}:${port}`;
+  }
+
+  /**
+   * Stop listening, dropping delayed responses and open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    for (const timer of this.pendingDelays) clearTimeout(timer);
+    this.pendingDelays.clear();
+
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method === 'POST' && url.pathname === '/fake/mode') {
+      const mode = url.searchParams.get('mode') as FakeSolverMode;
+      if (!FAKE_SOLVER_MODES.includes(mode)) {
+        this.send(res, 400, { error: `Mode must be one of ${FAKE_SOLVER_MODES.join(', ')}` });
+        return;
+      }
+      this.mode = mode;
+      this.send(res, 200, { mode });
+      return;
+    }
+
+    if (url.pathname === '/health') {
+      this.send(res, 200, { status: 'healthy', mode: this.mode });
+      return;
+    }
+
+    const route = url.pathname.match(/^\/api\/v1\/solver\/(solve|validate)$/)?.[1];
+    if (req.method !== 'GET' || !route) {
+      this.send(res, 404, this.failure('Not found'));
+      return;
+    }
+
+    this.requests.push(url);
+
+    switch (this.mode) {
+      case 'error':
+        this.send(res, 500, this.failure('Internal server error'));
+        return;
+      case 'malformed':
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{"success":true,"data":{"board":');
+        return;
+      case 'invalid':
+        this.send(res, 200, this.success({ board: { user: 'not a board' }, hints: null }));
+        return;
+      case 'slow': {
+        const timer = setTimeout(() => {
+          this.pendingDelays.delete(timer);
+          this.answer(route, url.searchParams, res);
+        }, this.delayMs);
+        this.pendingDelays.add(timer);
+        return;
+      }
+      case 'normal':
+        this.answer(route, url.searchParams, res);
+    }
+  }
+
+  private answer(route: string, params: URLSearchParams, res: ServerResponse): void {
+    const original = params.get('original') ?? '';
+
+    if (route === 'validate') {
+      const canned = this.validateResponses.get(original);
+      if (canned) {
+        this.send(res, 200, this.success(canned));
+        return;
+      }
+
+      const result = this.localSolver.validate(original);
+      if (!result.valid || !result.solution) {
+        this.send(res, 400, this.failure('Puzzle does not have a unique solution'));
+        return;
+      }
+      const data: ValidateData = {
+        // The local solver only rates puzzles that singles can solve
+        board: { level: result.level ?? 0, techniques: 0, original, solution: result.solution },
+      };
+      this.send(res, 200, this.success(data));
+      return;
+    }
+
+    const user = params.get('user') ?? '';
+    const canned = this.solveResponses.get(`${original}|${user}`);
+    if (canned) {
+      this.send(res, 200, this.success(canned));
+      return;
+    }
+
+    try {
+      const result = this.localSolver.solve(
+        original,
+        user,
+        params.get('pencilmarks') ?? undefined,
+        params.get('autopencilmarks') === 'true'
+      );
+      this.send(res, 200, this.success<SolveData>(result));
+    } catch (error) {
+      this.send(res, 400, this.failure(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private success<T>(data: T): BaseResponse<T> {
+    return { success: true, data, timestamp: new Date().toISOString() };
+  }
+
+  private failure(error: string): BaseResponse<never> {
+    return { success: false, error, timestamp: new Date().toISOString() };
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
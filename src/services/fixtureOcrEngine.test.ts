@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FixtureOcrEngine } from './fixtureOcrEngine.js';
+import type { OCRExtractResult } from './ocrEngine.js';
+import { JobCancelledError } from './workerPool.js';
+
+describe('FixtureOcrEngine', () => {
+  const result: OCRExtractResult = {
+    puzzle: '530070000600195000098000060800060003400803001700020006060000280000419005000080079',
+    confidence: 95,
+    digitCount: 30,
+  };
+
+  it('returns the recorded result for a known image', async () => {
+    const engine = new FixtureOcrEngine();
+    engine.add(Buffer.from('image'), result);
+
+    expect(await engine.extractPuzzle(Buffer.from('image'))).toEqual(result);
+    expect(engine.name).toBe('fixture');
+  });
+
+  it('fails for unknown images', async () => {
+    const engine = new FixtureOcrEngine();
+    await expect(engine.extractPuzzle(Buffer.from('other'))).rejects.toThrow('No OCR fixture');
+  });
+
+  it('honours cancellation', async () => {
+    const engine = new FixtureOcrEngine();
+    engine.add(Buffer.from('image'), result);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      engine.extractPuzzle(Buffer.from('image'), undefined, { signal: controller.signal })
+    ).rejects.toBeInstanceOf(JobCancelledError);
+  });
+
+  describe('fromDirectory', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'ocr-fixtures-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('pairs images with same-named JSON results', async () => {
+      await writeFile(join(directory, 'newspaper.png'), 'png bytes');
+      await writeFile(join(directory, 'newspaper.json'), JSON.stringify(result));
+      await writeFile(join(directory, 'unpaired.jpg'), 'jpg bytes');
+
+      const engine = await FixtureOcrEngine.fromDirectory(directory);
+
+      expect(engine.size).toBe(1);
+      expect(await engine.extractPuzzle(Buffer.from('png bytes'))).toEqual(result);
+    });
+  });
+});
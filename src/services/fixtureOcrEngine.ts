@@ -0,0 +1,88 @@
+/**
+ * Fixture OCR Engine
+ * Deterministic OCR backend that returns recorded results for known images
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { OCRCache } from './ocrCache.js';
+import { validatePuzzle, type OCRExtractResult, type OcrEngine } from './ocrEngine.js';
+import { JobCancelledError, type JobOptions } from './workerPool.js';
+
+/** Image extensions read from fixture and corpus directories */
+export const FIXTURE_IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp'];
+
+/**
+ * OCR engine that looks images up by content hash instead of reading them.
+ * Used in tests and local development to exercise the bot without Tesseract.
+ */
+export class FixtureOcrEngine implements OcrEngine {
+  readonly name: string;
+  private fixtures = new Map<string, OCRExtractResult>();
+
+  constructor(name: string = 'fixture') {
+    this.name = name;
+  }
+
+  /**
+   * Load fixtures from a directory of images with a same-named `.json` result next to each
+   * (e.g. `newspaper.jpg` + `newspaper.json`)
+   */
+  static async fromDirectory(directory: string, name?: string): Promise<FixtureOcrEngine> {
+    const engine = new FixtureOcrEngine(name);
+    const files = await readdir(directory);
+
+    for (const file of files) {
+      if (!FIXTURE_IMAGE_EXTENSIONS.includes(extname(file).toLowerCase())) continue;
+
+      const resultFile = `${file.slice(0, -extname(file).length)}.json`;
+      if (!files.includes(resultFile)) continue;
+
+      const [image, result] = await Promise.all([
+        readFile(join(directory, file)),
+        readFile(join(directory, resultFile), 'utf8'),
+      ]);
+      engine.add(image, JSON.parse(result) as OCRExtractResult);
+    }
+
+    return engine;
+  }
+
+  /**
+   * Register the result to return for an image
+   */
+  add(imageBuffer: Buffer, result: OCRExtractResult): void {
+    this.fixtures.set(OCRCache.hash(imageBuffer), result);
+  }
+
+  /**
+   * Number of registered images
+   */
+  get size(): number {
+    return this.fixtures.size;
+  }
+
+  /**
+   * Return the recorded result for an image
+   * @throws Error if the image has no fixture
+   */
+  async extractPuzzle(
+    imageBuffer: Buffer,
+    _onProgress?: unknown,
+    job?: JobOptions
+  ): Promise<OCRExtractResult> {
+    if (job?.signal?.aborted) {
+      throw new JobCancelledError();
+    }
+
+    const result = this.fixtures.get(OCRCache.hash(imageBuffer));
+    if (!result) {
+      throw new Error('No OCR fixture for this image');
+    }
+    return result;
+  }
+
+  validatePuzzle(puzzle: string): { valid: boolean; error?: string } {
+    return validatePuzzle(puzzle);
+  }
+}
@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'bun:test';
+import { createCanvas, loadImage, type Canvas } from '@napi-rs/canvas';
+import {
+  computeHomography,
+  findGridCorners,
+  findGrids,
+  rectifyGrid,
+  rotateImage,
+  scaleImage,
+  splitGrids,
+  warpGrid,
+  type GridCorners,
+  type Pixels,
+} from './gridRectifier.js';
+
+const SKEWED: GridCorners = {
+  topLeft: { x: 60, y: 40 },
+  topRight: { x: 330, y: 70 },
+  bottomRight: { x: 350, y: 320 },
+  bottomLeft: { x: 40, y: 290 },
+};
+
+/** Draw a 9x9 grid with the given corners */
+function drawGrid(canvas: Canvas, corners: GridCorners, lineWidth = 3) {
+  const ctx = canvas.getContext('2d');
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = lineWidth;
+
+  const lerp = (a: { x: number; y: number }, b: { x: number; y: number }, t: number) => ({
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+  });
+  for (let i = 0; i <= 9; i++) {
+    const t = i / 9;
+    const top = lerp(corners.topLeft, corners.topRight, t);
+    const bottom = lerp(corners.bottomLeft, corners.bottomRight, t);
+    const left = lerp(corners.topLeft, corners.bottomLeft, t);
+    const right = lerp(corners.topRight, corners.bottomRight, t);
+    ctx.beginPath();
+    ctx.moveTo(top.x, top.y);
+    ctx.lineTo(bottom.x, bottom.y);
+    ctx.moveTo(left.x, left.y);
+    ctx.lineTo(right.x, right.y);
+    ctx.stroke();
+  }
+}
+
+function blankPage(width: number, height: number): Canvas {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  return canvas;
+}
+
+/** Draw a skewed 9x9 grid on white paper */
+function drawSkewedGrid(width = 400, height = 360) {
+  const canvas = blankPage(width, height);
+  drawGrid(canvas, SKEWED);
+  return canvas;
+}
+
+/** Square grid corners at (x, y) */
+function square(x: number, y: number, size: number): GridCorners {
+  return {
+    topLeft: { x, y },
+    topRight: { x: x + size, y },
+    bottomRight: { x: x + size, y: y + size },
+    bottomLeft: { x, y: y + size },
+  };
+}
+
+/** A page with four grids in two rows, plus a headline and a photo-like block */
+function drawPage() {
+  const canvas = blankPage(600, 800);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#000000';
+  ctx.font = '32px sans-serif';
+  ctx.fillText('DAILY PUZZLES', 40, 50);
+  ctx.fillRect(40, 660, 520, 100);
+
+  drawGrid(canvas, square(320, 360, 230), 2);
+  drawGrid(canvas, square(40, 100, 230), 2);
+  drawGrid(canvas, square(40, 370, 230), 2);
+  drawGrid(canvas, square(330, 100, 230), 2);
+  return canvas;
+}
+
+function pixelsOf(canvas: Canvas): Pixels {
+  return canvas.getContext('2d').getImageData(0, 0, canvas.width, canvas.height);
+}
+
+describe('findGridCorners', () => {
+  it('finds the corners of a skewed grid', () => {
+    const corners = findGridCorners(pixelsOf(drawSkewedGrid()));
+    expect(corners).toBeDefined();
+
+    for (const key of ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'] as const) {
+      expect(Math.abs(corners![key].x - SKEWED[key].x)).toBeLessThanOrEqual(4);
+      expect(Math.abs(corners![key].y - SKEWED[key].y)).toBeLessThanOrEqual(4);
+    }
+  });
+
+  it('ignores images without a grid', () => {
+    const canvas = createCanvas(200, 200);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, 200, 200);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(90, 90, 10, 10);
+
+    expect(findGridCorners(pixelsOf(canvas))).toBeUndefined();
+  });
+});
+
+describe('findGrids', () => {
+  it('finds every grid on a page in reading order', () => {
+    const grids = findGrids(pixelsOf(drawPage()));
+
+    expect(grids.map(grid => [grid.topLeft.x, grid.topLeft.y])).toEqual([
+      [expect.closeTo(40, -1), expect.closeTo(100, -1)],
+      [expect.closeTo(330, -1), expect.closeTo(100, -1)],
+      [expect.closeTo(40, -1), expect.closeTo(370, -1)],
+      [expect.closeTo(320, -1), expect.closeTo(360, -1)],
+    ]);
+  });
+
+  it('finds a single grid', () => {
+    expect(findGrids(pixelsOf(drawSkewedGrid()))).toHaveLength(1);
+  });
+});
+
+describe('computeHomography', () => {
+  it('maps each point onto its target', () => {
+    const from = [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 100 },
+      { x: 0, y: 100 },
+    ];
+    const to = [SKEWED.topLeft, SKEWED.topRight, SKEWED.bottomRight, SKEWED.bottomLeft];
+    const h = computeHomography(from, to);
+
+    from.forEach((point, i) => {
+      const w = h[6]! * point.x + h[7]! * point.y + h[8]!;
+      expect((h[0]! * point.x + h[1]! * point.y + h[2]!) / w).toBeCloseTo(to[i]!.x, 6);
+      expect((h[3]! * point.x + h[4]! * point.y + h[5]!) / w).toBeCloseTo(to[i]!.y, 6);
+    });
+  });
+
+  it('rejects corners that do not span an area', () => {
+    const point = { x: 5, y: 5 };
+    expect(() =>
+      computeHomography([point, point, point, point], [point, point, point, point])
+    ).toThrow();
+  });
+});
+
+describe('warpGrid', () => {
+  it('moves the grid corners to the corners of the square', () => {
+    const warped = warpGrid(pixelsOf(drawSkewedGrid()), SKEWED, 180, 10);
+    const dark = (x: number, y: number) => warped.data[(y * warped.width + x) * 4]! < 128;
+
+    expect(warped.width).toBe(180);
+    expect(dark(10, 10)).toBe(true);
+    expect(dark(168, 168)).toBe(true);
+    expect(dark(90, 10)).toBe(true);
+    // Padding and the middle of the first cell stay white
+    expect(dark(3, 3)).toBe(false);
+    expect(dark(19, 19)).toBe(false);
+  });
+});
+
+describe('rectifyGrid', () => {
+  it('straightens a skewed grid into a square image', async () => {
+    const rectified = await rectifyGrid(drawSkewedGrid().toBuffer('image/png'));
+    const image = await loadImage(rectified);
+    expect(image.width).toBe(image.height);
+  });
+
+  it('returns images without a grid unchanged', async () => {
+    const canvas = createCanvas(120, 80);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, 120, 80);
+    const buffer = canvas.toBuffer('image/png');
+
+    expect(await rectifyGrid(buffer)).toBe(buffer);
+  });
+});
+
+describe('splitGrids', () => {
+  it('straightens each grid on a page into its own image', async () => {
+    const images = await splitGrids(drawPage().toBuffer('image/png'));
+
+    expect(images).toHaveLength(4);
+    const first = await loadImage(images[0]!);
+    expect(first.width).toBe(first.height);
+  });
+
+  it('returns a photo of one grid unchanged', async () => {
+    const buffer = drawSkewedGrid().toBuffer('image/png');
+    expect(await splitGrids(buffer)).toEqual([buffer]);
+  });
+});
+
+describe('rotateImage', () => {
+  it('swaps width and height for quarter turns', async () => {
+    const buffer = createCanvas(120, 80).toBuffer('image/png');
+
+    const quarter = await loadImage(await rotateImage(buffer, 1));
+    expect([quarter.width, quarter.height]).toEqual([80, 120]);
+
+    const half = await loadImage(await rotateImage(buffer, 2));
+    expect([half.width, half.height]).toEqual([120, 80]);
+  });
+
+  it('turns the top-left corner to the top-right clockwise', async () => {
+    const canvas = createCanvas(40, 40);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, 40, 40);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, 10, 10);
+
+    const rotated = await loadImage(await rotateImage(canvas.toBuffer('image/png'), 1));
+    const check = createCanvas(40, 40);
+    const checkCtx = check.getContext('2d');
+    checkCtx.drawImage(rotated, 0, 0);
+    const pixels = checkCtx.getImageData(0, 0, 40, 40).data;
+
+    expect(pixels[(5 * 40 + 35) * 4]).toBeLessThan(128);
+    expect(pixels[(5 * 40 + 5) * 4]).toBeGreaterThan(128);
+  });
+});
+
+describe('scaleImage', () => {
+  it('shrinks images to fit the longest side', async () => {
+    const scaled = await loadImage(
+      await scaleImage(createCanvas(800, 400).toBuffer('image/png'), 200)
+    );
+    expect([scaled.width, scaled.height]).toEqual([200, 100]);
+  });
+
+  it('keeps small images at their size', async () => {
+    const scaled = await loadImage(
+      await scaleImage(createCanvas(120, 80).toBuffer('image/png'), 200)
+    );
+    expect([scaled.width, scaled.height]).toEqual([120, 80]);
+  });
+});
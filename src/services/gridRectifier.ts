@@ -0,0 +1,545 @@
+/**
+ * Grid Rectifier
+ * Straightens photos taken at an angle: finds the puzzle grid's four corners and warps
+ * the grid back into a square, splits pages with several grids, and rotates images by
+ * quarter turns
+ */
+
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+
+/**
+ * RGBA pixels, laid out like canvas ImageData
+ */
+export interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * A rectangle in image coordinates
+ */
+export interface CellRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Grid corners in image coordinates
+ */
+export interface GridCorners {
+  topLeft: Point;
+  topRight: Point;
+  bottomRight: Point;
+  bottomLeft: Point;
+}
+
+/** Longest side of the downscaled copy used to find the grid */
+const DETECTION_SIZE = 400;
+
+/** Smallest part of the image the grid may cover, to skip specks and stray lines */
+const MIN_GRID_AREA = 0.15;
+
+/** Smallest part of a page one of several grids may cover */
+const MIN_PAGE_GRID_AREA = 0.02;
+
+/** Most a grid's width and height may differ (as a ratio) */
+const MAX_GRID_ASPECT = 1.6;
+
+/** Most of its bounding box a grid's lines may cover */
+const MAX_GRID_INK = 0.5;
+
+/** Longest side of the downscaled copy used to find several grids on a page */
+const PAGE_DETECTION_SIZE = 800;
+
+/** Longest side of the copy a grid is warped from; larger photos add detail nobody sees */
+const WARP_SOURCE_SIZE = 2400;
+
+/** Side of the straightened grid image (px) */
+const RECTIFIED_SIZE = 900;
+
+/** White border kept around the straightened grid, so its outer lines stay visible */
+const RECTIFIED_PADDING = 0.03;
+
+function luminance(data: Uint8ClampedArray, offset: number): number {
+  return 0.299 * data[offset]! + 0.587 * data[offset + 1]! + 0.114 * data[offset + 2]!;
+}
+
+/**
+ * Grey level (0-255) of every pixel
+ */
+export function greyLevels(pixels: Pixels): Uint8Array {
+  const count = pixels.width * pixels.height;
+  const grey = new Uint8Array(count);
+  for (let i = 0; i < count; i++) grey[i] = Math.round(luminance(pixels.data, i * 4));
+  return grey;
+}
+
+/**
+ * Pick the grey level that best separates ink from paper (Otsu's method)
+ */
+export function otsuThreshold(grey: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of grey) histogram[value]!++;
+
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i]!;
+
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let best = 0;
+  let threshold = 127;
+
+  for (let i = 0; i < 256; i++) {
+    backgroundCount += histogram[i]!;
+    if (backgroundCount === 0) continue;
+    const foregroundCount = grey.length - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += i * histogram[i]!;
+    const meanBackground = backgroundSum / backgroundCount;
+    const meanForeground = (sum - backgroundSum) / foregroundCount;
+    const between = backgroundCount * foregroundCount * (meanBackground - meanForeground) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = i;
+    }
+  }
+
+  return threshold;
+}
+
+/**
+ * A connected shape of dark pixels
+ */
+export interface DarkRegion {
+  /** Pixel indexes (y * width + x) */
+  pixels: number[];
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+function boundingArea(region: DarkRegion): number {
+  return (region.maxX - region.minX + 1) * (region.maxY - region.minY + 1);
+}
+
+/**
+ * Label the connected shapes of dark (ink) pixels
+ * @param threshold - Grey level up to which a pixel is ink (default: Otsu's threshold)
+ */
+export function findDarkRegions(pixels: Pixels, threshold?: number): DarkRegion[] {
+  const { width, height } = pixels;
+  const count = width * height;
+
+  const grey = greyLevels(pixels);
+  threshold ??= otsuThreshold(grey);
+
+  const visited = new Uint8Array(count);
+  const stack: number[] = [];
+  const regions: DarkRegion[] = [];
+
+  for (let start = 0; start < count; start++) {
+    if (visited[start] || grey[start]! > threshold) continue;
+
+    const region: DarkRegion = { pixels: [], minX: width, maxX: 0, minY: height, maxY: 0 };
+    visited[start] = 1;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      region.pixels.push(index);
+      const x = index % width;
+      const y = (index - x) / width;
+      region.minX = Math.min(region.minX, x);
+      region.maxX = Math.max(region.maxX, x);
+      region.minY = Math.min(region.minY, y);
+      region.maxY = Math.max(region.maxY, y);
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && !visited[next] && grey[next]! <= threshold) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    regions.push(region);
+  }
+
+  return regions;
+}
+
+/**
+ * Corners of a grid-shaped region: its extreme points along the diagonals
+ */
+function regionCorners(region: DarkRegion, width: number): GridCorners {
+  let topLeft = { x: 0, y: 0, score: Infinity };
+  let bottomRight = { x: 0, y: 0, score: -Infinity };
+  let topRight = { x: 0, y: 0, score: -Infinity };
+  let bottomLeft = { x: 0, y: 0, score: Infinity };
+
+  for (const index of region.pixels) {
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x + y < topLeft.score) topLeft = { x, y, score: x + y };
+    if (x + y > bottomRight.score) bottomRight = { x, y, score: x + y };
+    if (x - y > topRight.score) topRight = { x, y, score: x - y };
+    if (x - y < bottomLeft.score) bottomLeft = { x, y, score: x - y };
+  }
+
+  return {
+    topLeft: { x: topLeft.x, y: topLeft.y },
+    topRight: { x: topRight.x, y: topRight.y },
+    bottomRight: { x: bottomRight.x, y: bottomRight.y },
+    bottomLeft: { x: bottomLeft.x, y: bottomLeft.y },
+  };
+}
+
+/**
+ * Find the corners of the puzzle grid: the largest connected shape of dark pixels, whose
+ * extreme points along the diagonals are the grid's corners.
+ * @returns The corners, or undefined when no shape is large enough to be the grid
+ */
+export function findGridCorners(pixels: Pixels): GridCorners | undefined {
+  const count = pixels.width * pixels.height;
+  let best: DarkRegion | undefined;
+  for (const region of findDarkRegions(pixels)) {
+    if (!best || boundingArea(region) > boundingArea(best)) best = region;
+  }
+
+  if (!best || boundingArea(best) < count * MIN_GRID_AREA) {
+    return undefined;
+  }
+
+  const corners = regionCorners(best, pixels.width);
+  return quadArea(corners) >= count * MIN_GRID_AREA ? corners : undefined;
+}
+
+/**
+ * Find every puzzle grid on a page: roughly square shapes of thin lines that are not
+ * inside another grid, in reading order (rows top to bottom, then left to right)
+ */
+export function findGrids(pixels: Pixels): GridCorners[] {
+  const count = pixels.width * pixels.height;
+
+  const candidates = findDarkRegions(pixels).filter(region => {
+    const width = region.maxX - region.minX + 1;
+    const height = region.maxY - region.minY + 1;
+    const area = boundingArea(region);
+    return (
+      area >= count * MIN_PAGE_GRID_AREA &&
+      width / height >= 1 / MAX_GRID_ASPECT &&
+      width / height <= MAX_GRID_ASPECT &&
+      // Grid lines cover little of their box; photos and solid blocks cover most of it
+      region.pixels.length / area <= MAX_GRID_INK
+    );
+  });
+
+  const grids = candidates.filter(
+    region =>
+      !candidates.some(
+        other =>
+          other !== region &&
+          other.minX <= region.minX &&
+          other.maxX >= region.maxX &&
+          other.minY <= region.minY &&
+          other.maxY >= region.maxY
+      ) && quadArea(regionCorners(region, pixels.width)) >= boundingArea(region) / 2
+  );
+
+  // Group grids into rows, where a grid starting above the bottom of the row joins it
+  grids.sort((a, b) => a.minY - b.minY);
+  const rows: DarkRegion[][] = [];
+  let rowBottom = -1;
+  for (const grid of grids) {
+    if (rows.length === 0 || grid.minY > rowBottom) {
+      rows.push([]);
+      rowBottom = grid.maxY;
+    } else {
+      rowBottom = Math.max(rowBottom, grid.maxY);
+    }
+    rows[rows.length - 1]!.push(grid);
+  }
+
+  return rows.flatMap(row =>
+    row.sort((a, b) => a.minX - b.minX).map(grid => regionCorners(grid, pixels.width))
+  );
+}
+
+/**
+ * Area of the quadrilateral spanned by the corners (shoelace formula)
+ */
+function quadArea(corners: GridCorners): number {
+  const points = [corners.topLeft, corners.topRight, corners.bottomRight, corners.bottomLeft];
+  let twiceArea = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]!;
+    const b = points[(i + 1) % points.length]!;
+    twiceArea += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+/**
+ * Compute the perspective transform mapping each `from` point onto the matching `to` point
+ * @returns The 3x3 homography in row-major order, with the last entry fixed at 1
+ */
+export function computeHomography(from: Point[], to: Point[]): number[] {
+  // Eight equations (two per point pair) in the eight unknown entries
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i]!;
+    const { x: u, y: v } = to[i]!;
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row]![col]!) > Math.abs(rows[pivot]![col]!)) pivot = row;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot]!, rows[col]!];
+
+    const pivotRow = rows[col]!;
+    if (Math.abs(pivotRow[col]!) < 1e-12) {
+      throw new Error('Grid corners do not span a quadrilateral');
+    }
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const current = rows[row]!;
+      const factor = current[col]! / pivotRow[col]!;
+      for (let k = col; k < 9; k++) current[k]! -= factor * pivotRow[k]!;
+    }
+  }
+
+  return [...rows.map((row, i) => row[8]! / row[i]!), 1];
+}
+
+function applyHomography(h: number[], x: number, y: number): Point {
+  const w = h[6]! * x + h[7]! * y + h[8]!;
+  return {
+    x: (h[0]! * x + h[1]! * y + h[2]!) / w,
+    y: (h[3]! * x + h[4]! * y + h[5]!) / w,
+  };
+}
+
+/**
+ * Warp the grid inside `corners` into a `size` x `size` square, leaving `padding` pixels of
+ * white around it. Pixels are sampled bilinearly; anything outside the source is white.
+ */
+export function warpGrid(
+  source: Pixels,
+  corners: GridCorners,
+  size: number,
+  padding: number = 0
+): Pixels {
+  const near = padding;
+  const far = size - 1 - padding;
+  // Map output pixels back into the source, so every output pixel gets a value
+  const h = computeHomography(
+    [
+      { x: near, y: near },
+      { x: far, y: near },
+      { x: far, y: far },
+      { x: near, y: far },
+    ],
+    [corners.topLeft, corners.topRight, corners.bottomRight, corners.bottomLeft]
+  );
+
+  const data = new Uint8ClampedArray(size * size * 4).fill(255);
+  const { width, height } = source;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const { x: sx, y: sy } = applyHomography(h, x, y);
+      if (sx < 0 || sy < 0 || sx > width - 1 || sy > height - 1) continue;
+
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(x0 + 1, width - 1);
+      const y1 = Math.min(y0 + 1, height - 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const out = (y * size + x) * 4;
+
+      for (let channel = 0; channel < 3; channel++) {
+        const topValue =
+          source.data[(y0 * width + x0) * 4 + channel]! * (1 - fx) +
+          source.data[(y0 * width + x1) * 4 + channel]! * fx;
+        const bottomValue =
+          source.data[(y1 * width + x0) * 4 + channel]! * (1 - fx) +
+          source.data[(y1 * width + x1) * 4 + channel]! * fx;
+        data[out + channel] = topValue * (1 - fy) + bottomValue * fy;
+      }
+    }
+  }
+
+  return { width: size, height: size, data };
+}
+
+/**
+ * Straighten a photo of a puzzle: find the grid and warp it into a square PNG.
+ * @returns The straightened image, or the original buffer when no grid is found
+ */
+export async function rectifyGrid(imageBuffer: Buffer): Promise<Buffer> {
+  const image = await loadImage(imageBuffer);
+
+  // Find the grid on a small copy; corners only need to be roughly right
+  const small = downscale(image, DETECTION_SIZE);
+  const found = findGridCorners(small.pixels);
+  if (!found) {
+    return imageBuffer;
+  }
+
+  const source = downscale(image, WARP_SOURCE_SIZE);
+  return straighten(source.pixels, scaleCorners(found, source.scale / small.scale));
+}
+
+/**
+ * Where each cell sits in a straightened grid image from `rectifyGrid`, row by row
+ * @param size - Side of the straightened image (px)
+ */
+export function gridCellRects(size: number): CellRect[] {
+  const padding = Math.round(size * RECTIFIED_PADDING);
+  const cellSize = (size - 1 - 2 * padding) / 9;
+
+  const cells: CellRect[] = [];
+  for (let row = 0; row < 9; row++) {
+    for (let column = 0; column < 9; column++) {
+      cells.push({
+        x: padding + column * cellSize,
+        y: padding + row * cellSize,
+        width: cellSize,
+        height: cellSize,
+      });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Split a page with several puzzles into one straightened image per grid
+ * @returns One image per grid, in reading order, or the original image alone when it
+ * holds fewer than two grids
+ */
+export async function splitGrids(imageBuffer: Buffer): Promise<Buffer[]> {
+  const image = await loadImage(imageBuffer);
+
+  // Grids on a busy page are small, so look on a larger copy than for a single grid
+  const small = downscale(image, PAGE_DETECTION_SIZE);
+  const grids = findGrids(small.pixels);
+  if (grids.length < 2) {
+    return [imageBuffer];
+  }
+
+  const source = downscale(image, WARP_SOURCE_SIZE);
+  return grids.map(corners =>
+    straighten(source.pixels, scaleCorners(corners, source.scale / small.scale))
+  );
+}
+
+export type LoadedImage = Awaited<ReturnType<typeof loadImage>>;
+
+/**
+ * Read every pixel of a loaded image
+ */
+export function readPixels(image: LoadedImage): Pixels {
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, image.width, image.height);
+}
+
+function downscale(image: LoadedImage, maxSide: number): { pixels: Pixels; scale: number } {
+  const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
+  const canvas = createCanvas(
+    Math.max(1, Math.round(image.width * scale)),
+    Math.max(1, Math.round(image.height * scale))
+  );
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { pixels: ctx.getImageData(0, 0, canvas.width, canvas.height), scale };
+}
+
+function scaleCorners(corners: GridCorners, factor: number): GridCorners {
+  const scale = (point: Point): Point => ({ x: point.x * factor, y: point.y * factor });
+  return {
+    topLeft: scale(corners.topLeft),
+    topRight: scale(corners.topRight),
+    bottomRight: scale(corners.bottomRight),
+    bottomLeft: scale(corners.bottomLeft),
+  };
+}
+
+/**
+ * Warp the grid at `corners` into a padded square PNG
+ */
+function straighten(source: Pixels, corners: GridCorners): Buffer {
+  const warped = warpGrid(
+    source,
+    corners,
+    RECTIFIED_SIZE,
+    Math.round(RECTIFIED_SIZE * RECTIFIED_PADDING)
+  );
+
+  const output = createCanvas(RECTIFIED_SIZE, RECTIFIED_SIZE);
+  const outputCtx = output.getContext('2d');
+  const imageData = outputCtx.createImageData(RECTIFIED_SIZE, RECTIFIED_SIZE);
+  imageData.data.set(warped.data);
+  outputCtx.putImageData(imageData, 0, 0);
+  return output.toBuffer('image/png');
+}
+
+/**
+ * Rotate an image clockwise by a number of quarter turns
+ * @returns PNG image data
+ */
+export async function rotateImage(imageBuffer: Buffer, quarterTurns: number): Promise<Buffer> {
+  const image = await loadImage(imageBuffer);
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  const sideways = turns % 2 === 1;
+
+  const canvas = createCanvas(
+    sideways ? image.height : image.width,
+    sideways ? image.width : image.height
+  );
+  const ctx = canvas.getContext('2d');
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((turns * Math.PI) / 2);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+  return canvas.toBuffer('image/png');
+}
+
+/**
+ * Shrink an image to fit within `maxSide` pixels, e.g. to show it in a card
+ * @returns JPEG image data
+ */
+export async function scaleImage(imageBuffer: Buffer, maxSide: number): Promise<Buffer> {
+  const image = await loadImage(imageBuffer);
+  const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
+
+  const canvas = createCanvas(
+    Math.max(1, Math.round(image.width * scale)),
+    Math.max(1, Math.round(image.height * scale))
+  );
+  canvas.getContext('2d').drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toBuffer('image/jpeg', 80);
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'bun:test';
+import type { SolverHintStep } from '@sudobility/sudojo_types';
+import {
+  describeHintLevel,
+  describeHintRegion,
+  hintLevelStep,
+  nextHintLevel,
+  summarizeHintLevels,
+} from './hintLevels.js';
+
+function step(overrides: Partial<SolverHintStep> = {}): SolverHintStep {
+  return {
+    title: 'Hidden Single',
+    text: 'In box 5, 4 fits in only one cell.',
+    areas: [{ type: 'block', color: 'blue', index: 4 }],
+    cells: [
+      {
+        row: 4,
+        column: 3,
+        color: 'green',
+        fill: true,
+        actions: { select: '4', unselect: '', add: '', remove: '', highlight: '4' },
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('describeHintRegion', () => {
+  it('names the areas of the first step', () => {
+    const areas: SolverHintStep['areas'] = [
+      { type: 'row', color: 'blue', index: 2 },
+      { type: 'column', color: 'blue', index: 3 },
+      { type: 'block', color: 'blue', index: 1 },
+    ];
+
+    expect(describeHintRegion([step()])).toBe('box 5');
+    expect(describeHintRegion([step({ areas })])).toBe('row 3, column 4 and box 2');
+  });
+
+  it('falls back to the box of the first cell', () => {
+    expect(describeHintRegion([step({ areas: [] })])).toBe('box 5');
+  });
+
+  it('returns undefined when the hint points nowhere', () => {
+    expect(describeHintRegion([step({ areas: [], cells: [] })])).toBeUndefined();
+    expect(describeHintRegion([])).toBeUndefined();
+  });
+});
+
+describe('nextHintLevel', () => {
+  it('climbs from the technique to the answer', () => {
+    const steps = [step()];
+
+    expect(nextHintLevel('nudge', steps)).toBe('region');
+    expect(nextHintLevel('region', steps)).toBe('cells');
+    expect(nextHintLevel('cells', steps)).toBe('answer');
+    expect(nextHintLevel('answer', steps)).toBeUndefined();
+  });
+
+  it('skips levels with nothing to show', () => {
+    expect(nextHintLevel('nudge', [step({ areas: [], cells: [] })])).toBe('answer');
+  });
+});
+
+describe('hintLevelStep', () => {
+  it('shows nothing for a nudge', () => {
+    expect(hintLevelStep([step()], 'nudge')).toBeUndefined();
+  });
+
+  it('shows only the areas for the region', () => {
+    const shown = hintLevelStep([step()], 'region');
+
+    expect(shown?.areas).toHaveLength(1);
+    expect(shown?.cells).toEqual([]);
+  });
+
+  it('shows the cells without their digits', () => {
+    const shown = hintLevelStep([step()], 'cells');
+
+    expect(shown?.cells[0]?.row).toBe(4);
+    expect(shown?.cells[0]?.actions.select).toBe('');
+    expect(shown?.cells[0]?.actions.highlight).toBe('');
+    expect(shown?.text).toBe('');
+  });
+});
+
+describe('describeHintLevel', () => {
+  it('gives away a little more at each level', () => {
+    const steps = [step()];
+
+    expect(describeHintLevel('Hidden Single', steps, 'nudge')).toBe(
+      'Try the **Hidden Single** technique.'
+    );
+    expect(describeHintLevel('Hidden Single', steps, 'region')).toBe(
+      'Look in box 5 for the Hidden Single.'
+    );
+    expect(describeHintLevel('Hidden Single', steps, 'cells')).toContain('highlighted cells');
+  });
+});
+
+describe('summarizeHintLevels', () => {
+  it('counts hints by the help they needed', () => {
+    const summary = summarizeHintLevels([
+      { level: 'answer' },
+      { level: 'nudge' },
+      { level: 'answer' },
+    ]);
+
+    expect(summary).toBe('Hints applied: 3 (technique only: 1, answer: 2)');
+  });
+
+  it('returns undefined without hints', () => {
+    expect(summarizeHintLevels([])).toBeUndefined();
+  });
+});
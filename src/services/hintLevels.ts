@@ -0,0 +1,120 @@
+/**
+ * Hint Levels
+ * Graduated disclosure of a hint, so users can find the move themselves: first the
+ * technique, then where to look, then the cells involved, and only then the answer
+ */
+
+import type { SolverHintStep } from '@sudobility/sudojo_types';
+
+/**
+ * How much of a hint is shown
+ * - nudge: the technique name
+ * - region: the row, column or box to look in
+ * - cells: the cells involved, highlighted on the board
+ * - answer: the full explanation and placement, step by step
+ */
+export type HintLevel = 'nudge' | 'region' | 'cells' | 'answer';
+
+export const HINT_LEVELS: readonly HintLevel[] = ['nudge', 'region', 'cells', 'answer'];
+
+const LEVEL_LABELS: Record<HintLevel, string> = {
+  nudge: 'technique only',
+  region: 'region',
+  cells: 'cells',
+  answer: 'answer',
+};
+
+const NO_ACTIONS = { select: '', unselect: '', add: '', remove: '', highlight: '' };
+
+/**
+ * Describe where the first step of a hint happens, e.g. "box 5" or "row 3 and column 4"
+ * @returns Undefined if the step has no areas or cells
+ */
+export function describeHintRegion(steps: SolverHintStep[]): string | undefined {
+  const step = steps[0];
+  if (!step) return undefined;
+
+  const names = step.areas.map(area => {
+    const type = area.type === 'block' ? 'box' : area.type;
+    return `${type} ${area.index + 1}`;
+  });
+
+  // Without areas, point at the box of the first cell
+  const cell = step.cells[0];
+  if (names.length === 0 && cell) {
+    names.push(`box ${Math.floor(cell.row / 3) * 3 + Math.floor(cell.column / 3) + 1}`);
+  }
+
+  const unique = [...new Set(names)];
+  if (unique.length === 0) return undefined;
+  if (unique.length === 1) return unique[0];
+  return `${unique.slice(0, -1).join(', ')} and ${unique[unique.length - 1]}`;
+}
+
+/**
+ * The next level that adds something for this hint, skipping levels with nothing to show
+ * @returns Undefined once the answer is shown
+ */
+export function nextHintLevel(level: HintLevel, steps: SolverHintStep[]): HintLevel | undefined {
+  for (const next of HINT_LEVELS.slice(HINT_LEVELS.indexOf(level) + 1)) {
+    if (next === 'region' && !describeHintRegion(steps)) continue;
+    if (next === 'cells' && !steps[0]?.cells.length) continue;
+    return next;
+  }
+  return undefined;
+}
+
+/**
+ * The part of the first step to draw on the board at a level below the answer
+ * @returns Undefined when nothing should be highlighted
+ */
+export function hintLevelStep(
+  steps: SolverHintStep[],
+  level: Exclude<HintLevel, 'answer'>
+): SolverHintStep | undefined {
+  const step = steps[0];
+  if (!step || level === 'nudge') return undefined;
+
+  // Leave out the digits, which would give the answer away
+  return {
+    title: step.title,
+    text: '',
+    areas: step.areas,
+    cells: level === 'cells' ? step.cells.map(cell => ({ ...cell, actions: NO_ACTIONS })) : [],
+  };
+}
+
+/**
+ * What to tell the user at a level below the answer
+ */
+export function describeHintLevel(
+  technique: string,
+  steps: SolverHintStep[],
+  level: Exclude<HintLevel, 'answer'>
+): string {
+  switch (level) {
+    case 'nudge':
+      return `Try the **${technique}** technique.`;
+    case 'region':
+      return `Look in ${describeHintRegion(steps)} for the ${technique}.`;
+    case 'cells':
+      return `The highlighted cells are the key to the ${technique}.`;
+  }
+}
+
+/**
+ * Summarize how much help applied hints needed, e.g.
+ * "Hints applied: 5 (technique only: 2, region: 1, answer: 2)"
+ * @returns Undefined if no hints were applied
+ */
+export function summarizeHintLevels(records: { level: HintLevel }[]): string | undefined {
+  if (records.length === 0) return undefined;
+
+  const counts = HINT_LEVELS.map(level => ({
+    level,
+    count: records.filter(record => record.level === level).length,
+  })).filter(entry => entry.count > 0);
+
+  const details = counts.map(entry => `${LEVEL_LABELS[entry.level]}: ${entry.count}`).join(', ');
+  return `Hints applied: ${records.length} (${details})`;
+}
@@ -94,4 +94,28 @@ describe('ImageService', () => {
       expect(result).toBeUndefined();
     });
   });
+
+  describe('getImageAttachments', () => {
+    it('returns every image in attachment order', () => {
+      const attachments: Attachment[] = [
+        { contentType: 'image/png', name: 'page1.png' },
+        { contentType: 'text/plain', name: 'notes.txt' },
+        { contentType: 'image/jpeg', name: 'page2.jpg' },
+      ];
+      const context = {
+        activity: { attachments },
+      } as unknown as TurnContext;
+
+      const result = service.getImageAttachments(context);
+      expect(result.map(a => a.name)).toEqual(['page1.png', 'page2.jpg']);
+    });
+
+    it('handles undefined attachments', () => {
+      const context = {
+        activity: {},
+      } as unknown as TurnContext;
+
+      expect(service.getImageAttachments(context)).toEqual([]);
+    });
+  });
 });
@@ -125,7 +125,14 @@ export class ImageService {
    * Get the first image attachment from a message
    */
   getFirstImageAttachment(context: TurnContext): Attachment | undefined {
+    return this.getImageAttachments(context)[0];
+  }
+
+  /**
+   * Get all image attachments from a message, in the order they were attached
+   */
+  getImageAttachments(context: TurnContext): Attachment[] {
     const attachments = context.activity.attachments || [];
-    return attachments.find(a => this.isImageAttachment(a));
+    return attachments.filter(a => this.isImageAttachment(a));
   }
 }
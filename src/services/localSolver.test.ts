@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'bun:test';
+import { TechniqueId } from '@sudobility/sudojo_types';
+import { LocalSolver } from './localSolver.js';
+
+describe('LocalSolver', () => {
+  const solver = new LocalSolver();
+  const original =
+    '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+  const solution =
+    '534678912672195348198342567859761423426853791713924856961537284287419635345286179';
+  const empty = '0'.repeat(81);
+
+  describe('validate', () => {
+    it('finds the unique solution and rates singles-only puzzles', () => {
+      const result = solver.validate(original);
+
+      expect(result.valid).toBe(true);
+      expect(result.solution).toBe(solution);
+      expect(result.level).toBeGreaterThanOrEqual(1);
+      expect(result.level).toBeLessThanOrEqual(3);
+    });
+
+    it('rejects puzzles with several solutions', () => {
+      expect(solver.validate(`000${original.slice(3, 9)}${empty.slice(9)}`).valid).toBe(false);
+    });
+
+    it('rejects conflicting givens', () => {
+      expect(solver.validate(`55${original.slice(2)}`).valid).toBe(false);
+    });
+
+    it('rejects malformed puzzles', () => {
+      expect(solver.validate('123').valid).toBe(false);
+    });
+
+    it('solves puzzles that need more than singles, without a level', () => {
+      // A well-known hard puzzle that singles alone cannot crack
+      const hard =
+        '800000000003600000070090200050007000000045700000100030001000068008500010090000400';
+      const result = solver.validate(hard);
+
+      expect(result.valid).toBe(true);
+      expect(result.solution).toBe(
+        '812753649943682175675491283154237896369845721287169534521974368438526917796318452'
+      );
+      expect(result.level).toBeUndefined();
+    });
+  });
+
+  describe('solve', () => {
+    it('places a full house first', () => {
+      // Everything solved except R1C3
+      const user = solution.replace(/./g, (digit, i) =>
+        original[i] === '0' && i !== 2 ? digit : '0'
+      );
+      const result = solver.solve(original, user);
+
+      expect(result.hints.technique).toBe(TechniqueId.FULL_HOUSE);
+      expect(result.hints.steps.at(-1)!.text).toBe('Place 4 in R1C3.');
+      expect(result.board.user[2]).toBe('4');
+    });
+
+    it('gives a single with a reason and the placement', () => {
+      const result = solver.solve(original, empty);
+      const [reason, placement] = result.hints.steps;
+      const cell = placement!.cells[0]!;
+      const index = cell.row * 9 + cell.column;
+
+      expect(result.hints.steps).toHaveLength(2);
+      expect(result.hints.level).toBeGreaterThan(0);
+      expect(reason!.cells[0]!.actions.highlight).toBe(solution[index]);
+      expect(cell.actions.select).toBe(solution[index]);
+      expect(result.board.user[index]).toBe(solution[index]);
+      expect(result.board.user.split('').filter(d => d !== '0')).toHaveLength(1);
+    });
+
+    it('keeps solving to the end with singles', () => {
+      let user = empty;
+      for (let i = 0; i < 81 && user.includes('0'); i++) {
+        const result = solver.solve(original, user);
+        if (result.hints.steps.length === 0) break;
+        user = result.board.user;
+      }
+
+      const board = user.replace(/./g, (digit, i) => (digit === '0' ? original[i]! : digit));
+      expect(board).toBe(solution);
+    });
+
+    it('points out a wrong entry and removes it', () => {
+      // R1C3 should be 4
+      const user = `009${empty.slice(3)}`;
+      const result = solver.solve(original, user);
+
+      expect(result.hints.steps[0]!.title).toBe('Mistake');
+      expect(result.hints.steps[0]!.cells[0]!.actions.unselect).toBe('9');
+      expect(result.board.user).toBe(empty);
+    });
+
+    it('removes the placed digit from pencilmarks in the same houses', () => {
+      const pencilmarks = new Array(81).fill('123456789').join(',');
+      const result = solver.solve(original, empty, pencilmarks, true);
+      const cell = result.hints.steps[1]!.cells[0]!;
+      const index = cell.row * 9 + cell.column;
+      const digit = solution[index]!;
+      const marks = result.board.pencilmark.numbers.split(',');
+
+      expect(result.board.pencilmark.autopencil).toBe(true);
+      expect(marks[index]).toBe('');
+      expect(marks[cell.row * 9 + ((cell.column + 1) % 9)]).not.toContain(digit);
+      expect(marks[((cell.row + 3) % 9) * 9 + ((cell.column + 1) % 9)]).toContain(digit);
+    });
+
+    it('returns no steps when singles find nothing', () => {
+      const hard =
+        '800000000003600000070090200050007000000045700000100030001000068008500010090000400';
+      const result = solver.solve(hard, empty);
+
+      expect(result.hints.steps).toHaveLength(0);
+      expect(result.board.user).toBe(empty);
+    });
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Local Solver
+ * In-process Sudoku solver used when the solver API is unavailable: checks uniqueness,
+ * finds the solution and gives hints with the basic techniques (full house, hidden and
+ * naked singles)
+ */
+
+import {
+  TechniqueId,
+  type SolverAreaType,
+  type SolverHintArea,
+  type SolverHintCell,
+  type SolverHintStep,
+  type SolverHints,
+} from '@sudobility/sudojo_types';
+import type { SolveResult, ValidateResult } from './solverService.js';
+
+/** A house: one row, column or box */
+interface House {
+  type: SolverAreaType;
+  /** Row, column or box number (0-8) */
+  index: number;
+  /** Cell indexes (0-80) */
+  cells: number[];
+}
+
+/** A digit the basic techniques can place */
+interface Placement {
+  technique: TechniqueId;
+  cell: number;
+  digit: number;
+  /** The house that gives the digit away, except for naked singles */
+  house?: House;
+}
+
+const ALL_DIGITS = 0x3fe; // bits 1-9
+
+const HOUSES: House[] = [
+  ...Array.from({ length: 9 }, (_, i) => ({
+    type: 'row' as const,
+    index: i,
+    cells: Array.from({ length: 9 }, (_, j) => i * 9 + j),
+  })),
+  ...Array.from({ length: 9 }, (_, i) => ({
+    type: 'column' as const,
+    index: i,
+    cells: Array.from({ length: 9 }, (_, j) => j * 9 + i),
+  })),
+  ...Array.from({ length: 9 }, (_, i) => ({
+    type: 'block' as const,
+    index: i,
+    cells: Array.from(
+      { length: 9 },
+      (_, j) => (Math.floor(i / 3) * 3 + Math.floor(j / 3)) * 9 + (i % 3) * 3 + (j % 3)
+    ),
+  })),
+];
+
+/** Cells sharing a house with each cell */
+const PEERS: number[][] = Array.from({ length: 81 }, (_, cell) => {
+  const peers = new Set<number>();
+  for (const house of HOUSES) {
+    if (house.cells.includes(cell)) house.cells.forEach(peer => peers.add(peer));
+  }
+  peers.delete(cell);
+  return [...peers];
+});
+
+/** Technique names and levels, matching the solver API's numbering */
+const TECHNIQUES: Partial<Record<TechniqueId, { name: string; level: number }>> = {
+  [TechniqueId.FULL_HOUSE]: { name: 'Full House', level: 1 },
+  [TechniqueId.HIDDEN_SINGLE]: { name: 'Hidden Single', level: 2 },
+  [TechniqueId.NAKED_SINGLE]: { name: 'Naked Single', level: 3 },
+};
+
+function bitCount(mask: number): number {
+  let count = 0;
+  for (let m = mask; m; m &= m - 1) count++;
+  return count;
+}
+
+function digitsOf(mask: number): number[] {
+  const digits: number[] = [];
+  for (let d = 1; d <= 9; d++) if (mask & (1 << d)) digits.push(d);
+  return digits;
+}
+
+function cellName(cell: number): string {
+  return `R${Math.floor(cell / 9) + 1}C${(cell % 9) + 1}`;
+}
+
+function houseName(house: House): string {
+  const type = house.type === 'block' ? 'box' : house.type;
+  return `${type} ${house.index + 1}`;
+}
+
+/**
+ * Sudoku solver that runs in-process. Gives the same result shapes as the solver API so
+ * the dialogs can use either, but only knows the singles techniques.
+ */
+export class LocalSolver {
+  /**
+   * Validate a puzzle and find its solution
+   * @param original - Puzzle to validate (81 chars)
+   * @returns Valid only for puzzles with exactly one solution; the level is the hardest
+   * technique needed, when singles are enough to solve it
+   */
+  validate(original: string): ValidateResult {
+    const grid = this.parseGrid(original);
+    if (!grid || this.hasConflicts(grid)) {
+      return { valid: false };
+    }
+
+    const solutions = this.findSolutions(grid, 2);
+    if (solutions.length !== 1) {
+      return { valid: false };
+    }
+
+    return {
+      valid: true,
+      level: this.rate(grid),
+      solution: solutions[0]!.join(''),
+    };
+  }
+
+  /**
+   * Get a hint for the current puzzle state, with the board after it is applied
+   * @param original - Original puzzle (81 chars)
+   * @param user - User's current input (81 chars)
+   * @param pencilmarks - Optional comma-delimited pencilmarks, updated along with the board
+   * @param autoPencilmarks - Whether autopencilmarks is enabled
+   * @returns A hint fixing the first wrong entry, else the simplest single; no steps when
+   * the basic techniques find nothing
+   */
+  solve(
+    original: string,
+    user: string,
+    pencilmarks?: string,
+    autoPencilmarks: boolean = false
+  ): SolveResult {
+    const givens = this.parseGrid(original);
+    const entries = this.parseGrid(user);
+    if (!givens || !entries) {
+      throw new Error('Puzzle must be 81 digits');
+    }
+
+    const grid = givens.map((digit, i) => digit || entries[i]!);
+    const marks = pencilmarks ? pencilmarks.split(',') : undefined;
+    const board = (updatedUser: string) => ({
+      original,
+      user: updatedUser,
+      pencilmark: { autopencil: autoPencilmarks, numbers: marks ? marks.join(',') : '' },
+    });
+
+    const mistake = this.findMistake(givens, entries);
+    if (mistake !== undefined) {
+      const updated = [...entries];
+      updated[mistake] = 0;
+      return { board: board(updated.join('')), hints: this.mistakeHint(mistake, entries) };
+    }
+
+    const placement = this.findPlacement(grid);
+    if (!placement) {
+      return { board: board(user), hints: { technique: 0, level: 0, steps: [] } };
+    }
+
+    const updated = [...entries];
+    updated[placement.cell] = placement.digit;
+    if (marks) {
+      marks[placement.cell] = '';
+      for (const peer of PEERS[placement.cell]!) {
+        marks[peer] = (marks[peer] ?? '').replace(String(placement.digit), '');
+      }
+    }
+
+    return { board: board(updated.join('')), hints: this.placementHint(placement) };
+  }
+
+  private parseGrid(puzzle: string): number[] | undefined {
+    if (!/^[0-9]{81}$/.test(puzzle)) return undefined;
+    return puzzle.split('').map(Number);
+  }
+
+  private hasConflicts(grid: number[]): boolean {
+    return HOUSES.some(house => {
+      let seen = 0;
+      for (const cell of house.cells) {
+        const bit = grid[cell] ? 1 << grid[cell]! : 0;
+        if (seen & bit) return true;
+        seen |= bit;
+      }
+      return false;
+    });
+  }
+
+  private candidates(grid: number[], cell: number): number {
+    if (grid[cell]) return 0;
+    let used = 0;
+    for (const peer of PEERS[cell]!) used |= 1 << grid[peer]!;
+    return ALL_DIGITS & ~used;
+  }
+
+  /**
+   * Find up to `limit` solutions by backtracking, always filling the most constrained cell
+   */
+  private findSolutions(grid: number[], limit: number): number[][] {
+    const solutions: number[][] = [];
+    const work = [...grid];
+
+    const search = (): void => {
+      let best = -1;
+      let bestMask = 0;
+      let bestCount = 10;
+      for (let cell = 0; cell < 81; cell++) {
+        if (work[cell]) continue;
+        const mask = this.candidates(work, cell);
+        const count = bitCount(mask);
+        if (count < bestCount) {
+          best = cell;
+          bestMask = mask;
+          bestCount = count;
+          if (count <= 1) break;
+        }
+      }
+
+      if (best === -1) {
+        solutions.push([...work]);
+        return;
+      }
+
+      for (const digit of digitsOf(bestMask)) {
+        work[best] = digit;
+        search();
+        if (solutions.length >= limit) break;
+      }
+      work[best] = 0;
+    };
+
+    search();
+    return solutions;
+  }
+
+  /**
+   * Find the simplest digit to place: a full house, then a hidden single, then a naked single
+   */
+  private findPlacement(grid: number[]): Placement | undefined {
+    for (const house of HOUSES) {
+      const empty = house.cells.filter(cell => !grid[cell]);
+      if (empty.length !== 1) continue;
+      const mask = this.candidates(grid, empty[0]!);
+      if (bitCount(mask) === 1) {
+        return {
+          technique: TechniqueId.FULL_HOUSE,
+          cell: empty[0]!,
+          digit: digitsOf(mask)[0]!,
+          house,
+        };
+      }
+    }
+
+    for (const house of HOUSES) {
+      for (let digit = 1; digit <= 9; digit++) {
+        const places = house.cells.filter(cell => this.candidates(grid, cell) & (1 << digit));
+        if (places.length === 1) {
+          return { technique: TechniqueId.HIDDEN_SINGLE, cell: places[0]!, digit, house };
+        }
+      }
+    }
+
+    for (let cell = 0; cell < 81; cell++) {
+      const mask = this.candidates(grid, cell);
+      if (bitCount(mask) === 1) {
+        return { technique: TechniqueId.NAKED_SINGLE, cell, digit: digitsOf(mask)[0]! };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The hardest technique needed to solve the puzzle with singles alone
+   * @returns The technique level, or undefined if singles get stuck
+   */
+  private rate(grid: number[]): number | undefined {
+    const work = [...grid];
+    let level = 0;
+
+    while (work.includes(0)) {
+      const placement = this.findPlacement(work);
+      if (!placement) return undefined;
+      work[placement.cell] = placement.digit;
+      level = Math.max(level, TECHNIQUES[placement.technique]!.level);
+    }
+    return level;
+  }
+
+  /**
+   * The first user entry that differs from the solution, when the puzzle has exactly one
+   */
+  private findMistake(givens: number[], entries: number[]): number | undefined {
+    if (!entries.some(digit => digit !== 0) || this.hasConflicts(givens)) {
+      return undefined;
+    }
+    const solutions = this.findSolutions(givens, 2);
+    if (solutions.length !== 1) return undefined;
+
+    const solution = solutions[0]!;
+    const mistake = entries.findIndex(
+      (digit, cell) => digit !== 0 && !givens[cell] && digit !== solution[cell]
+    );
+    return mistake === -1 ? undefined : mistake;
+  }
+
+  private hintCell(
+    cell: number,
+    color: SolverHintCell['color'],
+    actions: Partial<SolverHintCell['actions']>
+  ): SolverHintCell {
+    return {
+      row: Math.floor(cell / 9),
+      column: cell % 9,
+      color,
+      fill: true,
+      actions: { select: '', unselect: '', add: '', remove: '', highlight: '', ...actions },
+    };
+  }
+
+  private mistakeHint(cell: number, entries: number[]): SolverHints {
+    const digit = String(entries[cell]);
+    return {
+      technique: 0,
+      level: 0,
+      steps: [
+        {
+          title: 'Mistake',
+          text: `${cellName(cell)} can't be ${digit}. Remove it and keep going.`,
+          areas: [],
+          cells: [this.hintCell(cell, 'red', { unselect: digit })],
+        },
+      ],
+    };
+  }
+
+  private placementHint(placement: Placement): SolverHints {
+    const { name, level } = TECHNIQUES[placement.technique]!;
+    const { cell, digit, house } = placement;
+    const areas: SolverHintArea[] = house
+      ? [{ type: house.type, color: 'blue', index: house.index }]
+      : [];
+
+    const reason = !house
+      ? `Every other digit is already in a row, column or box with ${cellName(cell)}.`
+      : placement.technique === TechniqueId.FULL_HOUSE
+        ? `${houseName(house)} has only one empty cell left.`
+        : `In ${houseName(house)}, ${digit} fits in only one cell.`;
+
+    const steps: SolverHintStep[] = [
+      {
+        title: name,
+        text: reason.charAt(0).toUpperCase() + reason.slice(1),
+        areas,
+        cells: [this.hintCell(cell, 'yellow', { highlight: String(digit) })],
+        digit,
+      },
+      {
+        title: name,
+        text: `Place ${digit} in ${cellName(cell)}.`,
+        areas,
+        cells: [this.hintCell(cell, 'green', { select: String(digit) })],
+        digit,
+      },
+    ];
+
+    return { technique: placement.technique, level, steps };
+  }
+}
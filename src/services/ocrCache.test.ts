@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { OCRCache } from './ocrCache.js';
+import type { OCRExtractResult } from './ocrEngine.js';
+
+describe('OCRCache', () => {
+  const result = (digitCount: number): OCRExtractResult => ({
+    puzzle: '0'.repeat(81),
+    confidence: 90,
+    digitCount,
+  });
+
+  describe('hash', () => {
+    it('hashes identical content to the same key', () => {
+      const a = OCRCache.hash(Buffer.from('image'));
+      expect(a).toBe(OCRCache.hash(Buffer.from('image')));
+      expect(a).not.toBe(OCRCache.hash(Buffer.from('other')));
+      expect(a).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('in memory', () => {
+    it('returns cached results', async () => {
+      const cache = new OCRCache();
+      await cache.set('a', result(1));
+
+      expect(await cache.get('a')).toEqual(result(1));
+      expect(await cache.get('b')).toBeUndefined();
+    });
+
+    it('evicts the least recently used entry', async () => {
+      const cache = new OCRCache({ maxEntries: 2 });
+      await cache.set('a', result(1));
+      await cache.set('b', result(2));
+      await cache.get('a');
+      await cache.set('c', result(3));
+
+      expect(cache.size).toBe(2);
+      expect(await cache.get('a')).toBeDefined();
+      expect(await cache.get('b')).toBeUndefined();
+      expect(await cache.get('c')).toBeDefined();
+    });
+  });
+
+  describe('on disk', () => {
+    let directory: string;
+    const key = (n: number) => String(n).repeat(64);
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'ocr-cache-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('keeps results across instances', async () => {
+      await new OCRCache({ directory }).set(key(1), result(7));
+
+      expect(await new OCRCache({ directory }).get(key(1))).toEqual(result(7));
+    });
+
+    it('keeps the board image across instances', async () => {
+      const boardImage = Buffer.from([0xff, 0xd8, 0xff, 0x00]);
+      await new OCRCache({ directory }).set(key(1), { ...result(7), boardImage });
+
+      const cached = await new OCRCache({ directory }).get(key(1));
+      expect(cached?.boardImage).toEqual(boardImage);
+    });
+
+    it('deletes evicted results from disk', async () => {
+      const cache = new OCRCache({ directory, maxEntries: 1 });
+      await cache.set(key(1), result(1));
+      await cache.set(key(2), result(2));
+
+      expect(await readdir(directory)).toEqual([`${key(2)}.json`]);
+    });
+  });
+});
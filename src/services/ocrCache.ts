@@ -0,0 +1,184 @@
+/**
+ * OCR Cache
+ * Content-addressed cache of OCR results so re-sent images skip Tesseract
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { OCRExtractResult } from './ocrEngine.js';
+
+export interface OCRCacheOptions {
+  /** Maximum number of cached results (default: 200) */
+  maxEntries?: number;
+  /** Directory to persist results in, so they survive restarts (default: memory only) */
+  directory?: string;
+}
+
+/**
+ * An OCR result as written to disk, with its board image in base64
+ */
+type StoredResult = Omit<OCRExtractResult, 'boardImage'> & { boardImage?: string };
+
+/**
+ * LRU cache of OCR results keyed by the SHA-256 of the image bytes.
+ * With a directory, every entry is also written to `<hash>.json` there; entries evicted from
+ * the cache are deleted from disk too, so the directory stays within `maxEntries` files.
+ */
+export class OCRCache {
+  private maxEntries: number;
+  private directory?: string;
+  /** Entries in least- to most-recently-used order; undefined = on disk, not loaded yet */
+  private entries = new Map<string, OCRExtractResult | undefined>();
+  private loadPromise: Promise<void> | null = null;
+
+  constructor(options: OCRCacheOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 200);
+    this.directory = options.directory;
+  }
+
+  /**
+   * Hash image bytes into a cache key
+   */
+  static hash(imageBuffer: Buffer): string {
+    return createHash('sha256').update(imageBuffer).digest('hex');
+  }
+
+  /**
+   * Number of cached results
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get a cached result and mark it as recently used
+   * @param key - Image hash from `OCRCache.hash`
+   */
+  async get(key: string): Promise<OCRExtractResult | undefined> {
+    await this.load();
+    if (!this.entries.has(key)) return undefined;
+
+    let result = this.entries.get(key);
+    if (!result) {
+      result = await this.readEntry(key);
+      if (!result) {
+        this.entries.delete(key);
+        return undefined;
+      }
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, result);
+    return result;
+  }
+
+  /**
+   * Cache a result, evicting the least recently used ones beyond `maxEntries`
+   * @param key - Image hash from `OCRCache.hash`
+   * @param result - OCR result for the image
+   */
+  async set(key: string, result: OCRExtractResult): Promise<void> {
+    await this.load();
+
+    this.entries.delete(key);
+    this.entries.set(key, result);
+    await this.writeEntry(key, result);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      await this.removeEntry(oldest);
+    }
+  }
+
+  /**
+   * Remove all cached results, including persisted ones
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    const keys = [...this.entries.keys()];
+    this.entries.clear();
+    await Promise.all(keys.map(key => this.removeEntry(key)));
+  }
+
+  /**
+   * Index results persisted by earlier runs, oldest first, dropping any beyond `maxEntries`
+   */
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadDirectory().catch(error => {
+        console.error('Error loading OCR cache directory:', error);
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async loadDirectory(): Promise<void> {
+    const directory = this.directory;
+    if (!directory) return;
+
+    await mkdir(directory, { recursive: true });
+    const files = (await readdir(directory)).filter(file => /^[0-9a-f]{64}\.json$/.test(file));
+    const dated = await Promise.all(
+      files.map(async file => ({
+        key: file.slice(0, -'.json'.length),
+        mtime: (await stat(join(directory, file))).mtimeMs,
+      }))
+    );
+    dated.sort((a, b) => a.mtime - b.mtime);
+
+    const stale = dated.slice(0, Math.max(0, dated.length - this.maxEntries));
+    await Promise.all(stale.map(entry => this.removeEntry(entry.key)));
+
+    for (const entry of dated.slice(stale.length)) {
+      this.entries.set(entry.key, undefined);
+    }
+  }
+
+  private entryPath(key: string): string | undefined {
+    return this.directory ? join(this.directory, `${key}.json`) : undefined;
+  }
+
+  private async readEntry(key: string): Promise<OCRExtractResult | undefined> {
+    const path = this.entryPath(key);
+    if (!path) return undefined;
+
+    try {
+      const { boardImage, ...result } = JSON.parse(await readFile(path, 'utf8')) as StoredResult;
+      return {
+        ...result,
+        ...(boardImage ? { boardImage: Buffer.from(boardImage, 'base64') } : {}),
+      };
+    } catch (error) {
+      console.error('Error reading cached OCR result:', error);
+      return undefined;
+    }
+  }
+
+  private async writeEntry(key: string, result: OCRExtractResult): Promise<void> {
+    const path = this.entryPath(key);
+    if (!path) return;
+
+    const stored: StoredResult = {
+      ...result,
+      boardImage: result.boardImage?.toString('base64'),
+    };
+    try {
+      await writeFile(path, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error writing cached OCR result:', error);
+    }
+  }
+
+  private async removeEntry(key: string): Promise<void> {
+    const path = this.entryPath(key);
+    if (!path) return;
+
+    try {
+      await rm(path, { force: true });
+    } catch (error) {
+      console.error('Error removing cached OCR result:', error);
+    }
+  }
+}
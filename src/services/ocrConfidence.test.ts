@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  findSuspiciousCells,
+  markCellsVerified,
+  describeSuspiciousCell,
+  LOW_CONFIDENCE_THRESHOLD,
+} from './ocrConfidence.js';
+
+describe('ocrConfidence', () => {
+  const original =
+    '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+  const user = '0'.repeat(81);
+
+  describe('findSuspiciousCells', () => {
+    it('returns nothing without per-cell confidence', () => {
+      expect(findSuspiciousCells({ original, user })).toEqual([]);
+    });
+
+    it('returns cells below the threshold, least confident first', () => {
+      const cellConfidence = new Array(81).fill(95);
+      cellConfidence[4] = LOW_CONFIDENCE_THRESHOLD - 1;
+      cellConfidence[1] = 20;
+      const alternatives = `01${'0'.repeat(79)}`;
+
+      const cells = findSuspiciousCells({ original, user, cellConfidence, alternatives });
+
+      expect(cells.map(c => c.index)).toEqual([1, 4]);
+      expect(cells[0]).toEqual({ index: 1, digit: '3', alternative: '1', confidence: 20 });
+      expect(cells[1]?.alternative).toBeUndefined();
+    });
+
+    it('reports handwritten digits for cells that are not givens', () => {
+      const cellConfidence = new Array(81).fill(95);
+      cellConfidence[2] = 30;
+      const withEntry = `004${user.slice(3)}`;
+
+      const [cell] = findSuspiciousCells({ original, user: withEntry, cellConfidence });
+
+      expect(cell?.digit).toBe('4');
+    });
+
+    it('respects a custom threshold', () => {
+      const cellConfidence = new Array(81).fill(80);
+      expect(findSuspiciousCells({ original, user, cellConfidence }, 90)).toHaveLength(81);
+    });
+  });
+
+  describe('markCellsVerified', () => {
+    it('sets edited cells to full confidence', () => {
+      const cellConfidence = new Array(81).fill(30);
+      const updated = markCellsVerified(cellConfidence, [0, 80]);
+
+      expect(updated?.[0]).toBe(100);
+      expect(updated?.[80]).toBe(100);
+      expect(updated?.[1]).toBe(30);
+      expect(cellConfidence[0]).toBe(30);
+    });
+
+    it('returns undefined without per-cell confidence', () => {
+      expect(markCellsVerified(undefined, [0])).toBeUndefined();
+    });
+  });
+
+  describe('describeSuspiciousCell', () => {
+    it('describes digit, empty and runner-up readings', () => {
+      expect(describeSuspiciousCell({ index: 0, digit: '5', confidence: 10 })).toBe('R1C1: 5?');
+      expect(describeSuspiciousCell({ index: 10, digit: '0', confidence: 10 })).toBe(
+        'R2C2: empty?'
+      );
+      expect(
+        describeSuspiciousCell({ index: 80, digit: '1', alternative: '7', confidence: 10 })
+      ).toBe('R9C9: 1 or 7?');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * OCR Confidence helpers
+ * Finds cells whose recognition is doubtful so users know what to double-check
+ */
+
+import type { PuzzleState } from '../state/conversationState.js';
+
+/** Cells recognized below this confidence (0-100) are flagged for review */
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+/**
+ * A cell whose OCR reading is doubtful
+ */
+export interface SuspiciousCell {
+  /** Cell index (0-80) */
+  index: number;
+  /** Recognized digit, given or handwritten ('0' = empty) */
+  digit: string;
+  /** Runner-up digit, if the OCR engine reported one */
+  alternative?: string;
+  /** Confidence for the recognized digit (0-100) */
+  confidence: number;
+}
+
+/**
+ * Find cells recognized with low confidence, least confident first
+ * @param puzzle - Puzzle with per-cell confidence (returns [] without it)
+ * @param threshold - Confidence below which a cell is flagged
+ */
+export function findSuspiciousCells(
+  puzzle: Pick<PuzzleState, 'original' | 'user' | 'cellConfidence' | 'alternatives'>,
+  threshold: number = LOW_CONFIDENCE_THRESHOLD
+): SuspiciousCell[] {
+  const cells: SuspiciousCell[] = [];
+  if (!puzzle.cellConfidence) return cells;
+
+  puzzle.cellConfidence.forEach((confidence, index) => {
+    if (confidence >= threshold) return;
+    const alternative = puzzle.alternatives?.[index];
+    const given = puzzle.original[index] ?? '0';
+    cells.push({
+      index,
+      digit: given !== '0' ? given : (puzzle.user[index] ?? '0'),
+      alternative: alternative && alternative !== '0' ? alternative : undefined,
+      confidence,
+    });
+  });
+
+  return cells.sort((a, b) => a.confidence - b.confidence);
+}
+
+/**
+ * Mark cells as verified by the user (full confidence)
+ * @returns Updated per-cell confidence, or undefined if there was none
+ */
+export function markCellsVerified(
+  cellConfidence: number[] | undefined,
+  indices: number[]
+): number[] | undefined {
+  if (!cellConfidence) return undefined;
+
+  const updated = [...cellConfidence];
+  for (const index of indices) {
+    updated[index] = 100;
+  }
+  return updated;
+}
+
+/**
+ * Describe a suspicious cell for the user (e.g. "R1C3: 7 or 1?", "R2C2: empty?")
+ */
+export function describeSuspiciousCell(cell: SuspiciousCell): string {
+  const position = `R${Math.floor(cell.index / 9) + 1}C${(cell.index % 9) + 1}`;
+  const reading = cell.digit === '0' ? 'empty' : cell.digit;
+  return cell.alternative
+    ? `${position}: ${reading} or ${cell.alternative}?`
+    : `${position}: ${reading}?`;
+}
@@ -0,0 +1,105 @@
+/**
+ * OCR Engine interface
+ * What the dialogs need from an OCR backend, independent of how digits are recognized
+ */
+
+import type { JobOptions, WorkerPoolStats } from './workerPool.js';
+
+export interface OCRExtractResult {
+  /** 81-char puzzle string (0 = empty); printed clues only when `user` is set */
+  puzzle: string;
+  /** Handwritten digits (81 chars, 0 = none), when the OCR engine tells them apart */
+  user?: string;
+  /** Average confidence score (0-100) */
+  confidence: number;
+  /** Number of digits recognized */
+  digitCount: number;
+  /** Per-cell confidence (81 entries, 0-100), when the OCR engine reports it */
+  cellConfidence?: number[];
+  /** Runner-up digit per cell (81 chars, 0 = none), when the OCR engine reports it */
+  alternatives?: string;
+  /** Small candidate digits written in empty cells, comma-delimited for all 81 cells */
+  pencilmarks?: string;
+  /** Cells (0-80) two engines read differently, when running an ensemble */
+  disagreements?: number[];
+  /** The (straightened) board image the digits were read from, when the engine has one */
+  boardImage?: Buffer;
+}
+
+/**
+ * Progress update while an image is being read
+ */
+export interface OcrProgress {
+  /** What the engine is doing (e.g. "recognizing text") */
+  status: string;
+  /** Fraction of the current stage that is done (0-1) */
+  progress: number;
+}
+
+/**
+ * An OCR backend that reads a Sudoku puzzle from an image
+ */
+export interface OcrEngine {
+  /** Engine name, as used in configuration */
+  readonly name: string;
+
+  /**
+   * Extract a Sudoku puzzle from an image buffer
+   * @param imageBuffer - Image data as Buffer
+   * @param onProgress - Optional progress callback
+   * @param job - Optional cancellation signal and queue position callback
+   */
+  extractPuzzle(
+    imageBuffer: Buffer,
+    onProgress?: (progress: OcrProgress) => void,
+    job?: JobOptions
+  ): Promise<OCRExtractResult>;
+
+  /**
+   * Extract every Sudoku puzzle from an image (e.g. a newspaper page with several grids).
+   * Engines without it read one puzzle per image.
+   * @returns One result per grid, in reading order
+   */
+  extractPuzzles?(
+    imageBuffer: Buffer,
+    onProgress?: (progress: OcrProgress) => void,
+    job?: JobOptions
+  ): Promise<OCRExtractResult[]>;
+
+  /**
+   * Validate that a puzzle string is valid
+   */
+  validatePuzzle(puzzle: string): { valid: boolean; error?: string };
+
+  /** Start any workers ahead of the first image */
+  warmUp?(): Promise<void>;
+
+  /** Current worker usage, for engines that queue images */
+  getQueueStats?(): WorkerPoolStats | undefined;
+
+  /** Release workers and fail queued images */
+  shutdown?(): Promise<void>;
+}
+
+/**
+ * Validate that a puzzle string is valid
+ * - Must be 81 characters
+ * - Must contain only digits 0-9
+ * - Must have at least 17 clues (minimum for unique solution)
+ */
+export function validatePuzzle(puzzle: string): { valid: boolean; error?: string } {
+  if (puzzle.length !== 81) {
+    return { valid: false, error: `Invalid length: ${puzzle.length}, expected 81` };
+  }
+
+  if (!/^[0-9]+$/.test(puzzle)) {
+    return { valid: false, error: 'Puzzle contains non-digit characters' };
+  }
+
+  const clueCount = puzzle.split('').filter(c => c !== '0').length;
+  if (clueCount < 17) {
+    return { valid: false, error: `Too few clues: ${clueCount}, minimum is 17` };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,97 @@
+/**
+ * OCR Engine Factory
+ * Builds the configured OCR engine (single engine or ensemble)
+ */
+
+import { join } from 'node:path';
+import { OCRService } from './ocrService.js';
+import { OCRCache } from './ocrCache.js';
+import { FixtureOcrEngine } from './fixtureOcrEngine.js';
+import { EnsembleOcrEngine } from './ensembleOcrEngine.js';
+import type { OcrEngine } from './ocrEngine.js';
+
+/**
+ * Available engines:
+ * - `tesseract`: sudojo_ocr + Tesseract with grid straightening and image preprocessing
+ * - `tesseract-raw`: the same without straightening or preprocessing, a useful second opinion
+ *   in an ensemble
+ * - `fixture`: recorded results for known images (needs `fixturesDir`)
+ */
+export const OCR_ENGINE_NAMES = ['tesseract', 'tesseract-raw', 'fixture'] as const;
+
+export type OcrEngineName = (typeof OCR_ENGINE_NAMES)[number];
+
+export interface OcrEngineConfig {
+  /** Engine name, or `ensemble` to run `ensembleEngines` side by side */
+  engine: string;
+  /** Primary and secondary engine names for `ensemble` (default: tesseract, tesseract-raw) */
+  ensembleEngines?: string[];
+  /** Tesseract workers per engine */
+  workers?: number;
+  /** Time allowed to read one image (ms) */
+  jobTimeoutMs?: number;
+  /** Maximum number of images waiting for a worker */
+  maxQueueLength?: number;
+  /** OCR results cached per engine */
+  cacheSize?: number;
+  /** Directory to persist cached results in (one subdirectory per engine) */
+  cacheDir?: string;
+  /** Directory of fixture images and results, for the `fixture` engine */
+  fixturesDir?: string;
+}
+
+/**
+ * Check whether a string names a single OCR engine
+ */
+export function isOcrEngineName(name: string): name is OcrEngineName {
+  return (OCR_ENGINE_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Create the OCR engine described by the config
+ * @throws Error for unknown engine names, an ensemble without exactly two engines, or the
+ * fixture engine without a fixtures directory
+ */
+export async function createOcrEngine(config: OcrEngineConfig): Promise<OcrEngine> {
+  if (config.engine === 'ensemble') {
+    const engines = config.ensembleEngines ?? ['tesseract', 'tesseract-raw'];
+    if (engines.length !== 2) {
+      throw new Error(`An OCR ensemble needs exactly two engines, got ${engines.length}`);
+    }
+    return new EnsembleOcrEngine(
+      await createSingleEngine(engines[0]!, config),
+      await createSingleEngine(engines[1]!, config)
+    );
+  }
+
+  return createSingleEngine(config.engine, config);
+}
+
+async function createSingleEngine(name: string, config: OcrEngineConfig): Promise<OcrEngine> {
+  if (!isOcrEngineName(name)) {
+    throw new Error(
+      `Unknown OCR engine: ${name} (expected ensemble, ${OCR_ENGINE_NAMES.join(', ')})`
+    );
+  }
+
+  if (name === 'fixture') {
+    if (!config.fixturesDir) {
+      throw new Error('The fixture OCR engine needs a fixtures directory');
+    }
+    return FixtureOcrEngine.fromDirectory(config.fixturesDir);
+  }
+
+  return new OCRService({
+    name,
+    preprocess: name !== 'tesseract-raw',
+    rectify: name !== 'tesseract-raw',
+    workers: config.workers,
+    jobTimeoutMs: config.jobTimeoutMs,
+    maxQueueLength: config.maxQueueLength,
+    // Engines read images differently, so each gets its own cache
+    cache: new OCRCache({
+      maxEntries: config.cacheSize,
+      directory: config.cacheDir ? join(config.cacheDir, name) : undefined,
+    }),
+  });
+}
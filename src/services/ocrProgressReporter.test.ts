@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'bun:test';
+import type { Activity, TurnContext } from 'botbuilder';
+import { OcrProgressReporter, describeOcrProgress } from './ocrProgressReporter.js';
+
+function createContext(channelId: string, failUpdates = false) {
+  const sent: Partial<Activity>[] = [];
+  const updated: Partial<Activity>[] = [];
+  const context = {
+    activity: { channelId },
+    sendActivity: async (activity: string | Partial<Activity>) => {
+      sent.push(typeof activity === 'string' ? { type: 'message', text: activity } : activity);
+      return { id: `activity-${sent.length}` };
+    },
+    updateActivity: async (activity: Partial<Activity>) => {
+      if (failUpdates) throw new Error('Updates not supported');
+      updated.push(activity);
+    },
+  } as unknown as TurnContext;
+  return { context, sent, updated };
+}
+
+function stageText(activity: Partial<Activity>): string {
+  return activity.attachments?.[0]?.content.body[1].text;
+}
+
+describe('describeOcrProgress', () => {
+  it('counts recognized cells', () => {
+    expect(describeOcrProgress({ status: 'recognizing text', progress: 0.5 })).toBe(
+      'Recognizing digits 41/81'
+    );
+  });
+
+  it('describes grid detection', () => {
+    expect(describeOcrProgress({ status: 'detecting board', progress: 0 })).toBe('Detecting grid');
+  });
+
+  it('describes engine start-up', () => {
+    expect(describeOcrProgress({ status: 'loading language traineddata', progress: 1 })).toBe(
+      'Starting OCR'
+    );
+  });
+
+  it('capitalizes unknown statuses', () => {
+    expect(describeOcrProgress({ status: 'cleaning up', progress: 1 })).toBe('Cleaning up');
+  });
+});
+
+describe('OcrProgressReporter', () => {
+  it('updates one status card on channels that support updates', async () => {
+    const { context, sent, updated } = createContext('msteams');
+    const reporter = new OcrProgressReporter(context, 0);
+
+    await reporter.start();
+    reporter.progress({ status: 'recognizing text', progress: 0.5 });
+    await reporter.finish('Read 30 digits');
+
+    expect(sent.filter(a => a.type === 'message')).toHaveLength(1);
+    expect(sent[0]!.type).toBe('typing');
+    expect(updated.map(a => a.id)).toEqual(['activity-2', 'activity-2']);
+    expect(stageText(updated[0]!)).toBe('Recognizing digits 41/81');
+    expect(stageText(updated[1]!)).toBe('Read 30 digits');
+  });
+
+  it('throttles frequent progress updates', async () => {
+    const { context, updated } = createContext('webchat');
+    const reporter = new OcrProgressReporter(context, 60_000);
+
+    await reporter.start();
+    for (let i = 1; i <= 10; i++) {
+      reporter.progress({ status: 'recognizing text', progress: i / 10 });
+    }
+    reporter.stage('Validating with solver', true);
+    await reporter.finish('Done');
+
+    expect(updated.map(stageText)).toEqual(['Validating with solver', 'Done']);
+  });
+
+  it('sends text and typing indicators on other channels', async () => {
+    const { context, sent, updated } = createContext('telegram');
+    const reporter = new OcrProgressReporter(context, 0);
+
+    await reporter.start();
+    reporter.queued(3);
+    reporter.progress({ status: 'recognizing text', progress: 1 });
+    await reporter.finish('Done');
+
+    expect(updated).toHaveLength(0);
+    expect(sent.filter(a => a.type === 'message').map(a => a.text)).toEqual([
+      'Processing your puzzle image...',
+      "Lots of puzzles right now - you're #3 in line.",
+    ]);
+    expect(sent.filter(a => a.type === 'typing').length).toBeGreaterThan(1);
+  });
+
+  it('falls back to typing indicators when updates fail', async () => {
+    const { context, sent } = createContext('directline', true);
+    const reporter = new OcrProgressReporter(context, 0);
+
+    await reporter.start();
+    reporter.stage('Detecting grid');
+    reporter.stage('Recognizing digits 10/81');
+    await reporter.finish('Done');
+
+    expect(sent.filter(a => a.type === 'typing')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * OCR Progress Reporter
+ * Keeps the user informed while a photo is read: typing indicators everywhere, plus a
+ * status card updated in place on channels that support message updates
+ */
+
+import { ActivityTypes, MessageFactory, type TurnContext } from 'botbuilder';
+import { createOcrStatusCard } from '../cards/ocrStatusCard.js';
+import type { OcrProgress } from './ocrEngine.js';
+
+/** Channels that can update a message after it was sent */
+const UPDATABLE_CHANNELS = ['msteams', 'webchat', 'directline', 'emulator'];
+
+/** Minimum time between status updates, to stay within channel rate limits */
+const MIN_UPDATE_INTERVAL_MS = 1500;
+
+/** Without a status card, tell users their place in the queue once they are this far back */
+const QUEUE_NOTICE_POSITION = 2;
+
+/**
+ * Describe an OCR progress update for the user (e.g. "Recognizing digits 40/81")
+ */
+export function describeOcrProgress(progress: OcrProgress): string {
+  const status = progress.status.toLowerCase();
+
+  if (status.includes('recogni')) {
+    return `Recognizing digits ${Math.round(progress.progress * 81)}/81`;
+  }
+  if (status.includes('detect') || status.includes('grid') || status.includes('board')) {
+    return 'Detecting grid';
+  }
+  if (status.includes('load') || status.includes('initiali')) {
+    return 'Starting OCR';
+  }
+  return progress.status.charAt(0).toUpperCase() + progress.status.slice(1);
+}
+
+/**
+ * Reports OCR stages back into the conversation during a turn.
+ * Updates are throttled and sent in order; failures are logged and never fail the turn.
+ */
+export class OcrProgressReporter {
+  private context: TurnContext;
+  private minIntervalMs: number;
+  private updatable: boolean;
+  private activityId?: string;
+  private lastUpdate = 0;
+  private chain: Promise<void> = Promise.resolve();
+
+  constructor(context: TurnContext, minIntervalMs: number = MIN_UPDATE_INTERVAL_MS) {
+    this.context = context;
+    this.minIntervalMs = minIntervalMs;
+    this.updatable = UPDATABLE_CHANNELS.includes(context.activity.channelId);
+  }
+
+  /**
+   * Show that reading has started
+   */
+  async start(): Promise<void> {
+    this.lastUpdate = Date.now();
+    this.enqueue(async () => {
+      await this.sendTyping();
+      if (!this.updatable) {
+        await this.context.sendActivity('Processing your puzzle image...');
+        return;
+      }
+      const response = await this.context.sendActivity(
+        MessageFactory.attachment(createOcrStatusCard('Downloading photo'))
+      );
+      this.activityId = response?.id;
+    });
+    await this.chain;
+  }
+
+  /**
+   * Report progress from the OCR engine
+   */
+  progress(progress: OcrProgress): void {
+    this.stage(describeOcrProgress(progress));
+  }
+
+  /**
+   * Report that the image is waiting for an OCR worker
+   * @param position - 1-based position in the queue
+   */
+  queued(position: number): void {
+    if (!this.updatable && position >= QUEUE_NOTICE_POSITION) {
+      this.enqueue(async () => {
+        await this.context.sendActivity(`Lots of puzzles right now - you're #${position} in line.`);
+      });
+    }
+    this.stage(`Waiting in line (#${position})`, true);
+  }
+
+  /**
+   * Report a stage of the turn
+   * @param text - What is happening now
+   * @param force - Report even if the last update was very recent
+   */
+  stage(text: string, force: boolean = false): void {
+    const now = Date.now();
+    if (!force && now - this.lastUpdate < this.minIntervalMs) return;
+    this.lastUpdate = now;
+    this.enqueue(() => this.render(text, false));
+  }
+
+  /**
+   * Show the final outcome and wait for pending updates
+   * @param text - How reading ended (e.g. "Done", "Cancelled")
+   */
+  async finish(text: string): Promise<void> {
+    if (this.activityId) {
+      this.enqueue(() => this.render(text, true));
+    }
+    await this.chain;
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.chain = this.chain.then(task).catch(error => {
+      console.error('Error reporting OCR progress:', error);
+    });
+  }
+
+  private async render(text: string, done: boolean): Promise<void> {
+    if (!done) {
+      await this.sendTyping();
+    }
+    if (!this.activityId) return;
+
+    try {
+      await this.context.updateActivity({
+        ...MessageFactory.attachment(createOcrStatusCard(text, done)),
+        id: this.activityId,
+      });
+    } catch (error) {
+      // The channel turned out not to support updates; keep to typing indicators
+      this.activityId = undefined;
+      throw error;
+    }
+  }
+
+  private async sendTyping(): Promise<void> {
+    await this.context.sendActivity({ type: ActivityTypes.Typing });
+  }
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FixtureOcrEngine } from './fixtureOcrEngine.js';
+import {
+  countCorrectCells,
+  formatRegressionReport,
+  loadCorpus,
+  readBaseline,
+  runRegression,
+  toBaseline,
+  writeBaseline,
+  type CorpusImage,
+} from './ocrRegression.js';
+
+/** Golden images read under `bun test`; OCR_CORPUS_DIR points the check at another corpus */
+const GOLDEN_CORPUS_DIR = join(import.meta.dir, '../../fixtures/ocr');
+
+const answer = '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+// Two cells misread: R1C1 5 -> 6 and R9C9 9 -> 0
+const misread = `6${answer.slice(1, 80)}0`;
+
+describe('ocrRegression', () => {
+  const corpus: CorpusImage[] = [
+    { name: 'clean', imageBuffer: Buffer.from('clean'), expected: answer },
+    { name: 'blurry', imageBuffer: Buffer.from('blurry'), expected: answer },
+  ];
+
+  function createEngine(): FixtureOcrEngine {
+    const engine = new FixtureOcrEngine();
+    engine.add(Buffer.from('clean'), { puzzle: answer, confidence: 95, digitCount: 30 });
+    engine.add(Buffer.from('blurry'), { puzzle: misread, confidence: 60, digitCount: 29 });
+    return engine;
+  }
+
+  it('counts matching cells', () => {
+    expect(countCorrectCells(answer, answer)).toBe(81);
+    expect(countCorrectCells(answer, misread)).toBe(79);
+  });
+
+  it('reports per-image and overall accuracy', async () => {
+    const report = await runRegression(createEngine(), corpus);
+
+    expect(report.images.map(image => image.correctCells)).toEqual([81, 79]);
+    expect(report.images[1]!.accuracy).toBeCloseTo(79 / 81);
+    expect(report.accuracy).toBeCloseTo(160 / 162);
+    expect(report.regressions).toEqual([]);
+  });
+
+  it('compares handwritten digits along with the givens', async () => {
+    const engine = new FixtureOcrEngine();
+    engine.add(Buffer.from('solved'), {
+      puzzle: `0${answer.slice(1)}`,
+      user: `5${'0'.repeat(80)}`,
+      confidence: 90,
+      digitCount: 30,
+    });
+
+    const report = await runRegression(engine, [
+      { name: 'solved', imageBuffer: Buffer.from('solved'), expected: answer },
+    ]);
+    expect(report.images[0]!.correctCells).toBe(81);
+  });
+
+  it('flags images that read worse than the baseline', async () => {
+    const report = await runRegression(createEngine(), corpus, { clean: 1, blurry: 1 });
+
+    expect(report.regressions).toEqual(['blurry']);
+    expect(report.images[1]!.baseline).toBe(1);
+    expect(formatRegressionReport(report)).toContain('REGRESSED');
+  });
+
+  it('allows small drops within the tolerance', async () => {
+    const report = await runRegression(createEngine(), corpus, { blurry: 1 }, 0.05);
+    expect(report.regressions).toEqual([]);
+  });
+
+  it('scores unreadable images as zero', async () => {
+    const report = await runRegression(createEngine(), [
+      { name: 'unknown', imageBuffer: Buffer.from('unknown'), expected: answer },
+    ]);
+
+    expect(report.images[0]!.correctCells).toBe(0);
+    expect(report.images[0]!.error).toContain('No OCR fixture');
+  });
+
+  it('summarizes the run', async () => {
+    const text = formatRegressionReport(await runRegression(createEngine(), corpus));
+
+    expect(text).toContain('blurry  79/81');
+    expect(text).toContain('Overall accuracy: 98.8% over 2 images');
+    expect(text).toContain('No regressions');
+  });
+
+  describe('corpus files', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'ocr-corpus-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('pairs images with their answers', async () => {
+      const grid = answer.replace(/0/g, '.').match(/.{9}/g)!.join('\n');
+      await writeFile(join(directory, 'page.png'), 'page');
+      await writeFile(join(directory, 'page.txt'), `${grid}\n`);
+      await writeFile(join(directory, 'unanswered.jpg'), 'other');
+
+      const loaded = await loadCorpus(directory);
+      expect(loaded).toHaveLength(1);
+      expect(loaded[0]!.name).toBe('page');
+      expect(loaded[0]!.expected).toBe(answer);
+    });
+
+    it('rejects malformed answers', async () => {
+      await writeFile(join(directory, 'page.png'), 'page');
+      await writeFile(join(directory, 'page.txt'), '123');
+
+      await expect(loadCorpus(directory)).rejects.toThrow('must be 81 cells');
+    });
+
+    it('stores and reloads the baseline', async () => {
+      const path = join(directory, 'baseline.json');
+      expect(await readBaseline(path)).toEqual({});
+
+      const report = await runRegression(createEngine(), corpus);
+      await writeBaseline(path, toBaseline(report));
+      expect(await readBaseline(path)).toEqual({ clean: 1, blurry: 79 / 81 });
+    });
+  });
+
+  // Real recognition with Tesseract, so a change that breaks reading photos fails the build
+  describe('golden corpus', () => {
+    it(
+      'reads every image, none worse than the baseline',
+      async () => {
+        const directory = process.env.OCR_CORPUS_DIR || GOLDEN_CORPUS_DIR;
+        // Loaded lazily so the harness tests above run without Tesseract
+        const { OCRService } = await import('./ocrService.js');
+        const engine = new OCRService({ workers: 1 });
+
+        try {
+          const report = await runRegression(
+            engine,
+            await loadCorpus(directory),
+            await readBaseline(join(directory, 'baseline.json'))
+          );
+          console.log(formatRegressionReport(report));
+          expect(report.images.length).toBeGreaterThan(0);
+          expect(report.images.filter(image => image.error).map(image => image.name)).toEqual([]);
+          expect(report.regressions).toEqual([]);
+        } finally {
+          await engine.shutdown();
+        }
+      },
+      10 * 60 * 1000
+    );
+  });
+});
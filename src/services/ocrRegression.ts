@@ -0,0 +1,195 @@
+/**
+ * OCR Regression Harness
+ * Measures how well an OCR engine reads a corpus of puzzle photos with known answers,
+ * and compares the results with a stored baseline
+ */
+
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { FIXTURE_IMAGE_EXTENSIONS } from './fixtureOcrEngine.js';
+import { mergeBoard } from './progressSync.js';
+import type { OcrEngine } from './ocrEngine.js';
+
+/**
+ * A photo with the board it should read as
+ */
+export interface CorpusImage {
+  /** Image file name without extension */
+  name: string;
+  imageBuffer: Buffer;
+  /** Expected board (81 chars, 0 = empty), givens and handwritten digits combined */
+  expected: string;
+}
+
+/**
+ * How well one image was read
+ */
+export interface ImageReport {
+  name: string;
+  /** Number of cells read as expected (0-81) */
+  correctCells: number;
+  /** Fraction of cells read as expected (0-1) */
+  accuracy: number;
+  /** Accuracy in the baseline, if the image is in it */
+  baseline?: number;
+  /** Whether accuracy dropped below the baseline */
+  regressed: boolean;
+  /** Why the image could not be read at all */
+  error?: string;
+}
+
+export interface RegressionReport {
+  images: ImageReport[];
+  /** Fraction of all cells across the corpus read as expected (0-1) */
+  accuracy: number;
+  /** Names of images that read worse than in the baseline */
+  regressions: string[];
+}
+
+/**
+ * Accuracy per image name, as stored between runs
+ */
+export type RegressionBaseline = Record<string, number>;
+
+/**
+ * Load a corpus from a directory of images with a same-named `.txt` answer next to each
+ * (e.g. `newspaper.jpg` + `newspaper.txt`). Answers are 81 digits, with 0 or . for empty
+ * cells; whitespace and line breaks are ignored.
+ * @throws Error if an answer isn't 81 cells
+ */
+export async function loadCorpus(directory: string): Promise<CorpusImage[]> {
+  const files = (await readdir(directory)).sort();
+  const corpus: CorpusImage[] = [];
+
+  for (const file of files) {
+    if (!FIXTURE_IMAGE_EXTENSIONS.includes(extname(file).toLowerCase())) continue;
+
+    const name = file.slice(0, -extname(file).length);
+    if (!files.includes(`${name}.txt`)) continue;
+
+    const [imageBuffer, answer] = await Promise.all([
+      readFile(join(directory, file)),
+      readFile(join(directory, `${name}.txt`), 'utf8'),
+    ]);
+    const expected = answer.replace(/\s/g, '').replace(/\./g, '0');
+    if (!/^[0-9]{81}$/.test(expected)) {
+      throw new Error(`Answer for ${file} must be 81 cells, got "${expected}"`);
+    }
+
+    corpus.push({ name, imageBuffer, expected });
+  }
+
+  return corpus;
+}
+
+/**
+ * Count the cells two boards agree on
+ */
+export function countCorrectCells(expected: string, actual: string): number {
+  let correct = 0;
+  for (let i = 0; i < 81; i++) {
+    if (expected[i] === actual[i]) correct++;
+  }
+  return correct;
+}
+
+/**
+ * Read every corpus image with the engine and compare with the expected boards.
+ * Images are read one at a time, so timings and worker use match a single upload.
+ * @param baseline - Accuracy per image from an earlier run
+ * @param tolerance - How far accuracy may drop below the baseline before it counts as a
+ * regression (fraction, default: 0)
+ */
+export async function runRegression(
+  engine: OcrEngine,
+  corpus: CorpusImage[],
+  baseline: RegressionBaseline = {},
+  tolerance: number = 0
+): Promise<RegressionReport> {
+  const images: ImageReport[] = [];
+
+  for (const image of corpus) {
+    let correctCells = 0;
+    let error: string | undefined;
+
+    try {
+      const result = await engine.extractPuzzle(image.imageBuffer);
+      correctCells = countCorrectCells(image.expected, mergeBoard(result.puzzle, result.user));
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const accuracy = correctCells / 81;
+    const previous = baseline[image.name];
+    images.push({
+      name: image.name,
+      correctCells,
+      accuracy,
+      baseline: previous,
+      regressed: previous !== undefined && accuracy < previous - tolerance,
+      ...(error !== undefined ? { error } : {}),
+    });
+  }
+
+  const totalCorrect = images.reduce((sum, image) => sum + image.correctCells, 0);
+
+  return {
+    images,
+    accuracy: images.length > 0 ? totalCorrect / (images.length * 81) : 0,
+    regressions: images.filter(image => image.regressed).map(image => image.name),
+  };
+}
+
+/**
+ * The baseline to store for a run
+ */
+export function toBaseline(report: RegressionReport): RegressionBaseline {
+  return Object.fromEntries(report.images.map(image => [image.name, image.accuracy]));
+}
+
+/**
+ * Read a stored baseline, or an empty one if there is none yet
+ */
+export async function readBaseline(path: string): Promise<RegressionBaseline> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as RegressionBaseline;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+/**
+ * Store a baseline, one image per line so changes diff cleanly
+ */
+export async function writeBaseline(path: string, baseline: RegressionBaseline): Promise<void> {
+  await writeFile(path, `${JSON.stringify(baseline, null, 2)}\n`);
+}
+
+function percent(fraction: number): string {
+  return `${(fraction * 100).toFixed(1)}%`;
+}
+
+/**
+ * Format a report as a plain-text table, one line per image
+ */
+export function formatRegressionReport(report: RegressionReport): string {
+  const width = Math.max(5, ...report.images.map(image => image.name.length));
+  const lines = report.images.map(image => {
+    const cells = `${image.correctCells}/81`.padStart(5);
+    const baseline = image.baseline !== undefined ? ` (baseline ${percent(image.baseline)})` : '';
+    const status = image.regressed ? '  REGRESSED' : '';
+    const error = image.error ? `  error: ${image.error}` : '';
+    return `${image.name.padEnd(width)}  ${cells}  ${percent(image.accuracy).padStart(6)}${baseline}${status}${error}`;
+  });
+
+  lines.push(
+    '',
+    `Overall accuracy: ${percent(report.accuracy)} over ${report.images.length} images`,
+    report.regressions.length > 0
+      ? `Regressions: ${report.regressions.join(', ')}`
+      : 'No regressions'
+  );
+
+  return lines.join('\n');
+}
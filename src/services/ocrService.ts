@@ -5,29 +5,130 @@
 
 import { extractSudokuFromImage } from '@sudobility/sudojo_ocr';
 import { createNodeAdapter } from '@sudobility/sudojo_ocr/node';
-import type { CanvasAdapter, OCRResult, OCRProgress, TesseractModule } from '@sudobility/sudojo_ocr';
-import Tesseract from 'tesseract.js';
+import type {
+  CanvasAdapter,
+  OCRResult,
+  OCRProgress,
+  TesseractModule,
+} from '@sudobility/sudojo_ocr';
+import Tesseract, { type LoggerMessage, type Worker as TesseractWorker } from 'tesseract.js';
+import { loadImage } from '@napi-rs/canvas';
+import { WorkerPool, type JobOptions, type WorkerPoolStats } from './workerPool.js';
+import { LocalSolver } from './localSolver.js';
+import { OCRCache } from './ocrCache.js';
+import {
+  gridCellRects,
+  greyLevels,
+  type CellRect,
+  otsuThreshold,
+  readPixels,
+  rectifyGrid,
+  rotateImage,
+  scaleImage,
+  splitGrids,
+} from './gridRectifier.js';
+import {
+  classifyHandwriting,
+  cropImage,
+  digitChoices,
+  enclosingRect,
+  findCellInk,
+  pencilmarkDigits,
+  scoreCell,
+  type InkStyle,
+} from './cellReader.js';
+import {
+  validatePuzzle,
+  type OCRExtractResult,
+  type OcrEngine,
+  type OcrProgress,
+} from './ocrEngine.js';
 
 // Cast Tesseract to our minimal interface for cross-version compatibility
 const tesseractModule = Tesseract as unknown as TesseractModule;
 
-export interface OCRExtractResult {
-  /** 81-char puzzle string (0 = empty) */
-  puzzle: string;
-  /** Average confidence score (0-100) */
-  confidence: number;
-  /** Number of digits recognized */
-  digitCount: number;
+export type { OCRExtractResult } from './ocrEngine.js';
+
+/** Pencilmarks are small, so their crops are enlarged this many times before reading */
+const PENCILMARK_SCALE = 3;
+
+/** Longest side of the board image kept with a cached result, enough for a preview (px) */
+const CACHED_BOARD_IMAGE_SIZE = 400;
+
+/**
+ * What reading a straightened grid cell by cell found
+ */
+interface CellDetails extends Pick<OCRExtractResult, 'cellConfidence' | 'alternatives'> {
+  /** Whether each cell's digit looks handwritten rather than printed */
+  handwritten?: boolean[];
+  /** Pencilmarks read in empty cells, comma-delimited for all 81 cells */
+  pencilmarks?: string;
+}
+
+/**
+ * Where a job's Tesseract logger messages go: the reading that reports progress, if any
+ */
+interface ProgressRelay {
+  listener?: (message: LoggerMessage) => void;
+}
+
+export interface OCRServiceOptions {
+  /** Engine name, as used in configuration (default: 'tesseract') */
+  name?: string;
+  /** Clean up the image (contrast, thresholding) before recognizing digits (default: true) */
+  preprocess?: boolean;
+  /** Fraction of each cell trimmed from every side to skip grid lines (default: 0.154) */
+  cellMargin?: number;
+  /** Number of Tesseract workers, i.e. images read at the same time (default: 2) */
+  workers?: number;
+  /** Time allowed to read one image, all its grids and rotations included (ms, default: 60000) */
+  jobTimeoutMs?: number;
+  /** Maximum number of images waiting for a worker (default: 20) */
+  maxQueueLength?: number;
+  /** Cache of results by image content, so re-sent images skip OCR */
+  cache?: OCRCache;
+  /** Straighten photos taken at an angle before reading them (default: true) */
+  rectify?: boolean;
 }
 
 /**
  * OCR service for extracting Sudoku puzzles from images.
  * Wraps @sudobility/sudojo_ocr with Node.js canvas adapter.
- * Lazy-initializes the canvas adapter on first use.
+ * Lazy-initializes the canvas adapter on first use, and reads images on a bounded pool of
+ * Tesseract workers so concurrent uploads queue instead of all running at once. Each image
+ * is one pooled job, so it waits in the queue once and shares one timeout.
+ * Photos are straightened first, and read again rotated when the in-process solver finds
+ * the first reading is not a valid puzzle; the solver API is left to check the final
+ * reading once, so a hard-to-read photo costs no extra network calls. The cells of a
+ * straightened grid are then read one by one to score each cell's reading.
  */
-export class OCRService {
+export class OCRService implements OcrEngine {
+  readonly name: string;
+  private preprocess: boolean;
+  private cellMargin: number;
   private adapter: CanvasAdapter | null = null;
   private initPromise: Promise<void> | null = null;
+  private pool: WorkerPool<TesseractWorker, LoggerMessage>;
+  private cache?: OCRCache;
+  private rectify: boolean;
+  private localSolver = new LocalSolver();
+
+  constructor(options: OCRServiceOptions = {}) {
+    this.name = options.name ?? 'tesseract';
+    this.preprocess = options.preprocess ?? true;
+    this.cellMargin = options.cellMargin ?? 0.154;
+    this.cache = options.cache;
+    this.rectify = options.rectify ?? true;
+    this.pool = new WorkerPool<TesseractWorker, LoggerMessage>({
+      createWorker: report => Tesseract.createWorker('eng', undefined, { logger: report }),
+      destroyWorker: async worker => {
+        await worker.terminate();
+      },
+      size: options.workers,
+      jobTimeoutMs: options.jobTimeoutMs,
+      maxQueueLength: options.maxQueueLength,
+    });
+  }
 
   /**
    * Initialize the OCR service (loads canvas adapter)
@@ -46,62 +147,394 @@ export class OCRService {
     await this.initPromise;
   }
 
+  /**
+   * Start the canvas adapter and all Tesseract workers ahead of the first upload
+   */
+  async warmUp(): Promise<void> {
+    await this.init();
+    await this.pool.warmUp();
+  }
+
+  /**
+   * Current worker pool usage (workers, busy, queued)
+   */
+  getQueueStats(): WorkerPoolStats {
+    return this.pool.getStats();
+  }
+
+  /**
+   * Stop all Tesseract workers and fail any queued images
+   */
+  async shutdown(): Promise<void> {
+    await this.pool.shutdown();
+  }
+
   /**
    * Extract a Sudoku puzzle from an image buffer
    * @param imageBuffer - Image data as Buffer
    * @param onProgress - Optional progress callback
-   * @returns Extracted puzzle data
+   * @param job - Optional cancellation signal and queue position callback
+   * @returns Extracted puzzle data (cached for an image that was read before)
+   * @throws JobTimeoutError, JobCancelledError or QueueFullError from the worker pool
    */
   async extractPuzzle(
     imageBuffer: Buffer,
-    onProgress?: (progress: OCRProgress) => void
+    onProgress?: (progress: OcrProgress) => void,
+    job?: JobOptions
   ): Promise<OCRExtractResult> {
-    await this.init();
+    const cached = await this.getCached(imageBuffer);
+    if (cached) return cached;
+
+    const adapter = await this.getAdapter();
+    return this.runJob(job, (worker, relay) =>
+      this.readAndCache(worker, relay, adapter, imageBuffer, onProgress)
+    );
+  }
 
+  /**
+   * Extract every puzzle from an image, reading each grid on a page with several separately.
+   * All grids are read in one pooled job, so the page waits in the queue once and a busy
+   * moment can't fail it halfway through.
+   * @param imageBuffer - Image data as Buffer
+   * @param onProgress - Optional progress callback
+   * @param job - Optional cancellation signal and queue position callback
+   * @returns One result per grid, in reading order
+   */
+  async extractPuzzles(
+    imageBuffer: Buffer,
+    onProgress?: (progress: OcrProgress) => void,
+    job?: JobOptions
+  ): Promise<OCRExtractResult[]> {
+    const adapter = await this.getAdapter();
+    return this.runJob(job, async (worker, relay) => {
+      const grids = this.rectify ? await this.split(imageBuffer) : [imageBuffer];
+      const results: OCRExtractResult[] = [];
+      for (const grid of grids) {
+        results.push(
+          (await this.getCached(grid)) ??
+            (await this.readAndCache(worker, relay, adapter, grid, onProgress))
+        );
+      }
+      return results;
+    });
+  }
+
+  /**
+   * A cached result for an image that was read before
+   */
+  private async getCached(imageBuffer: Buffer): Promise<OCRExtractResult | undefined> {
+    return this.cache?.get(OCRCache.hash(imageBuffer));
+  }
+
+  /**
+   * Read a photo and cache the result
+   */
+  private async readAndCache(
+    worker: TesseractWorker,
+    relay: ProgressRelay,
+    adapter: CanvasAdapter,
+    imageBuffer: Buffer,
+    onProgress: ((progress: OcrProgress) => void) | undefined
+  ): Promise<OCRExtractResult> {
+    const extracted = await this.readPhoto(worker, relay, adapter, imageBuffer, onProgress);
+
+    if (this.cache) {
+      // A re-sent photo still gets its preview, from a small copy of the board image
+      const boardImage =
+        extracted.boardImage && (await this.shrinkBoardImage(extracted.boardImage));
+      await this.cache.set(OCRCache.hash(imageBuffer), { ...extracted, boardImage });
+    }
+
+    return extracted;
+  }
+
+  /**
+   * The canvas adapter, initialized on first use
+   */
+  private async getAdapter(): Promise<CanvasAdapter> {
+    await this.init();
     if (!this.adapter) {
       throw new Error('OCR adapter not initialized');
     }
+    return this.adapter;
+  }
 
-    const result: OCRResult = await extractSudokuFromImage(
-      this.adapter,
-      imageBuffer,
-      tesseractModule,
-      {
-        skipBoardDetection: false,
-        preprocess: true,
-        minConfidence: 1,
-        cellMargin: 0.154,
-      },
-      onProgress
-    );
+  /**
+   * Run work as one pooled job, passing the worker's logger messages to the reading that
+   * reports progress at the time
+   */
+  private runJob<T>(
+    job: JobOptions | undefined,
+    work: (worker: TesseractWorker, relay: ProgressRelay) => Promise<T>
+  ): Promise<T> {
+    const relay: ProgressRelay = {};
+    return this.pool.run(worker => work(worker, relay), {
+      ...job,
+      onMessage: message => relay.listener?.(message),
+    });
+  }
+
+  /**
+   * Straighten a photo and read it, trying other orientations when the reading is poor
+   */
+  private async readPhoto(
+    worker: TesseractWorker,
+    relay: ProgressRelay,
+    adapter: CanvasAdapter,
+    imageBuffer: Buffer,
+    onProgress: ((progress: OcrProgress) => void) | undefined
+  ): Promise<OCRExtractResult> {
+    const straightened = this.rectify ? await this.straighten(imageBuffer) : imageBuffer;
+    // Only a straightened grid has its cells at known places
+    const readCells = straightened !== imageBuffer;
+    const read = (image: Buffer, report?: (progress: OcrProgress) => void) =>
+      this.readImage(worker, relay, adapter, image, readCells, report);
+    let extracted = await read(straightened, onProgress);
+
+    // Upside-down and sideways photos read as too few or wrong digits; try other orientations
+    if (!this.isPlausible(extracted)) {
+      for (let turns = 1; turns < 4; turns++) {
+        onProgress?.({ status: 'trying a rotated photo', progress: turns / 4 });
+        const rotated = await read(await rotateImage(straightened, turns));
+        if (this.isPlausible(rotated)) {
+          extracted = rotated;
+          break;
+        }
+        if (rotated.digitCount > extracted.digitCount) {
+          extracted = rotated;
+        }
+      }
+    }
+
+    return extracted;
+  }
+
+  /**
+   * Read one image with the job's worker
+   * @param readCells - Whether the image is a straightened grid whose cells can be read
+   * one by one, for per-cell confidence, handwriting and pencilmarks
+   */
+  private async readImage(
+    worker: TesseractWorker,
+    relay: ProgressRelay,
+    adapter: CanvasAdapter,
+    imageBuffer: Buffer,
+    readCells: boolean,
+    onProgress: ((progress: OcrProgress) => void) | undefined
+  ): Promise<OCRExtractResult> {
+    // Tesseract's progress is only about the whole puzzle until the cells are read one by one
+    relay.listener = onProgress && (message => onProgress(this.toOcrProgress(message)));
+    let result: OCRResult;
+    try {
+      result = await extractSudokuFromImage(
+        adapter,
+        imageBuffer,
+        this.pooledTesseract(worker),
+        {
+          skipBoardDetection: false,
+          preprocess: this.preprocess,
+          minConfidence: 1,
+          cellMargin: this.cellMargin,
+        },
+        onProgress && ((progress: OCRProgress) => onProgress(this.toOcrProgress(progress)))
+      );
+    } finally {
+      relay.listener = undefined;
+    }
+    const cells = readCells
+      ? await this.readCells(worker, imageBuffer, result.puzzle, onProgress)
+      : {};
 
     return {
-      puzzle: result.puzzle,
+      ...this.splitHandwrittenDigits(result.puzzle, cells.handwritten),
       confidence: result.confidence,
       digitCount: result.digitCount,
+      cellConfidence: cells.cellConfidence,
+      alternatives: cells.alternatives,
+      pencilmarks: cells.pencilmarks,
+      boardImage: imageBuffer,
     };
   }
 
   /**
-   * Validate that a puzzle string is valid
-   * - Must be 81 characters
-   * - Must contain only digits 0-9
-   * - Must have at least 17 clues (minimum for unique solution)
+   * Straighten the grid in a photo, falling back to the photo as sent
    */
-  validatePuzzle(puzzle: string): { valid: boolean; error?: string } {
-    if (puzzle.length !== 81) {
-      return { valid: false, error: `Invalid length: ${puzzle.length}, expected 81` };
+  private async straighten(imageBuffer: Buffer): Promise<Buffer> {
+    try {
+      return await rectifyGrid(imageBuffer);
+    } catch (error) {
+      console.error('Error straightening puzzle image:', error);
+      return imageBuffer;
     }
+  }
 
-    if (!/^[0-9]+$/.test(puzzle)) {
-      return { valid: false, error: 'Puzzle contains non-digit characters' };
+  /**
+   * Shrink a board image for the cache, leaving it out if it cannot be read
+   */
+  private async shrinkBoardImage(boardImage: Buffer): Promise<Buffer | undefined> {
+    try {
+      return await scaleImage(boardImage, CACHED_BOARD_IMAGE_SIZE);
+    } catch (error) {
+      console.error('Error shrinking board image:', error);
+      return undefined;
     }
+  }
 
-    const clueCount = puzzle.split('').filter(c => c !== '0').length;
-    if (clueCount < 17) {
-      return { valid: false, error: `Too few clues: ${clueCount}, minimum is 17` };
+  /**
+   * Split a page into one image per grid, falling back to the page as sent
+   */
+  private async split(imageBuffer: Buffer): Promise<Buffer[]> {
+    try {
+      return await splitGrids(imageBuffer);
+    } catch (error) {
+      console.error('Error finding puzzle grids:', error);
+      return [imageBuffer];
     }
+  }
+
+  /**
+   * Whether a reading looks like the puzzle in the photo: enough clues, and a single
+   * solution as far as the in-process solver can tell
+   */
+  private isPlausible(extracted: OCRExtractResult): boolean {
+    return (
+      validatePuzzle(extracted.puzzle).valid && this.localSolver.validate(extracted.puzzle).valid
+    );
+  }
+
+  /**
+   * Convert sudojo_ocr progress and Tesseract logger messages into engine-neutral progress
+   */
+  private toOcrProgress(progress: OCRProgress | LoggerMessage): OcrProgress {
+    const { status, progress: fraction } = progress as unknown as Partial<OcrProgress>;
+    return {
+      status: typeof status === 'string' ? status : 'processing',
+      progress: typeof fraction === 'number' ? Math.max(0, Math.min(1, fraction)) : 0,
+    };
+  }
 
-    return { valid: true };
+  /**
+   * Tesseract module that hands out an already-initialized pooled worker.
+   * sudojo_ocr creates and terminates a worker per image; terminating is a no-op here so
+   * the worker stays warm for the next job, and the pool decides when to really stop it.
+   */
+  private pooledTesseract(worker: TesseractWorker): TesseractModule {
+    const pooled: TesseractWorker = {
+      ...worker,
+      terminate: async () => ({ jobId: 'pooled', data: undefined }),
+    };
+    return {
+      ...tesseractModule,
+      createWorker: async () => pooled,
+    } as unknown as TesseractModule;
+  }
+
+  /**
+   * Move digits classified as handwritten out of the clues and into the user's entries.
+   * Returns the puzzle unchanged when no cell is handwritten.
+   */
+  private splitHandwrittenDigits(
+    puzzle: string,
+    handwritten: boolean[] | undefined
+  ): Pick<OCRExtractResult, 'puzzle' | 'user'> {
+    if (!handwritten?.some(Boolean)) {
+      return { puzzle };
+    }
+
+    let original = '';
+    let user = '';
+    for (let i = 0; i < 81; i++) {
+      const digit = puzzle[i] ?? '0';
+      const isUser = digit !== '0' && handwritten[i] === true;
+      original += isUser ? '0' : digit;
+      user += isUser ? digit : '0';
+    }
+
+    return { puzzle: original, user };
+  }
+
+  /**
+   * Read each cell of a straightened grid again on its own, to score how sure the reading
+   * of every cell is and find the digit it could be instead, to tell handwritten digits
+   * from printed ones by their ink, and to read the pencilmarks in empty cells. Cells
+   * without ink that were read as empty are certain. Returns nothing if the cells cannot
+   * be read.
+   */
+  private async readCells(
+    worker: TesseractWorker,
+    imageBuffer: Buffer,
+    puzzle: string,
+    onProgress: ((progress: OcrProgress) => void) | undefined
+  ): Promise<CellDetails> {
+    try {
+      const image = await loadImage(imageBuffer);
+      const pixels = readPixels(image);
+      const threshold = otsuThreshold(greyLevels(pixels));
+
+      const cellConfidence: number[] = [];
+      let alternatives = '';
+      const styles: (InkStyle | undefined)[] = [];
+      const marks: CellRect[][] = [];
+      const pencilmarks: string[] = new Array(81).fill('');
+
+      await worker.setParameters({
+        tessedit_pageseg_mode: Tesseract.PSM.SINGLE_CHAR,
+        tessedit_char_whitelist: '123456789',
+      });
+      try {
+        for (const [i, cell] of gridCellRects(image.width).entries()) {
+          onProgress?.({ status: 'checking cells', progress: i / 81 });
+          const digit = puzzle[i] ?? '0';
+          const ink = findCellInk(pixels, cell, threshold);
+          styles.push(digit !== '0' ? ink.style : undefined);
+          marks.push(digit === '0' && !ink.digit ? ink.marks : []);
+          if (digit === '0' && !ink.digit) {
+            cellConfidence.push(100);
+            alternatives += '0';
+            continue;
+          }
+
+          const { data } = await worker.recognize(cropImage(image, ink.digit ?? cell));
+          const score = scoreCell(digit, digitChoices(data));
+          cellConfidence.push(score.confidence);
+          alternatives += score.alternative;
+        }
+
+        // A cell's pencilmarks are several small digits, so read them as sparse text
+        await worker.setParameters({ tessedit_pageseg_mode: Tesseract.PSM.SPARSE_TEXT });
+        for (const [i, cellMarks] of marks.entries()) {
+          if (cellMarks.length === 0) continue;
+          const crop = cropImage(image, enclosingRect(cellMarks), PENCILMARK_SCALE);
+          const { data } = await worker.recognize(crop);
+          pencilmarks[i] = pencilmarkDigits(data);
+        }
+      } finally {
+        // Leave the worker as Tesseract set it up for the next image
+        await worker.setParameters({
+          tessedit_pageseg_mode: Tesseract.PSM.SINGLE_BLOCK,
+          tessedit_char_whitelist: '',
+        });
+      }
+
+      return {
+        cellConfidence,
+        alternatives,
+        handwritten: classifyHandwriting(styles),
+        pencilmarks: pencilmarks.some(Boolean) ? pencilmarks.join(',') : undefined,
+      };
+    } catch (error) {
+      console.error('Error reading puzzle cells:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Validate that a puzzle string is valid
+   * - Must be 81 characters
+   * - Must contain only digits 0-9
+   * - Must have at least 17 clues (minimum for unique solution)
+   */
+  validatePuzzle(puzzle: string): { valid: boolean; error?: string } {
+    return validatePuzzle(puzzle);
   }
 }
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'bun:test';
+import { matchesPuzzle, syncProgress, mergeBoard, describeProgressSync } from './progressSync.js';
+
+describe('progressSync', () => {
+  const original =
+    '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+  const solution =
+    '534678912672195348198342567859761423426853791713924856961537284287419635345286179';
+  const empty = '0'.repeat(81);
+
+  /** Set cells of a board string */
+  const withCells = (board: string, cells: Record<number, string>): string =>
+    board
+      .split('')
+      .map((c, i) => cells[i] ?? c)
+      .join('');
+
+  describe('matchesPuzzle', () => {
+    it('matches the same givens with extra entries', () => {
+      expect(matchesPuzzle(original, withCells(original, { 2: '4', 3: '6' }))).toBe(true);
+    });
+
+    it('tolerates a few misread givens', () => {
+      expect(matchesPuzzle(original, withCells(original, { 0: '6', 1: '0' }))).toBe(true);
+    });
+
+    it('rejects a different puzzle', () => {
+      expect(matchesPuzzle(original, solution.split('').reverse().join(''))).toBe(false);
+      expect(matchesPuzzle(original, empty)).toBe(false);
+    });
+  });
+
+  describe('syncProgress', () => {
+    it('adds newly filled cells and keeps existing entries', () => {
+      const user = withCells(empty, { 2: '4' });
+      const board = withCells(original, { 3: '6', 5: '8' });
+
+      const sync = syncProgress({ original, user, solution }, board);
+
+      expect(sync.user).toBe(withCells(empty, { 2: '4', 3: '6', 5: '8' }));
+      expect(sync.newCells).toEqual([3, 5]);
+      expect(sync.mistakes).toEqual([]);
+    });
+
+    it('flags entries that contradict the solution', () => {
+      const sync = syncProgress(
+        { original, user: empty, solution },
+        withCells(original, { 2: '9' })
+      );
+      expect(sync.mistakes).toEqual([2]);
+    });
+
+    it('ignores digits in given cells', () => {
+      const sync = syncProgress(
+        { original, user: empty, solution },
+        withCells(original, { 0: '9' })
+      );
+      expect(sync.user).toBe(empty);
+      expect(sync.newCells).toEqual([]);
+    });
+  });
+
+  describe('mergeBoard', () => {
+    it('combines givens and handwritten entries', () => {
+      expect(mergeBoard(original, withCells(empty, { 2: '4' }))).toBe(
+        withCells(original, { 2: '4' })
+      );
+      expect(mergeBoard(original)).toBe(original);
+    });
+  });
+
+  describe('describeProgressSync', () => {
+    it('summarizes new entries and mistakes', () => {
+      const user = withCells(empty, { 2: '9', 3: '6' });
+      expect(describeProgressSync({ user, newCells: [2, 3], mistakes: [2] })).toBe(
+        "Synced 2 new entries from your photo. This entry doesn't match the solution: R1C3 (9)."
+      );
+      expect(describeProgressSync({ user: empty, newCells: [], mistakes: [] })).toBe(
+        'This looks like your current puzzle, with no new entries.'
+      );
+    });
+  });
+});
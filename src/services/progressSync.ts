@@ -0,0 +1,110 @@
+/**
+ * Progress Sync helpers
+ * Matches a new photo against the puzzle being solved and merges the user's paper progress
+ */
+
+import type { PuzzleState } from '../state/conversationState.js';
+
+/** Share of the givens a photo must reproduce to count as the same puzzle */
+export const MIN_GIVEN_AGREEMENT = 0.9;
+
+/**
+ * Result of merging a photo into the current puzzle
+ */
+export interface ProgressSync {
+  /** Updated user progress (81 chars, 0 = no input) */
+  user: string;
+  /** Cells newly filled from the photo */
+  newCells: number[];
+  /** User entries that contradict the solution */
+  mistakes: number[];
+}
+
+/**
+ * Check whether a photographed board shows the same puzzle.
+ * OCR can misread a few givens, so only most of them need to agree.
+ * @param original - Givens of the current puzzle (81 chars, 0 = empty)
+ * @param board - Every digit read from the photo, givens and entries (81 chars, 0 = empty)
+ */
+export function matchesPuzzle(original: string, board: string): boolean {
+  let givens = 0;
+  let agreeing = 0;
+
+  for (let i = 0; i < 81; i++) {
+    if (original[i] === '0') continue;
+    givens++;
+    if (board[i] === original[i]) agreeing++;
+  }
+
+  return givens > 0 && agreeing / givens >= MIN_GIVEN_AGREEMENT;
+}
+
+/**
+ * Merge the digits from a photo of the same puzzle into the user's progress.
+ * Cells left empty in the photo keep their current entry, so hints applied in the chat
+ * but not yet written on paper are not lost.
+ * @param puzzle - The puzzle being solved
+ * @param board - Every digit read from the photo (81 chars, 0 = empty)
+ */
+export function syncProgress(
+  puzzle: Pick<PuzzleState, 'original' | 'user' | 'solution'>,
+  board: string
+): ProgressSync {
+  let user = '';
+  const newCells: number[] = [];
+  const mistakes: number[] = [];
+
+  for (let i = 0; i < 81; i++) {
+    const current = puzzle.user[i] ?? '0';
+    const photo = board[i] ?? '0';
+
+    if (puzzle.original[i] !== '0') {
+      user += '0';
+      continue;
+    }
+
+    const digit = photo !== '0' ? photo : current;
+    if (digit !== current) newCells.push(i);
+    if (digit !== '0' && puzzle.solution && puzzle.solution[i] !== digit) mistakes.push(i);
+    user += digit;
+  }
+
+  return { user, newCells, mistakes };
+}
+
+/**
+ * Describe a sync for the user, listing any entries that contradict the solution
+ * (e.g. "Synced 3 new entries from your photo. These entries don't match the solution: R1C3 (4).")
+ */
+export function describeProgressSync(sync: ProgressSync): string {
+  const count = sync.newCells.length;
+  const synced =
+    count === 0
+      ? 'This looks like your current puzzle, with no new entries.'
+      : `Synced ${count} new ${count === 1 ? 'entry' : 'entries'} from your photo.`;
+
+  if (sync.mistakes.length === 0) {
+    return synced;
+  }
+
+  const cells = sync.mistakes.map(
+    index => `R${Math.floor(index / 9) + 1}C${(index % 9) + 1} (${sync.user[index]})`
+  );
+  const subject = cells.length === 1 ? "This entry doesn't" : "These entries don't";
+  return `${synced} ${subject} match the solution: ${cells.join(', ')}.`;
+}
+
+/**
+ * Merge the givens and entries read from a photo into a single board
+ * @param original - Digits read as printed givens
+ * @param user - Digits read as handwritten entries, if the OCR engine told them apart
+ */
+export function mergeBoard(original: string, user?: string): string {
+  if (!user) return original;
+
+  let board = '';
+  for (let i = 0; i < 81; i++) {
+    board += original[i] !== '0' ? original[i] : (user[i] ?? '0');
+  }
+  return board;
+}
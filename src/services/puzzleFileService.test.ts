@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'bun:test';
+import { PuzzleFileService } from './puzzleFileService.js';
+import type { Attachment, TurnContext } from 'botbuilder';
+
+describe('PuzzleFileService', () => {
+  const service = new PuzzleFileService();
+
+  describe('isPuzzleFileAttachment', () => {
+    it('accepts known puzzle file extensions regardless of content type', () => {
+      const names = ['a.sdk', 'b.ss', 'c.sdm', 'd.opensudoku', 'e.json', 'f.SDK'];
+      for (const name of names) {
+        const attachment: Attachment = { contentType: 'application/octet-stream', name };
+        expect(service.isPuzzleFileAttachment(attachment)).toBe(true);
+      }
+    });
+
+    it('accepts JSON and XML content types', () => {
+      expect(service.isPuzzleFileAttachment({ contentType: 'application/json' })).toBe(true);
+      expect(service.isPuzzleFileAttachment({ contentType: 'text/xml' })).toBe(true);
+    });
+
+    it('accepts Teams file attachments by file type', () => {
+      const attachment: Attachment = {
+        contentType: 'application/vnd.microsoft.teams.file.download.info',
+        content: { downloadUrl: 'https://example.com/file', fileType: 'sdk' },
+      };
+      expect(service.isPuzzleFileAttachment(attachment)).toBe(true);
+    });
+
+    it('rejects images', () => {
+      const attachment: Attachment = { contentType: 'image/png', name: 'puzzle.png' };
+      expect(service.isPuzzleFileAttachment(attachment)).toBe(false);
+    });
+  });
+
+  describe('getFirstPuzzleFileAttachment', () => {
+    it('finds the puzzle file among other attachments', () => {
+      const attachments: Attachment[] = [
+        { contentType: 'image/png', name: 'photo.png' },
+        { contentType: 'text/plain', name: 'puzzle.ss' },
+      ];
+      const context = { activity: { attachments } } as unknown as TurnContext;
+
+      expect(service.getFirstPuzzleFileAttachment(context)?.name).toBe('puzzle.ss');
+    });
+
+    it('returns undefined when there are no puzzle files', () => {
+      const context = { activity: {} } as unknown as TurnContext;
+      expect(service.getFirstPuzzleFileAttachment(context)).toBeUndefined();
+    });
+  });
+});
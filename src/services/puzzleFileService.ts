@@ -0,0 +1,94 @@
+/**
+ * Puzzle File Service for importing puzzle files sent as attachments
+ * Downloads non-image attachments and parses them with the puzzle file parsers
+ */
+
+import type { TurnContext, Attachment } from 'botbuilder';
+import { ImageService } from './imageService.js';
+import {
+  PUZZLE_FILE_EXTENSIONS,
+  getFileExtension,
+  parsePuzzleFile,
+  type PuzzleFile,
+} from '../parsers/puzzleFileParser.js';
+
+/** Teams delivers uploaded files as a download-info card instead of a content URL */
+const TEAMS_FILE_CONTENT_TYPE = 'application/vnd.microsoft.teams.file.download.info';
+
+/** Content types that puzzle files are commonly sent with */
+const PUZZLE_FILE_CONTENT_TYPES = [
+  'application/json',
+  'application/xml',
+  'text/xml',
+  'application/x-opensudoku',
+];
+
+/**
+ * Service for recognizing, downloading and parsing puzzle file attachments
+ * (.sdk, .ss, .sdm, .opensudoku and JSON).
+ */
+export class PuzzleFileService {
+  private imageService: ImageService;
+
+  constructor(imageService: ImageService = new ImageService()) {
+    this.imageService = imageService;
+  }
+
+  /**
+   * Check if an attachment is a puzzle file
+   * Matches on file extension first, since puzzle files often arrive as text/plain or
+   * application/octet-stream
+   */
+  isPuzzleFileAttachment(attachment: Attachment): boolean {
+    const contentType = attachment.contentType?.toLowerCase() || '';
+    const extension = getFileExtension(this.getFileName(attachment));
+
+    if (PUZZLE_FILE_EXTENSIONS.includes(extension)) {
+      return true;
+    }
+
+    return PUZZLE_FILE_CONTENT_TYPES.includes(contentType);
+  }
+
+  /**
+   * Get the first puzzle file attachment from a message
+   */
+  getFirstPuzzleFileAttachment(context: TurnContext): Attachment | undefined {
+    const attachments = context.activity.attachments || [];
+    return attachments.find(a => this.isPuzzleFileAttachment(a));
+  }
+
+  /**
+   * Download and parse a puzzle file attachment
+   */
+  async loadPuzzleFile(context: TurnContext, attachment: Attachment): Promise<PuzzleFile> {
+    const buffer = await this.imageService.downloadAttachment(
+      context,
+      this.resolveDownload(attachment)
+    );
+
+    return parsePuzzleFile(this.getFileName(attachment), buffer.toString('utf8'));
+  }
+
+  /**
+   * Get the file name of an attachment, including Teams file download info
+   */
+  getFileName(attachment: Attachment): string {
+    if (attachment.name) {
+      return attachment.name;
+    }
+
+    const fileType = attachment.content?.fileType;
+    return typeof fileType === 'string' ? `file.${fileType}` : '';
+  }
+
+  /**
+   * Point Teams file attachments at their pre-authenticated download URL
+   */
+  private resolveDownload(attachment: Attachment): Attachment {
+    if (attachment.contentType === TEAMS_FILE_CONTENT_TYPE && attachment.content?.downloadUrl) {
+      return { ...attachment, contentUrl: attachment.content.downloadUrl };
+    }
+    return attachment;
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'bun:test';
+import { SolverService } from './solverService.js';
+import { LocalSolver } from './localSolver.js';
+import { countTechniques, replayHighlight, solveToEnd, type SolveLogEntry } from './solveRunner.js';
+
+const original =
+  '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+const solution =
+  '534678912672195348198342567859761423426853791713924856961537284287419635345286179';
+const empty = '0'.repeat(81);
+
+function entry(technique: string, level: number): SolveLogEntry {
+  return { technique, level, text: '', user: empty };
+}
+
+describe('solveToEnd', () => {
+  const solverService = new SolverService('http://localhost:3000', { localOnly: true });
+
+  it('applies hints until the puzzle is solved', async () => {
+    const log = await solveToEnd(solverService, { original, user: empty, solution });
+
+    expect(log.solved).toBe(true);
+    expect(log.entries.length).toBeGreaterThan(0);
+    expect(solverService.isPuzzleSolved(original, log.user, solution)).toBe(true);
+    expect(log.entries[log.entries.length - 1]?.user).toBe(log.user);
+  });
+
+  it('does nothing when the puzzle is already solved', async () => {
+    const user = [...solution].map((digit, i) => (original[i] === '0' ? digit : '0')).join('');
+
+    const log = await solveToEnd(solverService, { original, user, solution });
+
+    expect(log).toEqual({ entries: [], solved: true, user, pencilmarks: undefined });
+  });
+
+  it('stops after the step limit', async () => {
+    const log = await solveToEnd(
+      solverService,
+      { original, user: empty, solution },
+      { maxSteps: 2 }
+    );
+
+    expect(log.entries).toHaveLength(2);
+    expect(log.solved).toBe(false);
+    expect(log.stopReason).toBe('step-limit');
+  });
+
+  it('stops with the hints applied so far once the time budget is used up', async () => {
+    const steps: number[] = [];
+    const log = await solveToEnd(
+      solverService,
+      { original, user: empty, solution },
+      {
+        timeBudgetMs: 50,
+        onStep: async step => {
+          steps.push(step);
+          await new Promise(resolve => setTimeout(resolve, 20));
+        },
+      }
+    );
+
+    expect(log.solved).toBe(false);
+    expect(log.stopReason).toBe('time-limit');
+    expect(log.entries.length).toBeGreaterThan(0);
+    expect(steps).toEqual(log.entries.map((_, index) => index + 1));
+    expect(log.user).toBe(log.entries[log.entries.length - 1]!.user);
+  });
+
+  it('blames wrong entries when the solver has no hint', async () => {
+    // A solver that finds nothing, like one that can't get past a contradiction
+    class StuckSolver extends LocalSolver {
+      override solve(original: string, user: string) {
+        return {
+          board: { original, user, pencilmark: { autopencil: false, numbers: '' } },
+          hints: { technique: 0, level: 0, steps: [] },
+        };
+      }
+    }
+    const stuck = new SolverService('http://localhost:3000', {
+      localOnly: true,
+      localSolver: new StuckSolver(),
+    });
+    const wrong = solution[2] === '1' ? '2' : '1';
+
+    const withMistake = await solveToEnd(stuck, {
+      original,
+      user: '00' + wrong + '0'.repeat(78),
+      solution,
+    });
+    const withoutMistake = await solveToEnd(stuck, { original, user: empty, solution });
+
+    expect(withMistake.stopReason).toBe('mistakes');
+    expect(withoutMistake.stopReason).toBe('stuck');
+  });
+
+  it('reports each step before requesting its hint', async () => {
+    const steps: number[] = [];
+    const log = await solveToEnd(
+      solverService,
+      { original, user: empty, solution },
+      { maxSteps: 3, onStep: step => void steps.push(step) }
+    );
+
+    expect(steps).toEqual([1, 2, 3]);
+    expect(log.entries).toHaveLength(3);
+  });
+});
+
+describe('countTechniques', () => {
+  it('counts techniques in order of first use', () => {
+    const counts = countTechniques([
+      entry('Naked Single', 1),
+      entry('Hidden Single', 2),
+      entry('Naked Single', 1),
+    ]);
+
+    expect(counts).toEqual([
+      { technique: 'Naked Single', level: 1, count: 2 },
+      { technique: 'Hidden Single', level: 2, count: 1 },
+    ]);
+  });
+});
+
+describe('replayHighlight', () => {
+  const marks = (cells: Record<number, string>) =>
+    Array.from({ length: 81 }, (_, i) => cells[i] ?? '').join(',');
+
+  it('fills placed digits in green and cleared ones in red', () => {
+    const before = { user: '5' + '0'.repeat(80) };
+    const user = '0' + '4' + '0'.repeat(79);
+
+    const step = replayHighlight(before, { ...entry('Mistake', 0), user });
+
+    expect(step.cells.map(cell => [cell.column, cell.color, cell.actions])).toEqual([
+      [0, 'red', { select: '', unselect: '5', add: '', remove: '', highlight: '' }],
+      [1, 'green', { select: '4', unselect: '', add: '', remove: '', highlight: '' }],
+    ]);
+  });
+
+  it('marks eliminated candidates for removal', () => {
+    const before = { user: empty, pencilmarks: marks({ 0: '123', 40: '56' }) };
+    const after = { ...entry('Pointing Pair', 3), pencilmarks: marks({ 0: '13', 40: '56' }) };
+
+    const step = replayHighlight(before, after);
+
+    expect(step.title).toBe('Pointing Pair');
+    expect(step.cells).toHaveLength(1);
+    expect(step.cells[0]).toMatchObject({ row: 0, column: 0, color: 'red', fill: false });
+    expect(step.cells[0]!.actions.remove).toBe('2');
+  });
+
+  it('leaves out candidates that went because the same digit was placed next to them', () => {
+    const before = { user: empty, pencilmarks: marks({ 0: '4', 1: '47', 80: '4' }) };
+    const user = '4' + '0'.repeat(80);
+    const after = {
+      ...entry('Naked Single', 1),
+      user,
+      pencilmarks: marks({ 1: '7', 80: '' }),
+    };
+
+    const step = replayHighlight(before, after);
+
+    expect(step.cells.map(cell => [cell.row, cell.column, cell.actions.remove])).toEqual([
+      [0, 0, ''],
+      [8, 8, '4'],
+    ]);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Solve Runner
+ * Applies hints one after another until the puzzle is solved, keeping a log of every
+ * technique used
+ */
+
+import {
+  getTechniqueNameById,
+  type SolverHintCell,
+  type SolverHintStep,
+} from '@sudobility/sudojo_types';
+import type { SolverService } from './solverService.js';
+import { checkBoard } from './boardCheck.js';
+
+/** Most hints applied in one solve, in case the solver keeps finding eliminations */
+export const MAX_SOLVE_STEPS = 500;
+
+/** Time allowed for one solve, so the turn ends before the channel gives up on it */
+export const MAX_SOLVE_TIME_MS = 10000;
+
+/**
+ * Why a solve ended before the puzzle was solved: the solver had no hint (`stuck`), it had
+ * none because some entries contradict the solution (`mistakes`), or a limit was reached
+ */
+export type SolveStopReason = 'stuck' | 'mistakes' | 'step-limit' | 'time-limit';
+
+/**
+ * One applied hint
+ */
+export interface SolveLogEntry {
+  /** Technique name */
+  technique: string;
+  /** Technique level */
+  level: number;
+  /** Explanation from the last step of the hint, e.g. "Place 4 in R1C3." */
+  text: string;
+  /** User entries after the hint was applied (81 chars) */
+  user: string;
+  /** Pencilmarks after the hint was applied, comma-delimited, if any */
+  pencilmarks?: string;
+}
+
+export interface SolveLog {
+  /** Applied hints, in order */
+  entries: SolveLogEntry[];
+  /** Whether the board matches the solution at the end */
+  solved: boolean;
+  /** Why the solve ended early; absent when it was solved */
+  stopReason?: SolveStopReason;
+  /** User entries at the end (81 chars) */
+  user: string;
+  /** Pencilmarks at the end, comma-delimited, if any */
+  pencilmarks?: string;
+}
+
+/**
+ * How often a technique was used in a solve
+ */
+export interface TechniqueCount {
+  technique: string;
+  level: number;
+  count: number;
+}
+
+/**
+ * Limits and progress reporting for a solve
+ */
+export interface SolveOptions {
+  /** Whether hints assume every candidate is filled in (default: false) */
+  autoPencilmarks?: boolean;
+  /** Most hints to apply (default: MAX_SOLVE_STEPS) */
+  maxSteps?: number;
+  /**
+   * Time after which no further hint is requested (ms, default: MAX_SOLVE_TIME_MS).
+   * A request already running is allowed to finish.
+   */
+  timeBudgetMs?: number;
+  /** Called before each hint is requested, with the 1-based step number */
+  onStep?: (step: number) => Promise<void> | void;
+}
+
+/**
+ * Apply hints until the board matches the solution, the solver runs out of hints, the
+ * board stops changing or a limit is reached. A stopped solve keeps the hints applied so
+ * far, so it can be picked up again from its board.
+ * @param puzzle - Puzzle to solve; `solution` decides when it is done
+ */
+export async function solveToEnd(
+  solverService: SolverService,
+  puzzle: { original: string; user: string; pencilmarks?: string; solution: string },
+  options: SolveOptions = {}
+): Promise<SolveLog> {
+  const maxSteps = options.maxSteps ?? MAX_SOLVE_STEPS;
+  const deadline = Date.now() + (options.timeBudgetMs ?? MAX_SOLVE_TIME_MS);
+  const entries: SolveLogEntry[] = [];
+  let user = puzzle.user;
+  let pencilmarks = puzzle.pencilmarks;
+  let stopReason: SolveStopReason | undefined;
+
+  while (!solverService.isPuzzleSolved(puzzle.original, user, puzzle.solution)) {
+    if (entries.length >= maxSteps) {
+      stopReason = 'step-limit';
+      break;
+    }
+    if (Date.now() >= deadline) {
+      stopReason = 'time-limit';
+      break;
+    }
+
+    await options.onStep?.(entries.length + 1);
+    const result = await solverService.solve(
+      puzzle.original,
+      user,
+      pencilmarks,
+      options.autoPencilmarks ?? false
+    );
+    const steps = result.hints.steps;
+    if (steps.length === 0) {
+      stopReason = 'stuck';
+      break;
+    }
+
+    const nextUser = solverService.applyHint(user, result.board);
+    const nextPencilmarks = result.board.pencilmark.numbers || undefined;
+    if (nextUser === user && nextPencilmarks === pencilmarks) {
+      stopReason = 'stuck';
+      break;
+    }
+
+    entries.push({
+      // Hints without a technique (like mistakes) are named by their step
+      technique: result.hints.technique
+        ? getTechniqueNameById(result.hints.technique)
+        : steps[0]!.title,
+      level: result.hints.level,
+      text: steps[steps.length - 1]!.text,
+      user: nextUser,
+      pencilmarks: nextPencilmarks,
+    });
+    user = nextUser;
+    pencilmarks = nextPencilmarks;
+  }
+
+  if (
+    stopReason === 'stuck' &&
+    checkBoard({ original: puzzle.original, user, solution: puzzle.solution }).mistakes.length > 0
+  ) {
+    stopReason = 'mistakes';
+  }
+
+  return {
+    entries,
+    solved: stopReason === undefined,
+    stopReason,
+    user,
+    pencilmarks,
+  };
+}
+
+/**
+ * Count the techniques used in a solve, in order of first use
+ */
+export function countTechniques(entries: SolveLogEntry[]): TechniqueCount[] {
+  const counts = new Map<string, TechniqueCount>();
+  for (const entry of entries) {
+    const count = counts.get(entry.technique);
+    if (count) {
+      count.count++;
+    } else {
+      counts.set(entry.technique, { technique: entry.technique, level: entry.level, count: 1 });
+    }
+  }
+  return [...counts.values()];
+}
+
+/**
+ * A hint step showing what one solve step changed: placed digits filled in green, cleared
+ * ones in red, and candidates it eliminated drawn in red. Candidates that only went because
+ * the same digit was placed in a cell that sees them are left out.
+ * @param before - Board before the step
+ * @param entry - The step
+ */
+export function replayHighlight(
+  before: Pick<SolveLogEntry, 'user' | 'pencilmarks'>,
+  entry: SolveLogEntry
+): SolverHintStep {
+  const cells: SolverHintCell[] = [];
+  const placed: number[] = [];
+
+  for (let i = 0; i < 81; i++) {
+    if (entry.user[i] === before.user[i]) continue;
+    const isPlaced = entry.user[i] !== '0';
+    if (isPlaced) placed.push(i);
+    cells.push({
+      row: Math.floor(i / 9),
+      column: i % 9,
+      color: isPlaced ? 'green' : 'red',
+      fill: true,
+      actions: {
+        select: isPlaced ? entry.user[i]! : '',
+        unselect: isPlaced ? '' : before.user[i]!,
+        add: '',
+        remove: '',
+        highlight: '',
+      },
+    });
+  }
+
+  if (before.pencilmarks && entry.pencilmarks) {
+    const beforeMarks = before.pencilmarks.split(',');
+    const afterMarks = entry.pencilmarks.split(',');
+    for (let i = 0; i < 81; i++) {
+      if (entry.user[i] !== '0' || entry.user[i] !== before.user[i]) continue;
+      const removed = [...(beforeMarks[i] ?? '')].filter(
+        digit =>
+          !(afterMarks[i] ?? '').includes(digit) &&
+          !placed.some(cell => entry.user[cell] === digit && sees(cell, i))
+      );
+      if (removed.length === 0) continue;
+      cells.push({
+        row: Math.floor(i / 9),
+        column: i % 9,
+        color: 'red',
+        fill: false,
+        actions: { select: '', unselect: '', add: '', remove: removed.join(''), highlight: '' },
+      });
+    }
+  }
+
+  return { title: entry.technique, text: entry.text, areas: [], cells };
+}
+
+/**
+ * Whether two cells share a row, column or box
+ */
+function sees(a: number, b: number): boolean {
+  const [rowA, colA, rowB, colB] = [Math.floor(a / 9), a % 9, Math.floor(b / 9), b % 9];
+  return (
+    rowA === rowB ||
+    colA === colB ||
+    (Math.floor(rowA / 3) === Math.floor(rowB / 3) && Math.floor(colA / 3) === Math.floor(colB / 3))
+  );
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'bun:test';
+import { SolverCache } from './solverCache.js';
+import type { SolveResult } from './solverService.js';
+
+function result(user: string): SolveResult {
+  return {
+    board: { original: '0'.repeat(81), user, pencilmark: { autopencil: false, numbers: '' } },
+    hints: { technique: 0, level: 0, steps: [] },
+  };
+}
+
+describe('SolverCache', () => {
+  function createCache(maxEntries = 3) {
+    const clock = { time: 0 };
+    const cache = new SolverCache({ maxEntries, ttlMs: 1000, now: () => clock.time });
+    return { cache, clock };
+  }
+
+  it('keys on every part of the board state', () => {
+    const keys = new Set([
+      SolverCache.key('1', '2', undefined, false),
+      SolverCache.key('1', '2', '3', false),
+      SolverCache.key('1', '2', '3', true),
+      SolverCache.key('1', '3', '3', true),
+    ]);
+
+    expect(keys.size).toBe(4);
+    expect(SolverCache.key('1', '2', undefined, false)).toBe(SolverCache.key('1', '2', '', false));
+  });
+
+  it('returns cached results until they expire', () => {
+    const { cache, clock } = createCache();
+    cache.set('a', result('a'));
+
+    clock.time = 999;
+    expect(cache.get('a')?.board.user).toBe('a');
+
+    clock.time = 1000;
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.getStats().size).toBe(0);
+  });
+
+  it('evicts the least recently used result', () => {
+    const { cache } = createCache(2);
+    cache.set('a', result('a'));
+    cache.set('b', result('b'));
+    cache.get('a');
+    cache.set('c', result('c'));
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('tracks the hit rate', () => {
+    const { cache } = createCache();
+    cache.set('a', result('a'));
+    cache.get('a');
+    cache.get('a');
+    cache.get('a');
+    cache.get('b');
+
+    expect(cache.getStats()).toEqual({ size: 1, hits: 3, misses: 1, hitRate: 0.75 });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Solver Cache
+ * Caches solver results by board state, so repeated hints for the same board (an apply
+ * right after a hint, or popular puzzles across users) skip the solver API
+ */
+
+import type { SolveResult } from './solverService.js';
+
+export interface SolverCacheOptions {
+  /** Maximum number of cached results (default: 500) */
+  maxEntries?: number;
+  /** How long a result stays usable (ms, default: 600000) */
+  ttlMs?: number;
+  /** Clock, replaceable in tests */
+  now?: () => number;
+}
+
+export interface SolverCacheStats {
+  /** Number of cached results */
+  size: number;
+  hits: number;
+  misses: number;
+  /** Fraction of lookups answered from the cache (0-1) */
+  hitRate: number;
+}
+
+interface CacheEntry {
+  result: SolveResult;
+  expiresAt: number;
+}
+
+/**
+ * LRU cache of solve results with a time-to-live. Results are kept as returned; callers
+ * must not mutate them.
+ */
+export class SolverCache {
+  private maxEntries: number;
+  private ttlMs: number;
+  private now: () => number;
+  /** Entries in least- to most-recently-used order */
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: SolverCacheOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 500);
+    this.ttlMs = options.ttlMs ?? 600000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Build the cache key for a solve request
+   */
+  static key(
+    original: string,
+    user: string,
+    pencilmarks: string | undefined,
+    autoPencilmarks: boolean
+  ): string {
+    return [original, user, pencilmarks ?? '', autoPencilmarks ? '1' : '0'].join('|');
+  }
+
+  /**
+   * Get a cached result and mark it as recently used
+   * @param key - Key from `SolverCache.key`
+   */
+  get(key: string): SolveResult | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= this.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.result;
+  }
+
+  /**
+   * Cache a result, evicting the least recently used ones beyond `maxEntries`
+   * @param key - Key from `SolverCache.key`
+   */
+  set(key: string, result: SolveResult): void {
+    this.entries.delete(key);
+    this.entries.set(key, { result, expiresAt: this.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Remove all cached results; the hit and miss counts are kept
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Cache size and hit rate since startup
+   */
+  getStats(): SolverCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'bun:test';
+import { checkSolveData, checkValidateData } from './solverSchema.js';
+
+const original =
+  '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+const solution =
+  '534678912672195348198342567859761423426853791713924856961537284287419635345286179';
+
+function solveData() {
+  return {
+    board: {
+      original,
+      user: '0'.repeat(81),
+      pencilmark: { autopencil: false, numbers: '' },
+    },
+    hints: {
+      technique: 2,
+      level: 2,
+      steps: [
+        {
+          title: 'Hidden Single',
+          text: 'In box 1, 4 fits in only one cell.',
+          areas: [{ type: 'block', color: 'blue', index: 0 }],
+          cells: [
+            {
+              row: 0,
+              column: 2,
+              color: 'green',
+              fill: true,
+              actions: { select: '4', unselect: '', add: '', remove: '', highlight: '' },
+            },
+          ],
+          links: [{ fromRow: 0, fromCol: 2, toRow: 1, toCol: 2, type: 'strong', digit: 4 }],
+          groups: [
+            {
+              name: 'Pair',
+              color: 'orange',
+              cells: [
+                [0, 2],
+                [1, 2],
+              ],
+            },
+          ],
+          digit: 4,
+        },
+      ],
+    },
+  };
+}
+
+describe('checkSolveData', () => {
+  it('accepts a well-formed response', () => {
+    expect(checkSolveData(solveData())).toBeUndefined();
+  });
+
+  it('accepts steps without the optional fields', () => {
+    const data = solveData();
+    const { title, text, areas, cells } = data.hints.steps[0]!;
+    const step = { title, text, areas, cells };
+
+    expect(checkSolveData({ ...data, hints: { ...data.hints, steps: [step] } })).toBeUndefined();
+  });
+
+  it('rejects boards that are not 81 digits', () => {
+    const data = solveData();
+    data.board.user = '123';
+
+    expect(checkSolveData(data)).toEqual({
+      path: 'data.board.user',
+      message: 'expected 81 digits',
+    });
+  });
+
+  it('rejects unknown colors', () => {
+    const data = solveData();
+    data.hints.steps[0]!.areas[0]!.color = 'purple';
+
+    expect(checkSolveData(data)?.path).toBe('data.hints.steps[0].areas[0].color');
+  });
+
+  it('rejects group cells off the board', () => {
+    const data = solveData();
+    data.hints.steps[0]!.groups[0]!.cells[1] = [1, 9];
+
+    expect(checkSolveData(data)?.path).toBe('data.hints.steps[0].groups[0].cells[1][1]');
+  });
+
+  it('accepts a solved board without hints', () => {
+    const { board } = solveData();
+
+    expect(checkSolveData({ board, hints: null })).toBeUndefined();
+    expect(checkSolveData({ board })).toBeUndefined();
+  });
+
+  it('rejects steps that are not an array', () => {
+    const data = { ...solveData(), hints: { technique: 0, level: 0, steps: null } };
+
+    expect(checkSolveData(data)).toEqual({
+      path: 'data.hints.steps',
+      message: 'expected an array',
+    });
+  });
+
+  it('rejects pencilmarks that do not cover the board', () => {
+    const data = solveData();
+    data.board.pencilmark.numbers = '12,3';
+
+    expect(checkSolveData(data)?.path).toBe('data.board.pencilmark.numbers');
+  });
+
+  it('rejects a missing response', () => {
+    expect(checkSolveData(undefined)).toEqual({ path: 'data', message: 'expected an object' });
+  });
+});
+
+describe('checkValidateData', () => {
+  it('accepts a level and solution', () => {
+    expect(checkValidateData({ board: { level: 3, solution, original } })).toBeUndefined();
+  });
+
+  it('rejects unsolved solutions', () => {
+    expect(checkValidateData({ board: { level: 3, solution: original } })?.path).toBe(
+      'data.board.solution'
+    );
+  });
+
+  it('rejects negative levels', () => {
+    expect(checkValidateData({ board: { level: -1, solution } })?.path).toBe('data.board.level');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Solver Response Schema
+ * Runtime checks for solver API responses, so a malformed response is rejected before it
+ * reaches the dialogs and the board renderer
+ */
+
+/**
+ * The first thing wrong with a response
+ */
+export interface SchemaIssue {
+  /** Where in the response, e.g. "data.hints.steps[0].cells[2].row" */
+  path: string;
+  /** What was expected there */
+  message: string;
+}
+
+type Check = (value: unknown, path: string) => SchemaIssue | undefined;
+
+const COLORS = [
+  'none',
+  'clear',
+  'gray',
+  'blue',
+  'green',
+  'yellow',
+  'orange',
+  'red',
+  'white',
+  'black',
+] as const;
+
+const AREA_TYPES = ['row', 'column', 'block'] as const;
+
+const LINK_TYPES = ['strong', 'weak'] as const;
+
+const CELL_ACTIONS = ['select', 'unselect', 'add', 'remove', 'highlight'] as const;
+
+function issue(path: string, message: string): SchemaIssue {
+  return { path, message };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return `${path}.${key}`;
+}
+
+function integer(min: number, max: number = Number.MAX_SAFE_INTEGER): Check {
+  return (value, path) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+      ? undefined
+      : issue(
+          path,
+          `expected an integer ${min}-${max === Number.MAX_SAFE_INTEGER ? 'or more' : max}`
+        );
+}
+
+function matches(pattern: RegExp, description: string): Check {
+  return (value, path) =>
+    typeof value === 'string' && pattern.test(value)
+      ? undefined
+      : issue(path, `expected ${description}`);
+}
+
+function oneOf(options: readonly string[]): Check {
+  return (value, path) =>
+    typeof value === 'string' && options.includes(value)
+      ? undefined
+      : issue(path, `expected one of ${options.join(', ')}`);
+}
+
+const string: Check = (value, path) =>
+  typeof value === 'string' ? undefined : issue(path, 'expected a string');
+
+const boolean: Check = (value, path) =>
+  typeof value === 'boolean' ? undefined : issue(path, 'expected a boolean');
+
+const cellIndex = integer(0, 8);
+const digit = integer(1, 9);
+const color = oneOf(COLORS);
+const digits = matches(/^[1-9]*$/, 'digits 1-9');
+const board = matches(/^[0-9]{81}$/, '81 digits');
+
+/**
+ * An object whose listed fields pass their checks; fields marked optional may be missing
+ */
+function object(fields: Record<string, Check>, optional: readonly string[] = []): Check {
+  return (value, path) => {
+    if (!isRecord(value)) return issue(path, 'expected an object');
+    for (const [key, check] of Object.entries(fields)) {
+      if (value[key] === undefined && optional.includes(key)) continue;
+      const found = check(value[key], join(path, key));
+      if (found) return found;
+    }
+    return undefined;
+  };
+}
+
+/**
+ * A value that passes its check, or null
+ */
+function nullable(check: Check): Check {
+  return (value, path) => (value === null ? undefined : check(value, path));
+}
+
+function array(item: Check): Check {
+  return (value, path) => {
+    if (!Array.isArray(value)) return issue(path, 'expected an array');
+    for (let i = 0; i < value.length; i++) {
+      const found = item(value[i], join(path, i));
+      if (found) return found;
+    }
+    return undefined;
+  };
+}
+
+/** Comma-delimited candidates for all 81 cells, or empty when there are none */
+const pencilmarkNumbers: Check = (value, path) => {
+  if (typeof value !== 'string') return issue(path, 'expected a string');
+  if (value === '') return undefined;
+  const entries = value.split(',');
+  return entries.length === 81 && entries.every(entry => /^[1-9]*$/.test(entry))
+    ? undefined
+    : issue(path, 'expected 81 comma-separated candidate lists');
+};
+
+const hintCell = object({
+  row: cellIndex,
+  column: cellIndex,
+  color,
+  fill: boolean,
+  actions: object(Object.fromEntries(CELL_ACTIONS.map(action => [action, digits]))),
+});
+
+const hintStep = object(
+  {
+    title: string,
+    text: string,
+    areas: array(object({ type: oneOf(AREA_TYPES), color, index: cellIndex })),
+    cells: array(hintCell),
+    links: array(
+      object({
+        fromRow: cellIndex,
+        fromCol: cellIndex,
+        toRow: cellIndex,
+        toCol: cellIndex,
+        type: oneOf(LINK_TYPES),
+        digit,
+      })
+    ),
+    groups: array(
+      object({
+        name: string,
+        color,
+        cells: array((value, path) =>
+          Array.isArray(value) && value.length === 2
+            ? (cellIndex(value[0], join(path, 0)) ?? cellIndex(value[1], join(path, 1)))
+            : issue(path, 'expected a [row, column] pair')
+        ),
+      })
+    ),
+    digit,
+  },
+  ['links', 'groups', 'digit']
+);
+
+// A solved board comes back without hints
+const solveData = object(
+  {
+    board: object({
+      original: board,
+      user: board,
+      pencilmark: object({ autopencil: boolean, numbers: pencilmarkNumbers }),
+    }),
+    hints: nullable(
+      object({
+        technique: integer(0),
+        level: integer(0),
+        steps: array(hintStep),
+      })
+    ),
+  },
+  ['hints']
+);
+
+const validateData = object({
+  board: object({
+    level: integer(0),
+    solution: matches(/^[1-9]{81}$/, 'a solved board of 81 digits 1-9'),
+  }),
+});
+
+/**
+ * Check the data of a /solver/solve response
+ * @returns The first problem found, or undefined if the data can be used as SolveData
+ */
+export function checkSolveData(data: unknown): SchemaIssue | undefined {
+  return solveData(data, 'data');
+}
+
+/**
+ * Check the data of a /solver/validate response. Only the fields the bot uses are checked.
+ * @returns The first problem found, or undefined if the data can be used as ValidateData
+ */
+export function checkValidateData(data: unknown): SchemaIssue | undefined {
+  return validateData(data, 'data');
+}
@@ -1,5 +1,12 @@
 import { describe, it, expect, mock, afterEach } from 'bun:test';
-import { SolverService } from './solverService.js';
+import {
+  SolverService,
+  SolverCircuitOpenError,
+  SolverRequestError,
+  SolverResponseError,
+  SolverTimeoutError,
+  SolverUnavailableError,
+} from './solverService.js';
 import type { SolverBoard } from '@sudobility/sudojo_types';
 
 describe('SolverService', () => {
@@ -71,8 +78,8 @@ describe('SolverService', () => {
           success: true,
           data: {
             board: {
-              original: 'test',
-              user: 'test',
+              original: '530070000600195000098000060800060003400803001700020006060000280000419005000080079',
+              user: '000000000000000000000000000000000000000000000000000000000000000000000000000000000',
               pencilmark: { autopencil: false, numbers: '' },
             },
             hints: {
@@ -95,8 +102,8 @@ describe('SolverService', () => {
 
     it('returns board and hints on success', async () => {
       const mockBoard = {
-        original: 'orig',
-        user: 'usr',
+        original: '530070000600195000098000060800060003400803001700020006060000280000419005000080079',
+        user: '004000000000000000000000000000000000000000000000000000000000000000000000000000000',
         pencilmark: { autopencil: false, numbers: '' },
       };
       const mockHints = {
@@ -113,7 +120,7 @@ describe('SolverService', () => {
       }) as unknown as typeof fetch;
 
       const service = new SolverService('http://localhost:3000');
-      const result = await service.solve('orig', 'usr');
+      const result = await service.solve(mockBoard.original, mockBoard.user);
 
       expect(result.board).toEqual(mockBoard);
       expect(result.hints).toEqual(mockHints);
@@ -176,4 +183,268 @@ describe('SolverService', () => {
       expect(result.solution).toBeUndefined();
     });
   });
+
+  describe('local solver fallback', () => {
+    const originalFetch = globalThis.fetch;
+    const original = '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+    const solution = '534678912672195348198342567859761423426853791713924856961537284287419635345286179';
+    const empty = '000000000000000000000000000000000000000000000000000000000000000000000000000000000';
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    it('validates locally when the API is unreachable', async () => {
+      globalThis.fetch = mock(async () => {
+        throw new TypeError('fetch failed');
+      }) as unknown as typeof fetch;
+
+      const service = new SolverService('http://localhost:3000', { retryDelayMs: 0 });
+      const result = await service.validate(original);
+
+      expect(result.valid).toBe(true);
+      expect(result.solution).toBe(solution);
+    });
+
+    it('gives local hints when the API has a server error', async () => {
+      globalThis.fetch = mock(async () => {
+        return new Response('Bad Gateway', { status: 502 });
+      }) as unknown as typeof fetch;
+
+      const service = new SolverService('http://localhost:3000', { retryDelayMs: 0 });
+      const result = await service.solve(original, empty);
+
+      expect(result.hints.steps.length).toBeGreaterThan(0);
+      expect(result.board.original).toBe(original);
+    });
+
+    it('still reports puzzles the API rejects', async () => {
+      globalThis.fetch = mock(async () => {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Invalid puzzle',
+        }), { status: 400 });
+      }) as unknown as typeof fetch;
+
+      const service = new SolverService('http://localhost:3000');
+      await expect(service.solve(original, empty)).rejects.toThrow('Invalid puzzle');
+    });
+
+    it('never calls the API in local-only mode', async () => {
+      const fetchMock = mock(async () => new Response('{}'));
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const service = new SolverService('http://localhost:3000', { localOnly: true });
+      const result = await service.validate(original);
+
+      expect(service.isLocalOnly).toBe(true);
+      expect(result.valid).toBe(true);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resilience', () => {
+    const originalFetch = globalThis.fetch;
+    const original = '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    it('retries requests while the API is unavailable', async () => {
+      let calls = 0;
+      globalThis.fetch = mock(async () => {
+        calls++;
+        if (calls < 3) return new Response('Service Unavailable', { status: 503 });
+        return new Response(JSON.stringify({
+          success: true,
+          data: { board: { level: 2, solution: '1'.repeat(81) } },
+        }));
+      }) as unknown as typeof fetch;
+
+      const service = new SolverService('http://localhost:3000', { retryDelayMs: 0 });
+      const result = await service.validate(original);
+
+      expect(calls).toBe(3);
+      expect(result.level).toBe(2);
+    });
+
+    it('does not retry rejected requests', async () => {
+      const fetchMock = mock(async () => {
+        return new Response(JSON.stringify({ success: false, error: 'Invalid puzzle' }), { status: 400 });
+      });
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const service = new SolverService('http://localhost:3000', { retryDelayMs: 0 });
+      await expect(service.solve(original, original)).rejects.toBeInstanceOf(SolverRequestError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('times out slow requests', async () => {
+      globalThis.fetch = mock((_url: string, init?: RequestInit) => {
+        return new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+        });
+      }) as unknown as typeof fetch;
+
+      const service = new SolverService('http://localhost:3000', {
+        timeoutMs: 20,
+        retries: 0,
+        localFallback: false,
+      });
+
+      await expect(service.validate(original)).rejects.toBeInstanceOf(SolverTimeoutError);
+    });
+
+    it('falls back after one timed-out request instead of retrying it', async () => {
+      const fetchMock = mock((_url: string, init?: RequestInit) => {
+        return new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+        });
+      });
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const service = new SolverService('http://localhost:3000', { timeoutMs: 20, retryDelayMs: 0 });
+      const result = await service.validate(original);
+
+      expect(result.valid).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails fast once the circuit opens', async () => {
+      const fetchMock = mock(async () => {
+        throw new TypeError('fetch failed');
+      });
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const service = new SolverService('http://localhost:3000', {
+        retries: 0,
+        localFallback: false,
+        circuitBreaker: { failureThreshold: 2 },
+      });
+
+      await expect(service.validate(original)).rejects.toBeInstanceOf(SolverUnavailableError);
+      await expect(service.validate(original)).rejects.toBeInstanceOf(SolverUnavailableError);
+      expect(service.circuitState).toBe('open');
+
+      await expect(service.validate(original)).rejects.toBeInstanceOf(SolverCircuitOpenError);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('response validation', () => {
+    const originalFetch = globalThis.fetch;
+    const original = '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+    const empty = '000000000000000000000000000000000000000000000000000000000000000000000000000000000';
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    function respondWith(data: unknown) {
+      globalThis.fetch = mock(async () => {
+        return new Response(JSON.stringify({ success: true, data }));
+      }) as unknown as typeof fetch;
+    }
+
+    it('rejects hints with cells off the board', async () => {
+      respondWith({
+        board: { original, user: empty, pencilmark: { autopencil: false, numbers: '' } },
+        hints: {
+          technique: 2,
+          level: 2,
+          steps: [{
+            title: 'Hidden Single',
+            text: 'Place 4',
+            areas: [],
+            cells: [{
+              row: 9,
+              column: 0,
+              color: 'green',
+              fill: true,
+              actions: { select: '4', unselect: '', add: '', remove: '', highlight: '' },
+            }],
+          }],
+        },
+      });
+
+      const service = new SolverService('http://localhost:3000', { localFallback: false });
+      const error = await service.solve(original, empty).catch(e => e);
+
+      expect(error).toBeInstanceOf(SolverResponseError);
+      expect(error.endpoint).toBe('solve');
+      expect(error.path).toBe('data.hints.steps[0].cells[0].row');
+      expect(service.getInvalidResponseCounts()).toEqual({ solve: 1, validate: 0 });
+    });
+
+    it('accepts a solved board without hints', async () => {
+      const solved = '534678912672195348198342567859761423426853791713924856961537284287419635345286179';
+      respondWith({
+        board: { original, user: solved, pencilmark: { autopencil: false, numbers: '' } },
+        hints: null,
+      });
+
+      const service = new SolverService('http://localhost:3000', { localFallback: false });
+      const result = await service.solve(original, solved);
+
+      expect(result.hints).toEqual({ technique: 0, level: 0, steps: [] });
+      expect(service.getInvalidResponseCounts()).toEqual({ solve: 0, validate: 0 });
+    });
+
+    it('falls back to the local solver on a malformed response', async () => {
+      respondWith({ board: { level: 3, solution: 'not a solution' } });
+
+      const service = new SolverService('http://localhost:3000');
+      const result = await service.validate(original);
+
+      expect(result.valid).toBe(true);
+      expect(result.solution).toBe('534678912672195348198342567859761423426853791713924856961537284287419635345286179');
+      expect(service.getInvalidResponseCounts()).toEqual({ solve: 0, validate: 1 });
+    });
+  });
+
+  describe('result cache', () => {
+    const originalFetch = globalThis.fetch;
+    const original = '530070000600195000098000060800060003400803001700020006060000280000419005000080079';
+    const empty = '000000000000000000000000000000000000000000000000000000000000000000000000000000000';
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    it('answers repeated solves for the same board from the cache', async () => {
+      const fetchMock = mock(async () => {
+        return new Response(JSON.stringify({
+          success: true,
+          data: {
+            board: { original, user: empty, pencilmark: { autopencil: false, numbers: '' } },
+            hints: { technique: 2, level: 2, steps: [] },
+          },
+        }));
+      });
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const service = new SolverService('http://localhost:3000');
+      await service.solve(original, empty);
+      await service.solve(original, empty);
+      await service.solve(original, empty, undefined, true);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(service.getCacheStats()).toMatchObject({ hits: 1, misses: 2, size: 2 });
+    });
+
+    it('does not cache local fallback results', async () => {
+      const fetchMock = mock(async () => {
+        throw new TypeError('fetch failed');
+      });
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const service = new SolverService('http://localhost:3000', { retries: 0 });
+      await service.solve(original, empty);
+      await service.solve(original, empty);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(service.getCacheStats().size).toBe(0);
+    });
+  });
 });
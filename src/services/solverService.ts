@@ -1,10 +1,15 @@
 /**
  * Solver Service for getting Sudoku hints
- * Calls the Sudojo solver API
+ * Calls the Sudojo solver API with timeouts, retries and a circuit breaker, falling back to
+ * the local solver when it is unavailable
  */
 
 import type { SolveData, ValidateData, SolverHints, SolverBoard } from '@sudobility/sudojo_types';
 import type { BaseResponse } from '@sudobility/types';
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitState } from './circuitBreaker.js';
+import { LocalSolver } from './localSolver.js';
+import { SolverCache, type SolverCacheOptions, type SolverCacheStats } from './solverCache.js';
+import { checkSolveData, checkValidateData, type SchemaIssue } from './solverSchema.js';
 
 export interface SolveResult {
   /** Updated board state after applying hint */
@@ -22,20 +27,150 @@ export interface ValidateResult {
   solution?: string;
 }
 
+/** Solver API endpoints the bot calls */
+export type SolverEndpoint = 'solve' | 'validate';
+
+export interface SolverServiceOptions {
+  /** Never call the solver API; answer everything with the local solver (default: false) */
+  localOnly?: boolean;
+  /** Solver used when the API is unavailable or `localOnly` is set */
+  localSolver?: LocalSolver;
+  /** Answer with the local solver when the API is unavailable, instead of throwing (default: true) */
+  localFallback?: boolean;
+  /** Time limit for each API request (ms, default: 10000) */
+  timeoutMs?: number;
+  /** Extra attempts while the API is unavailable; a timed-out request is not retried (default: 2) */
+  retries?: number;
+  /** Delay before the first retry, doubling for each one after (ms, default: 250) */
+  retryDelayMs?: number;
+  /** When to stop calling the API after repeated failures */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Limits for the cache of solve results from the API */
+  cache?: SolverCacheOptions;
+}
+
+/**
+ * Thrown when the solver API can't be reached or fails on its side (as opposed to
+ * rejecting the request)
+ */
+export class SolverUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SolverUnavailableError';
+  }
+}
+
+/**
+ * Thrown when the solver API doesn't answer within the time limit
+ */
+export class SolverTimeoutError extends SolverUnavailableError {
+  constructor(timeoutMs: number) {
+    super(`Solver request timed out after ${timeoutMs}ms`);
+    this.name = 'SolverTimeoutError';
+  }
+}
+
+/**
+ * Thrown without calling the solver API while the circuit breaker is open
+ */
+export class SolverCircuitOpenError extends SolverUnavailableError {
+  constructor() {
+    super('Solver API is failing, not calling it for now');
+    this.name = 'SolverCircuitOpenError';
+  }
+}
+
+/**
+ * Thrown when the solver API answers with data that doesn't match the expected schema
+ */
+export class SolverResponseError extends SolverUnavailableError {
+  /** Endpoint that sent the response */
+  endpoint: SolverEndpoint;
+  /** Where in the response the problem is, e.g. "data.hints.steps[0].cells[2].row" */
+  path: string;
+
+  constructor(endpoint: SolverEndpoint, problem: SchemaIssue) {
+    super(`Invalid ${endpoint} response: ${problem.path} ${problem.message}`);
+    this.name = 'SolverResponseError';
+    this.endpoint = endpoint;
+    this.path = problem.path;
+  }
+}
+
+/**
+ * Thrown when the solver API rejects a request, usually because of the puzzle itself
+ */
+export class SolverRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SolverRequestError';
+  }
+}
+
 /**
  * HTTP client service for the Sudojo solver API.
  * Provides methods to solve puzzles, validate uniqueness, check completion, and apply hints.
+ * When the API is down, hints and validation come from the in-process LocalSolver, which
+ * only knows the basic techniques. With the fallback turned off, callers get a
+ * SolverUnavailableError instead. Responses that don't match the expected schema are
+ * counted and treated like an unavailable API.
  */
 export class SolverService {
   private baseUrl: string;
+  private localOnly: boolean;
+  private localSolver: LocalSolver;
+  private localFallback: boolean;
+  private timeoutMs: number;
+  private retries: number;
+  private retryDelayMs: number;
+  private circuit: CircuitBreaker;
+  private invalidResponses: Record<SolverEndpoint, number> = { solve: 0, validate: 0 };
+  private cache: SolverCache;
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, options: SolverServiceOptions = {}) {
     // Remove trailing slash
     this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.localOnly = options.localOnly ?? false;
+    this.localSolver = options.localSolver ?? new LocalSolver();
+    this.localFallback = options.localFallback ?? true;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.retries = Math.max(0, options.retries ?? 2);
+    this.retryDelayMs = options.retryDelayMs ?? 250;
+    this.circuit = new CircuitBreaker(options.circuitBreaker);
+    this.cache = new SolverCache(options.cache);
+  }
+
+  /**
+   * Whether every request is answered by the local solver
+   */
+  get isLocalOnly(): boolean {
+    return this.localOnly;
+  }
+
+  /**
+   * State of the circuit breaker in front of the solver API
+   */
+  get circuitState(): CircuitState {
+    return this.circuit.state;
+  }
+
+  /**
+   * Size and hit rate of the solve result cache
+   */
+  getCacheStats(): SolverCacheStats {
+    return this.cache.getStats();
+  }
+
+  /**
+   * Number of responses rejected by schema validation, per endpoint
+   */
+  getInvalidResponseCounts(): Record<SolverEndpoint, number> {
+    return { ...this.invalidResponses };
   }
 
   /**
-   * Get a hint for the current puzzle state
+   * Get a hint for the current puzzle state. Results for a board state seen recently come
+   * from the cache.
    * @param original - Original puzzle (81 chars)
    * @param user - User's current input (81 chars)
    * @param pencilmarks - Optional pencilmarks string
@@ -47,6 +182,16 @@ export class SolverService {
     pencilmarks?: string,
     autoPencilmarks: boolean = false
   ): Promise<SolveResult> {
+    if (this.localOnly) {
+      return this.localSolver.solve(original, user, pencilmarks, autoPencilmarks);
+    }
+
+    const cacheKey = SolverCache.key(original, user, pencilmarks, autoPencilmarks);
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
     const params = new URLSearchParams({
       original,
       user,
@@ -59,17 +204,28 @@ export class SolverService {
 
     const url = `${this.baseUrl}/api/v1/solver/solve?${params.toString()}`;
 
-    const response = await fetch(url);
-    const json = (await response.json()) as BaseResponse<SolveData>;
+    let response: Response;
+    let json: BaseResponse<SolveData>;
+    try {
+      ({ response, json } = await this.fetchJson<SolveData>('solve', url, checkSolveData));
+    } catch (error) {
+      if (!(error instanceof SolverUnavailableError) || !this.localFallback) throw error;
+      console.error('Solver API unavailable, using the local solver:', error.message);
+      return this.localSolver.solve(original, user, pencilmarks, autoPencilmarks);
+    }
 
     if (!response.ok || !json.success || !json.data) {
-      throw new Error(json.error || `Solver error: ${response.status}`);
+      throw new SolverRequestError(json.error || `Solver error: ${response.status}`);
     }
 
-    return {
+    // Only API results are cached; local fallback hints are too basic to keep
+    const result = {
       board: json.data.board,
-      hints: json.data.hints,
+      // A solved board comes back without hints; callers treat no steps as no hint
+      hints: json.data.hints ?? { technique: 0, level: 0, steps: [] },
     };
+    this.cache.set(cacheKey, result);
+    return result;
   }
 
   /**
@@ -77,11 +233,22 @@ export class SolverService {
    * @param original - Puzzle to validate (81 chars)
    */
   async validate(original: string): Promise<ValidateResult> {
+    if (this.localOnly) {
+      return this.localSolver.validate(original);
+    }
+
     const params = new URLSearchParams({ original });
     const url = `${this.baseUrl}/api/v1/solver/validate?${params.toString()}`;
 
-    const response = await fetch(url);
-    const json = (await response.json()) as BaseResponse<ValidateData>;
+    let response: Response;
+    let json: BaseResponse<ValidateData>;
+    try {
+      ({ response, json } = await this.fetchJson<ValidateData>('validate', url, checkValidateData));
+    } catch (error) {
+      if (!(error instanceof SolverUnavailableError) || !this.localFallback) throw error;
+      console.error('Solver API unavailable, using the local solver:', error.message);
+      return this.localSolver.validate(original);
+    }
 
     if (!response.ok || !json.success || !json.data) {
       return { valid: false };
@@ -94,6 +261,96 @@ export class SolverService {
     };
   }
 
+  /**
+   * Call the solver API and check the data of a successful response against its schema
+   * @throws SolverResponseError if the data doesn't match the schema
+   * @throws SolverUnavailableError if the API can't be reached
+   */
+  private async fetchJson<T>(
+    endpoint: SolverEndpoint,
+    url: string,
+    check: (data: unknown) => SchemaIssue | undefined
+  ): Promise<{ response: Response; json: BaseResponse<T> }> {
+    const result = await this.fetchWithRetries<T>(url);
+
+    const { response, json } = result;
+    if (response.ok && json.success && json.data) {
+      const problem = check(json.data);
+      if (problem) {
+        this.invalidResponses[endpoint]++;
+        throw new SolverResponseError(endpoint, problem);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Call the solver API, retrying with backoff while it is unavailable. Solver requests are
+   * GETs without side effects, so retrying them is safe. A request that timed out is not
+   * retried: a hung API would only make the caller wait the time limit again before the
+   * local fallback answers.
+   * @throws SolverCircuitOpenError without calling the API after repeated failures
+   * @throws SolverUnavailableError if every attempt fails
+   */
+  private async fetchWithRetries<T>(
+    url: string
+  ): Promise<{ response: Response; json: BaseResponse<T> }> {
+    if (!this.circuit.allowRequest()) {
+      throw new SolverCircuitOpenError();
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await this.fetchOnce<T>(url);
+        this.circuit.recordSuccess();
+        return result;
+      } catch (error) {
+        const retryable =
+          error instanceof SolverUnavailableError && !(error instanceof SolverTimeoutError);
+        if (!retryable || attempt >= this.retries) {
+          this.circuit.recordFailure();
+          throw error;
+        }
+        await new Promise(resolve => setTimeout(resolve, this.retryDelayMs * 2 ** attempt));
+      }
+    }
+  }
+
+  /**
+   * Make one request to the solver API
+   * @throws SolverTimeoutError if it takes longer than the time limit
+   * @throws SolverUnavailableError if the request fails, the server errors (5xx) or the
+   * response isn't JSON
+   */
+  private async fetchOnce<T>(url: string): Promise<{ response: Response; json: BaseResponse<T> }> {
+    const isTimeout = (error: unknown) =>
+      error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    } catch (error) {
+      if (isTimeout(error)) throw new SolverTimeoutError(this.timeoutMs);
+      throw new SolverUnavailableError(
+        `Solver request failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (response.status >= 500) {
+      throw new SolverUnavailableError(`Solver error: ${response.status}`);
+    }
+
+    try {
+      return { response, json: (await response.json()) as BaseResponse<T> };
+    } catch (error) {
+      if (isTimeout(error)) throw new SolverTimeoutError(this.timeoutMs);
+      throw new SolverUnavailableError(
+        `Solver returned an unreadable response (${response.status})`
+      );
+    }
+  }
+
   /**
    * Check if a puzzle is completely solved
    * @param original - Original puzzle
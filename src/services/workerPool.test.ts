@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'bun:test';
+import { WorkerPool, JobTimeoutError, JobCancelledError, QueueFullError } from './workerPool.js';
+
+interface FakeWorker {
+  id: number;
+  destroyed: boolean;
+  /** Sends a progress message, as Tesseract's logger does */
+  report: (message: string) => void;
+}
+
+/** Create a pool of fake workers that records what it created */
+function createPool(options: { size?: number; jobTimeoutMs?: number; maxQueueLength?: number }) {
+  const created: FakeWorker[] = [];
+  const pool = new WorkerPool<FakeWorker, string>({
+    createWorker: async report => {
+      const worker = { id: created.length + 1, destroyed: false, report };
+      created.push(worker);
+      return worker;
+    },
+    destroyWorker: async worker => {
+      worker.destroyed = true;
+    },
+    ...options,
+  });
+  return { pool, created };
+}
+
+/** A promise that can be resolved from outside */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe('WorkerPool', () => {
+  it('reuses idle workers between jobs', async () => {
+    const { pool, created } = createPool({ size: 2 });
+
+    const first = await pool.run(async worker => worker.id);
+    const second = await pool.run(async worker => worker.id);
+
+    expect(first).toBe(1);
+    expect(second).toBe(1);
+    expect(created).toHaveLength(1);
+  });
+
+  it('creates all workers up front when warmed up', async () => {
+    const { pool, created } = createPool({ size: 3 });
+    await pool.warmUp();
+
+    expect(created).toHaveLength(3);
+    expect(pool.getStats()).toEqual({ size: 3, workers: 3, busy: 0, queued: 0 });
+  });
+
+  it('queues jobs beyond the pool size and reports their position', async () => {
+    const { pool } = createPool({ size: 1 });
+    const gate = deferred<void>();
+    const positions: number[] = [];
+
+    const running = pool.run(async () => gate.promise);
+    const second = pool.run(async () => 'second', { onQueued: p => positions.push(p) });
+    const third = pool.run(async () => 'third', { onQueued: p => positions.push(p) });
+
+    expect(positions).toEqual([1, 2]);
+    expect(pool.getStats().queued).toBe(2);
+
+    gate.resolve();
+    await running;
+    expect(await second).toBe('second');
+    expect(await third).toBe('third');
+    expect(pool.getStats()).toEqual({ size: 1, workers: 1, busy: 0, queued: 0 });
+  });
+
+  it('rejects jobs when the queue is full', async () => {
+    const { pool } = createPool({ size: 1, maxQueueLength: 1 });
+    const gate = deferred<void>();
+
+    const running = pool.run(async () => gate.promise);
+    const queued = pool.run(async () => undefined);
+
+    await expect(pool.run(async () => undefined)).rejects.toBeInstanceOf(QueueFullError);
+
+    gate.resolve();
+    await Promise.all([running, queued]);
+  });
+
+  it('times out slow jobs and replaces their worker', async () => {
+    const { pool, created } = createPool({ size: 1, jobTimeoutMs: 10 });
+
+    const slow = pool.run(() => new Promise(() => undefined));
+    await expect(slow).rejects.toBeInstanceOf(JobTimeoutError);
+
+    expect(created[0]?.destroyed).toBe(true);
+    expect(await pool.run(async worker => worker.id)).toBe(2);
+  });
+
+  it('cancels queued jobs without running them', async () => {
+    const { pool } = createPool({ size: 1 });
+    const gate = deferred<void>();
+    const controller = new AbortController();
+    let ran = false;
+
+    const running = pool.run(async () => gate.promise);
+    const queued = pool.run(
+      async () => {
+        ran = true;
+      },
+      { signal: controller.signal }
+    );
+
+    controller.abort();
+    await expect(queued).rejects.toBeInstanceOf(JobCancelledError);
+    expect(pool.getStats().queued).toBe(0);
+
+    gate.resolve();
+    await running;
+    expect(ran).toBe(false);
+  });
+
+  it('cancels running jobs and replaces their worker', async () => {
+    const { pool, created } = createPool({ size: 1 });
+    const controller = new AbortController();
+
+    const running = pool.run(() => new Promise(() => undefined), { signal: controller.signal });
+    await Promise.resolve();
+    await Promise.resolve();
+    controller.abort();
+
+    await expect(running).rejects.toBeInstanceOf(JobCancelledError);
+    expect(created[0]?.destroyed).toBe(true);
+  });
+
+  it('destroys idle workers on shutdown', async () => {
+    const { pool, created } = createPool({ size: 1 });
+    await pool.warmUp();
+
+    await pool.shutdown();
+
+    expect(created[0]?.destroyed).toBe(true);
+    expect(pool.getStats().workers).toBe(0);
+  });
+
+  it('sends worker messages to the job running on it', async () => {
+    const { pool, created } = createPool({ size: 1 });
+    const first: string[] = [];
+    const second: string[] = [];
+
+    await pool.run(async worker => worker.report('recognizing 1'), {
+      onMessage: message => first.push(message),
+    });
+    created[0]?.report('between jobs');
+    await pool.run(async worker => worker.report('recognizing 2'), {
+      onMessage: message => second.push(message),
+    });
+
+    expect(first).toEqual(['recognizing 1']);
+    expect(second).toEqual(['recognizing 2']);
+  });
+
+  it('stops sending messages to a job that timed out', async () => {
+    const { pool, created } = createPool({ size: 1, jobTimeoutMs: 10 });
+    const messages: string[] = [];
+
+    const slow = pool.run(() => new Promise(() => undefined), {
+      onMessage: message => messages.push(message),
+    });
+    await expect(slow).rejects.toBeInstanceOf(JobTimeoutError);
+    created[0]?.report('too late');
+
+    expect(messages).toEqual([]);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Worker Pool
+ * Bounded pool of long-lived workers with a FIFO job queue, per-job timeout and cancellation.
+ * Used to keep Tesseract workers warm and limit how many images are read at once, and to
+ * pass each worker's progress messages to the job it is running.
+ */
+
+/**
+ * Thrown when a job runs longer than the pool's job timeout
+ */
+export class JobTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Job timed out after ${timeoutMs}ms`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+/**
+ * Thrown when a job is cancelled through its abort signal
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Thrown when a job is submitted while the queue is full
+ */
+export class QueueFullError extends Error {
+  constructor(maxQueueLength: number) {
+    super(`Queue is full (${maxQueueLength} jobs waiting)`);
+    this.name = 'QueueFullError';
+  }
+}
+
+export interface WorkerPoolOptions<W, M = never> {
+  /**
+   * Creates a ready-to-use worker. Messages the worker sends through `report` go to the
+   * job running on it at the time.
+   */
+  createWorker: (report: (message: M) => void) => Promise<W>;
+  /** Releases a worker's resources */
+  destroyWorker: (worker: W) => Promise<void>;
+  /** Maximum number of workers (and concurrent jobs) */
+  size?: number;
+  /** Time a job may run before it fails and its worker is replaced (ms) */
+  jobTimeoutMs?: number;
+  /** Maximum number of jobs waiting for a worker */
+  maxQueueLength?: number;
+}
+
+export interface JobOptions {
+  /** Cancels the job, whether it is still queued or already running */
+  signal?: AbortSignal;
+  /** Called when the job has to wait, with its 1-based position in the queue */
+  onQueued?: (position: number) => void;
+}
+
+export interface RunOptions<M> extends JobOptions {
+  /** Called with the messages the worker reports while running this job */
+  onMessage?: (message: M) => void;
+}
+
+export interface WorkerPoolStats {
+  /** Maximum number of workers */
+  size: number;
+  /** Workers created or being created */
+  workers: number;
+  /** Workers running a job */
+  busy: number;
+  /** Jobs waiting for a worker */
+  queued: number;
+}
+
+interface QueuedJob<W> {
+  start: (worker: W) => void;
+  fail: (error: Error) => void;
+}
+
+/**
+ * Where a worker's messages go: the job it is running, if any
+ */
+interface MessageRoute<M> {
+  listener?: (message: M) => void;
+}
+
+/**
+ * Bounded pool of reusable workers.
+ * Jobs run on an idle worker when one is available, otherwise wait in a FIFO queue.
+ * A worker whose job timed out or was cancelled mid-run is destroyed and replaced,
+ * since the job may still be using it.
+ */
+export class WorkerPool<W, M = never> {
+  private createWorker: (report: (message: M) => void) => Promise<W>;
+  private destroyWorker: (worker: W) => Promise<void>;
+  private size: number;
+  private jobTimeoutMs: number;
+  private maxQueueLength: number;
+
+  private idle: W[] = [];
+  private queue: QueuedJob<W>[] = [];
+  private routes = new Map<W, MessageRoute<M>>();
+  private workerCount = 0;
+  private busy = 0;
+
+  constructor(options: WorkerPoolOptions<W, M>) {
+    this.createWorker = options.createWorker;
+    this.destroyWorker = options.destroyWorker;
+    this.size = Math.max(1, options.size ?? 2);
+    this.jobTimeoutMs = options.jobTimeoutMs ?? 60_000;
+    this.maxQueueLength = options.maxQueueLength ?? 20;
+  }
+
+  /**
+   * Create workers up to the pool size so the first jobs don't pay the startup cost
+   */
+  async warmUp(): Promise<void> {
+    const pending: Promise<void>[] = [];
+    while (this.workerCount < this.size) {
+      this.workerCount++;
+      pending.push(
+        this.spawn().then(
+          worker => this.release(worker),
+          error => {
+            this.workerCount--;
+            throw error;
+          }
+        )
+      );
+    }
+    await Promise.all(pending);
+  }
+
+  /**
+   * Run a job on a pooled worker
+   * @param job - Work to do with the worker
+   * @param options - Cancellation signal, queue position callback and worker message callback
+   * @throws JobTimeoutError, JobCancelledError, QueueFullError, or the job's own error
+   */
+  run<T>(job: (worker: W) => Promise<T>, options: RunOptions<M> = {}): Promise<T> {
+    const { signal, onQueued, onMessage } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(new JobCancelledError());
+    }
+    if (!this.hasFreeWorker() && this.queue.length >= this.maxQueueLength) {
+      return Promise.reject(new QueueFullError(this.maxQueueLength));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(entry);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+          reject(new JobCancelledError());
+        }
+      };
+
+      const entry: QueuedJob<W> = {
+        start: worker => {
+          signal?.removeEventListener('abort', onAbort);
+          this.execute(worker, job, signal, onMessage, resolve, reject);
+        },
+        fail: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(entry);
+      this.drain();
+
+      const position = this.queue.indexOf(entry);
+      if (position >= 0) {
+        onQueued?.(position + 1);
+      }
+    });
+  }
+
+  /**
+   * Current pool usage
+   */
+  getStats(): WorkerPoolStats {
+    return {
+      size: this.size,
+      workers: this.workerCount,
+      busy: this.busy,
+      queued: this.queue.length,
+    };
+  }
+
+  /**
+   * Fail queued jobs and destroy idle workers; busy workers are destroyed when their job ends
+   */
+  async shutdown(): Promise<void> {
+    const queued = this.queue.splice(0);
+    for (const entry of queued) {
+      entry.fail(new JobCancelledError());
+    }
+
+    this.size = 0;
+    const idle = this.idle.splice(0);
+    this.workerCount -= idle.length;
+    for (const worker of idle) this.routes.delete(worker);
+    await Promise.all(idle.map(worker => this.destroyWorker(worker)));
+  }
+
+  /**
+   * Whether a job submitted now would start without waiting
+   */
+  private hasFreeWorker(): boolean {
+    return this.idle.length > 0 || this.workerCount < this.size;
+  }
+
+  /**
+   * Start queued jobs while workers are available
+   */
+  private drain(): void {
+    while (this.queue.length > 0 && this.hasFreeWorker()) {
+      const entry = this.queue.shift()!;
+      const worker = this.idle.pop();
+
+      if (worker !== undefined) {
+        entry.start(worker);
+        continue;
+      }
+
+      this.workerCount++;
+      this.spawn().then(
+        created => entry.start(created),
+        error => {
+          this.workerCount--;
+          entry.fail(error instanceof Error ? error : new Error(String(error)));
+          this.drain();
+        }
+      );
+    }
+  }
+
+  /**
+   * Create a worker whose messages go to the job it is running
+   */
+  private async spawn(): Promise<W> {
+    const route: MessageRoute<M> = {};
+    const worker = await this.createWorker(message => route.listener?.(message));
+    this.routes.set(worker, route);
+    return worker;
+  }
+
+  /**
+   * Run a job with timeout and cancellation, then return or replace its worker
+   */
+  private execute<T>(
+    worker: W,
+    job: (worker: W) => Promise<T>,
+    signal: AbortSignal | undefined,
+    onMessage: ((message: M) => void) | undefined,
+    resolve: (value: T) => void,
+    reject: (error: Error) => void
+  ): void {
+    this.busy++;
+    let settled = false;
+
+    const route = this.routes.get(worker);
+    if (route) route.listener = onMessage;
+
+    const settle = (reusable: boolean) => {
+      settled = true;
+      // A job that has ended hears nothing more from the worker
+      if (route) route.listener = undefined;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      this.busy--;
+      if (reusable) {
+        this.release(worker);
+      } else {
+        this.discard(worker);
+      }
+    };
+
+    const abandon = (error: Error) => {
+      if (settled) return;
+      settle(false);
+      reject(error);
+    };
+
+    const onAbort = () => abandon(new JobCancelledError());
+    const timer = setTimeout(
+      () => abandon(new JobTimeoutError(this.jobTimeoutMs)),
+      this.jobTimeoutMs
+    );
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    if (signal?.aborted) {
+      abandon(new JobCancelledError());
+      return;
+    }
+
+    job(worker).then(
+      value => {
+        if (settled) return;
+        settle(true);
+        resolve(value);
+      },
+      error => {
+        if (settled) return;
+        settle(true);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+  }
+
+  /**
+   * Return a worker to the pool, or destroy it if the pool has shrunk
+   */
+  private release(worker: W): void {
+    if (this.workerCount > this.size) {
+      this.discard(worker);
+      return;
+    }
+    this.idle.push(worker);
+    this.drain();
+  }
+
+  /**
+   * Destroy a worker and free its slot for a replacement
+   */
+  private discard(worker: W): void {
+    this.workerCount--;
+    this.routes.delete(worker);
+    this.destroyWorker(worker).catch(error => {
+      console.error('Error destroying worker:', error);
+    });
+    this.drain();
+  }
+}
@@ -36,6 +36,11 @@ describe('conversationState', () => {
       expect(data.hintsUsed).toBe(0);
     });
 
+    it('returns object with automatic pencilmarks off', () => {
+      const data = createEmptyUserData();
+      expect(data.autoPencilmarks).toBe(false);
+    });
+
     it('returns object without language set', () => {
       const data = createEmptyUserData();
       expect(data.language).toBeUndefined();
@@ -3,7 +3,10 @@
  * Tracks current puzzle and hint navigation state
  */
 
-import type { SolverHintStep } from '@sudobility/sudojo_types';
+import type { SolverBoard, SolverHintStep } from '@sudobility/sudojo_types';
+import type { ParsedPuzzle } from '../parsers/puzzleFileParser.js';
+import type { HintLevel } from '../services/hintLevels.js';
+import type { SolveLogEntry } from '../services/solveRunner.js';
 
 /**
  * Current puzzle state
@@ -17,6 +20,22 @@ export interface PuzzleState {
   solution?: string;
   /** OCR confidence score (0-100) */
   confidence: number;
+  /** Per-cell OCR confidence (81 entries, 0-100), when available */
+  cellConfidence?: number[];
+  /** Runner-up OCR digit per cell (81 chars, 0 = none), when available */
+  alternatives?: string;
+  /** Comma-delimited pencilmarks for all 81 cells (e.g. "123,,45,...") */
+  pencilmarks?: string;
+}
+
+/**
+ * A puzzle waiting for the user to pick it from a list
+ */
+export interface PendingPuzzle extends ParsedPuzzle {
+  /** Difficulty level from the solver, when known */
+  level?: number;
+  /** OCR details, for puzzles read from a photo */
+  ocr?: Pick<PuzzleState, 'confidence' | 'cellConfidence' | 'alternatives'>;
 }
 
 /**
@@ -31,6 +50,36 @@ export interface HintState {
   technique: string;
   /** Technique level */
   level: number;
+  /** Board after the hint is applied, so applying it needs no second solve */
+  board?: SolverBoard;
+  /** User entries the hint was found for; `board` only applies while they are unchanged */
+  user?: string;
+  /** How much of the hint is shown; hints saved before levels existed show the answer */
+  reveal?: HintLevel;
+}
+
+/**
+ * How much help a finished hint needed
+ */
+export interface HintRecord {
+  /** Technique name */
+  technique: string;
+  /** Most the hint revealed before it was applied */
+  level: HintLevel;
+}
+
+/**
+ * A solve to the end, kept so it can be replayed step by step
+ */
+export interface SolveReplay {
+  /** Original puzzle (81 chars) */
+  original: string;
+  /** User entries before the first hint (81 chars) */
+  start: string;
+  /** Pencilmarks before the first hint, comma-delimited, if any */
+  startPencilmarks?: string;
+  /** Applied hints, in order */
+  entries: SolveLogEntry[];
 }
 
 /**
@@ -43,6 +92,12 @@ export interface SudokuConversationData {
   currentHint: HintState | null;
   /** Whether user has confirmed the puzzle */
   puzzleConfirmed: boolean;
+  /** Puzzles from a multi-puzzle file or photo waiting for the user to pick one */
+  pendingPuzzles?: PendingPuzzle[];
+  /** How far each applied hint had to go, oldest first */
+  hintHistory?: HintRecord[];
+  /** The last solve to the end, for replaying */
+  solveReplay?: SolveReplay;
 }
 
 /**
@@ -66,6 +121,8 @@ export interface SudokuUserData {
   puzzlesSolved: number;
   /** Total hints used */
   hintsUsed: number;
+  /** Whether hints assume every candidate is filled in rather than the user's own pencilmarks */
+  autoPencilmarks?: boolean;
 }
 
 /**
@@ -75,5 +132,6 @@ export function createEmptyUserData(): SudokuUserData {
   return {
     puzzlesSolved: 0,
     hintsUsed: 0,
+    autoPencilmarks: false,
   };
 }